@@ -7,11 +7,17 @@ import { EmailStorage } from './utils/storage.js';
 import { Logger, LogLevel } from './utils/logger.js';
 import { Config } from './utils/config.js';
 import { LoginServer } from './utils/login-server.js';
+import { MailWatcher } from './utils/mail-watcher.js';
+import { OutboxWorker } from './utils/outbox-worker.js';
+import { ImapConnectionPool } from './utils/imap-pool.js';
+import { SmtpTransportPool } from './utils/smtp-pool.js';
 import { TransportFactory } from './transports/index.js';
-import { TransportType } from './utils/constants.js';
+import { TRANSPORT_TYPES, TransportType } from './utils/constants.js';
 
 export class Application {
   private loginServer: LoginServer | null = null;
+  private mailWatcher: MailWatcher | null = null;
+  private outboxWorker: OutboxWorker | null = null;
 
   async run(args: string[] = []): Promise<void> {
     const config = Config.getConfig(args);
@@ -51,6 +57,21 @@ export class Application {
       
       // 启动传输层
       await transport.start(config.port);
+
+      // HTTP 传输层支持服务端推送，启动新邮件监听
+      if (config.transport !== TRANSPORT_TYPES.STDIO && Config.getWatcherConfig().enabled) {
+        Logger.info('Starting mail watcher...');
+        this.mailWatcher = new MailWatcher();
+        this.mailWatcher.onNewMail(event => MCPServerFactory.notifyNewMail(event));
+        await this.mailWatcher.start();
+      }
+
+      // 发送发件箱中到期的定时邮件和待重试邮件
+      if (Config.getOutboxConfig().enabled) {
+        Logger.info('Starting outbox worker...');
+        this.outboxWorker = new OutboxWorker();
+        await this.outboxWorker.start();
+      }
     } catch (error) {
       Logger.error('Failed to start servers:', error);
       await this.cleanup();
@@ -59,6 +80,21 @@ export class Application {
   }
 
   private async cleanup(): Promise<void> {
+    if (this.outboxWorker) {
+      Logger.info('Stopping outbox worker...');
+      await this.outboxWorker.stop();
+      this.outboxWorker = null;
+    }
+
+    if (this.mailWatcher) {
+      Logger.info('Stopping mail watcher...');
+      await this.mailWatcher.stop();
+      this.mailWatcher = null;
+    }
+
+    await ImapConnectionPool.closeAll();
+    SmtpTransportPool.closeAll();
+
     if (this.loginServer) {
       Logger.info('Stopping login server...');
       await this.loginServer.stop();
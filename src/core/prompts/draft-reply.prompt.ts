@@ -0,0 +1,59 @@
+/**
+ * 回复草稿提示词
+ */
+
+import { z } from 'zod';
+import { Prompt, PromptResponse } from '../types.js';
+import { EmailPromptHelper, promptArgs } from './email-prompt.helper.js';
+import { Logger } from '../../utils/logger.js';
+
+export class DraftReplyPrompt implements Prompt {
+  name = 'draft-reply';
+  title = 'Draft Reply';
+  description = 'Draft a reply to an email, using the full conversation as context.';
+
+  argsSchema = {
+    account: promptArgs.account,
+    folder: promptArgs.folder,
+    uid: promptArgs.uid,
+    instructions: z.string().optional().describe('What the reply should say, or the tone to use (e.g. "decline politely")')
+  };
+
+  async handler(args: Record<string, string | undefined>): Promise<PromptResponse> {
+    const { account, instructions } = args;
+    const folder = args.folder || 'INBOX';
+    const uid = EmailPromptHelper.parseUid(args.uid);
+
+    Logger.info(`Building draft-reply prompt for account: ${account || 'default'}, folder: ${folder}, uid: ${uid}`);
+
+    const emailService = await EmailPromptHelper.resolveEmailService(account);
+    const thread = await emailService.getThread(uid, folder, 20);
+    const target = thread.find(message => message.uid === uid && message.folder === folder);
+    if (!target) {
+      throw new Error(`Email not found with UID: ${uid} in ${folder}`);
+    }
+
+    const history = thread
+      .filter(message => message !== target)
+      .map(message =>
+        `From: ${message.from}\nDate: ${message.date.toLocaleString()}\nSubject: ${message.subject}\n\n` +
+        EmailPromptHelper.truncate(message.text, 2000)
+      )
+      .join('\n\n---\n\n');
+
+    return EmailPromptHelper.userPrompt(
+      `Draft a reply to "${target.subject}"`,
+      `Draft a reply from ${emailService.getAccountEmail()} to the email below.\n\n` +
+      'Instructions:\n' +
+      '1. Write in the same language as the email and match its level of formality.\n' +
+      '2. Answer every question and request in the email; do not invent facts, dates or commitments — use [placeholders] where information is missing.\n' +
+      '3. Keep it concise and end with an appropriate sign-off.\n' +
+      '4. Output only the reply subject and body, and do not send it until I confirm.\n' +
+      (instructions ? `5. Additional instructions: ${instructions}\n` : '') +
+      `\n## Email to reply to (UID ${uid} in ${folder})\n` +
+      `From: ${target.from}\nTo: ${target.to}\nDate: ${target.date.toLocaleString()}\nSubject: ${target.subject}\n\n` +
+      EmailPromptHelper.truncate(target.text, 6000) +
+      (history ? `\n\n## Earlier messages in this conversation\n\n${history}` : '')
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * 邮件提示词公共辅助方法
+ * 统一账户解析、参数解析和邮件内容格式化
+ */
+
+import { z } from 'zod';
+import { PromptResponse } from '../types.js';
+import { EmailResourceHelper } from '../resources/email-resource.helper.js';
+import { EmailMessage, EmailService } from '../../utils/email-service.js';
+import { EmailStorage } from '../../utils/storage.js';
+import { Logger } from '../../utils/logger.js';
+
+/**
+ * 各提示词共用的参数
+ */
+export const promptArgs = {
+  account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
+  folder: z.string().optional().describe('Mailbox folder path (default: INBOX)'),
+  uid: z.string().describe('Email UID (unique identifier) from email-query'),
+  since: z.string().optional().describe('Only emails on or after this date (YYYY-MM-DD)'),
+  before: z.string().optional().describe('Only emails before this date (YYYY-MM-DD)'),
+  limit: z.string().optional().describe('Maximum number of emails to include')
+};
+
+export class EmailPromptHelper {
+  /**
+   * 根据账户（或默认账户）创建邮件服务，失败时抛出异常
+   */
+  static async resolveEmailService(account?: string): Promise<EmailService> {
+    if (account) {
+      return EmailResourceHelper.resolveEmailService(account);
+    }
+
+    let emailService: EmailService;
+    try {
+      emailService = await EmailService.createDefault();
+    } catch {
+      throw new Error('No default account configured. Please provide an account argument or login first.');
+    }
+
+    const defaultAccount = await EmailStorage.getDefaultAccount();
+    if (defaultAccount) {
+      const tokenStatus = await EmailStorage.checkTokenExpiry(defaultAccount.email);
+      if (tokenStatus.isExpired) {
+        throw new Error(`OAuth token for default account "${defaultAccount.email}" has expired. Please re-authenticate using the email login tool.`);
+      }
+    }
+
+    return emailService;
+  }
+
+  /**
+   * 解析 UID 参数
+   */
+  static parseUid(value: string | undefined): number {
+    const uid = Number(value);
+    if (!Number.isInteger(uid) || uid <= 0) {
+      throw new Error(`Invalid email UID: ${value}`);
+    }
+    return uid;
+  }
+
+  /**
+   * 解析 YYYY-MM-DD 日期参数（本地时区的零点）
+   */
+  static parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) return undefined;
+
+    const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+    // 拒绝 2025-02-30 这类会被 Date 自动进位的日期
+    if (!date || date.getMonth() !== Number(match![2]) - 1 || date.getDate() !== Number(match![3])) {
+      throw new Error(`Invalid ${name} date: ${value}. Use YYYY-MM-DD.`);
+    }
+    return date;
+  }
+
+  /**
+   * 解析数量参数，超出范围时使用边界值
+   */
+  static parseLimit(value: string | undefined, defaultValue: number, max: number): number {
+    const limit = Number(value);
+    if (!value || !Number.isInteger(limit) || limit <= 0) {
+      return defaultValue;
+    }
+    return Math.min(limit, max);
+  }
+
+  /**
+   * 格式化日期为 YYYY-MM-DD
+   */
+  static formatDay(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  /**
+   * 截断过长的正文
+   */
+  static truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength)}\n[Truncated]` : text;
+  }
+
+  /**
+   * 逐封获取邮件正文并格式化（使用本地缓存，不会把邮件标记为已读）
+   */
+  static async formatEmailsWithText(
+    emailService: EmailService,
+    emails: EmailMessage[],
+    folder: string,
+    maxLength: number
+  ): Promise<string> {
+    const sections: string[] = [];
+
+    for (const email of emails) {
+      let text: string;
+      try {
+        text = (await emailService.getEmailTextContent(email.uid, folder)) || '';
+      } catch (error) {
+        Logger.warn(`Failed to load text for UID ${email.uid} in ${folder}`, error);
+        text = '[Failed to load email content]';
+      }
+
+      sections.push(
+        `### UID ${email.uid}: ${email.subject || '(No subject)'}\n` +
+        `From: ${email.from}\n` +
+        `Date: ${email.date.toLocaleString()}\n` +
+        `Flags: ${email.flags.join(', ') || 'None'}\n\n` +
+        EmailPromptHelper.truncate(text.trim(), maxLength)
+      );
+    }
+
+    return sections.join('\n\n---\n\n');
+  }
+
+  /**
+   * 构建单条用户消息的提示词
+   */
+  static userPrompt(description: string, text: string): PromptResponse {
+    return {
+      description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text
+          }
+        }
+      ]
+    };
+  }
+}
\ No newline at end of file
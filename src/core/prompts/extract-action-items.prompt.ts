@@ -0,0 +1,53 @@
+/**
+ * 会话待办提取提示词
+ */
+
+import { Prompt, PromptResponse } from '../types.js';
+import { EmailPromptHelper, promptArgs } from './email-prompt.helper.js';
+import { Logger } from '../../utils/logger.js';
+
+export class ExtractActionItemsPrompt implements Prompt {
+  name = 'extract-action-items';
+  title = 'Extract Action Items';
+  description = 'Extract action items, owners and deadlines from the conversation an email belongs to.';
+
+  argsSchema = {
+    account: promptArgs.account,
+    folder: promptArgs.folder,
+    uid: promptArgs.uid.describe('UID of any email in the conversation')
+  };
+
+  async handler(args: Record<string, string | undefined>): Promise<PromptResponse> {
+    const { account } = args;
+    const folder = args.folder || 'INBOX';
+    const uid = EmailPromptHelper.parseUid(args.uid);
+
+    Logger.info(`Building extract-action-items prompt for account: ${account || 'default'}, folder: ${folder}, uid: ${uid}`);
+
+    const emailService = await EmailPromptHelper.resolveEmailService(account);
+    const thread = await emailService.getThread(uid, folder);
+    if (thread.length === 0) {
+      throw new Error(`Email not found with UID: ${uid} in ${folder}`);
+    }
+
+    const messages = thread
+      .map((message, index) =>
+        `### Message ${index + 1} (UID ${message.uid} in ${message.folder})\n` +
+        `From: ${message.from}\nTo: ${message.to}\nDate: ${message.date.toLocaleString()}\nSubject: ${message.subject}\n\n` +
+        EmailPromptHelper.truncate(message.text, 3000)
+      )
+      .join('\n\n---\n\n');
+
+    return EmailPromptHelper.userPrompt(
+      `Action items from "${thread[0].subject}" (${thread.length} messages)`,
+      `Extract the action items from the following conversation (${thread.length} messages, oldest first). I am ${emailService.getAccountEmail()}.\n\n` +
+      'Instructions:\n' +
+      '1. List every task, request, decision needing follow-up and promised deliverable.\n' +
+      '2. For each item give: the action, the owner (mark items assigned to me), the deadline if mentioned, and the message number it comes from.\n' +
+      '3. Mark items that later messages show as already done or cancelled.\n' +
+      '4. Finish with open questions that nobody has answered yet.\n' +
+      '5. Reply in the language the conversation is written in.\n\n' +
+      messages
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * 提示词注册器
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Prompt } from '../types.js';
+import { SummarizeUnreadPrompt } from './summarize-unread.prompt.js';
+import { DraftReplyPrompt } from './draft-reply.prompt.js';
+import { TriageTodayPrompt } from './triage-today.prompt.js';
+import { ExtractActionItemsPrompt } from './extract-action-items.prompt.js';
+
+export class PromptRegistry {
+  private prompts: Prompt[] = [];
+
+  constructor() {
+    this.register(new SummarizeUnreadPrompt());
+    this.register(new DraftReplyPrompt());
+    this.register(new TriageTodayPrompt());
+    this.register(new ExtractActionItemsPrompt());
+  }
+
+  register(prompt: Prompt): void {
+    this.prompts.push(prompt);
+  }
+
+  registerToServer(server: McpServer): void {
+    for (const prompt of this.prompts) {
+      server.registerPrompt(
+        prompt.name,
+        {
+          title: prompt.title,
+          description: prompt.description,
+          argsSchema: prompt.argsSchema
+        },
+        async (args: Record<string, string | undefined>) => {
+          return await prompt.handler(args);
+        }
+      );
+    }
+  }
+
+  getPrompts(): Prompt[] {
+    return this.prompts;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * 未读邮件摘要提示词
+ */
+
+import { Prompt, PromptResponse } from '../types.js';
+import { EmailPromptHelper, promptArgs } from './email-prompt.helper.js';
+import { EmailSearchCriteria } from '../../utils/email-service.js';
+import { Logger } from '../../utils/logger.js';
+
+export class SummarizeUnreadPrompt implements Prompt {
+  name = 'summarize-unread-inbox';
+  title = 'Summarize Unread Inbox';
+  description = 'Summarize unread emails in a folder, grouped by importance, with the UIDs needed for follow-up actions.';
+
+  argsSchema = {
+    account: promptArgs.account,
+    folder: promptArgs.folder,
+    since: promptArgs.since,
+    before: promptArgs.before,
+    limit: promptArgs.limit.describe('Maximum number of unread emails to include (default: 20, max: 50)')
+  };
+
+  async handler(args: Record<string, string | undefined>): Promise<PromptResponse> {
+    const { account } = args;
+    const folder = args.folder || 'INBOX';
+    const limit = EmailPromptHelper.parseLimit(args.limit, 20, 50);
+
+    const criteria: EmailSearchCriteria = { unseen: true };
+    const since = EmailPromptHelper.parseDate(args.since, 'since');
+    const before = EmailPromptHelper.parseDate(args.before, 'before');
+    if (since) criteria.since = since;
+    if (before) criteria.before = before;
+
+    Logger.info(`Building summarize-unread prompt for account: ${account || 'default'}, folder: ${folder}`);
+
+    const emailService = await EmailPromptHelper.resolveEmailService(account);
+    const page = await emailService.getEmailPage(limit, criteria, folder);
+    const mailbox = `${emailService.getAccountEmail()} / ${folder}`;
+
+    if (page.emails.length === 0) {
+      return EmailPromptHelper.userPrompt(
+        `No unread emails in ${mailbox}`,
+        `There are no unread emails in ${mailbox}. Let me know that my inbox is clear.`
+      );
+    }
+
+    const emails = await EmailPromptHelper.formatEmailsWithText(emailService, page.emails, folder, 1500);
+    const more = page.nextCursor ? `\n\nOnly the ${page.emails.length} most recent unread emails are included; more unread emails exist.` : '';
+
+    return EmailPromptHelper.userPrompt(
+      `${page.emails.length} unread emails in ${mailbox}`,
+      `Summarize the following ${page.emails.length} unread emails from ${mailbox}.\n\n` +
+      'Instructions:\n' +
+      '1. Start with a one-paragraph overview.\n' +
+      '2. Group the emails into "Important", "Needs reply" and "FYI / low priority".\n' +
+      '3. For each email give the sender, subject, a one-sentence summary and the UID.\n' +
+      '4. Call out deadlines, meeting times and requests addressed to me.\n' +
+      '5. Reply in the language the emails are mostly written in.\n\n' +
+      `${emails}${more}`
+    );
+  }
+}
\ No newline at end of file
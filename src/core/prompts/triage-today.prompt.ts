@@ -0,0 +1,64 @@
+/**
+ * 今日邮件分拣提示词
+ */
+
+import { Prompt, PromptResponse } from '../types.js';
+import { EmailPromptHelper, promptArgs } from './email-prompt.helper.js';
+import { EmailSearchCriteria } from '../../utils/email-service.js';
+import { Logger } from '../../utils/logger.js';
+
+export class TriageTodayPrompt implements Prompt {
+  name = 'triage-today';
+  title = 'Triage Today\'s Mail';
+  description = 'Triage the emails received today (or in a date range) into actionable categories and suggest the next action for each.';
+
+  argsSchema = {
+    account: promptArgs.account,
+    folder: promptArgs.folder,
+    since: promptArgs.since.describe('Only emails on or after this date (YYYY-MM-DD, default: today)'),
+    before: promptArgs.before,
+    limit: promptArgs.limit.describe('Maximum number of emails to include (default: 30, max: 100)')
+  };
+
+  async handler(args: Record<string, string | undefined>): Promise<PromptResponse> {
+    const { account } = args;
+    const folder = args.folder || 'INBOX';
+    const limit = EmailPromptHelper.parseLimit(args.limit, 30, 100);
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const criteria: EmailSearchCriteria = {
+      since: EmailPromptHelper.parseDate(args.since, 'since') || today
+    };
+    const before = EmailPromptHelper.parseDate(args.before, 'before');
+    if (before) criteria.before = before;
+
+    Logger.info(`Building triage prompt for account: ${account || 'default'}, folder: ${folder}`);
+
+    const emailService = await EmailPromptHelper.resolveEmailService(account);
+    const page = await emailService.getEmailPage(limit, criteria, folder);
+    const range = `${EmailPromptHelper.formatDay(criteria.since!)}${before ? ` to ${EmailPromptHelper.formatDay(before)}` : ''}`;
+    const mailbox = `${emailService.getAccountEmail()} / ${folder}`;
+
+    if (page.emails.length === 0) {
+      return EmailPromptHelper.userPrompt(
+        `No emails in ${mailbox} for ${range}`,
+        `There are no emails in ${mailbox} for ${range}. Let me know there is nothing to triage.`
+      );
+    }
+
+    const emails = await EmailPromptHelper.formatEmailsWithText(emailService, page.emails, folder, 600);
+    const more = page.nextCursor ? `\n\nOnly the ${page.emails.length} most recent emails are included; more emails exist in this range.` : '';
+
+    return EmailPromptHelper.userPrompt(
+      `Triage ${page.emails.length} emails in ${mailbox} for ${range}`,
+      `Triage the following ${page.emails.length} emails from ${mailbox} (${range}).\n\n` +
+      'Instructions:\n' +
+      '1. Put every email into exactly one category: "Urgent", "Reply needed", "Read later", "Archive" or "Spam / promotion".\n' +
+      '2. For each email list the UID, sender, subject and a one-line reason.\n' +
+      '3. Suggest the next action for each category (for example: email-flag to star urgent emails, email-organize to archive or trash), but do not run any tool until I confirm.\n' +
+      '4. Reply in the language the emails are mostly written in.\n\n' +
+      `${emails}${more}`
+    );
+  }
+}
\ No newline at end of file
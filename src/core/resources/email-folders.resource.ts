@@ -0,0 +1,44 @@
+/**
+ * 邮箱文件夹列表资源
+ * mail://{account}/folders
+ */
+
+import { Resource, ResourceListItem, ResourceResponse } from '../types.js';
+import { EmailResourceHelper } from './email-resource.helper.js';
+import { Logger } from '../../utils/logger.js';
+
+export class EmailFoldersResource implements Resource {
+  name = 'email-folders';
+  title = 'Email Folders';
+  description = 'Folder list of an email account with message and unread counts. Each folder includes the URI of its message list resource.';
+  mimeType = 'application/json';
+  uriTemplate = 'mail://{account}/folders';
+
+  complete = {
+    account: (value: string) => EmailResourceHelper.completeAccount(value)
+  };
+
+  async list(): Promise<ResourceListItem[]> {
+    return EmailResourceHelper.listPerAccount(account => ({
+      uri: EmailResourceHelper.buildUri(account, 'folders'),
+      name: `${account} folders`,
+      mimeType: this.mimeType
+    }));
+  }
+
+  async handler(uri: URL, variables: Record<string, string>): Promise<ResourceResponse> {
+    const { account } = variables;
+    Logger.info(`Reading folder list resource for account: ${account}`);
+
+    const emailService = await EmailResourceHelper.resolveEmailService(account);
+    const folders = await emailService.listFolders();
+
+    return EmailResourceHelper.jsonResponse(uri.href, {
+      account,
+      folders: folders.map(folder => ({
+        ...folder,
+        uri: EmailResourceHelper.buildUri(account, folder.path)
+      }))
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * 邮箱文件夹最近邮件资源
+ * mail://{account}/{folder}
+ */
+
+import { Resource, ResourceListItem, ResourceResponse } from '../types.js';
+import { EmailResourceHelper } from './email-resource.helper.js';
+import { Logger } from '../../utils/logger.js';
+
+const RECENT_EMAIL_COUNT = 20;
+
+export class EmailMailboxResource implements Resource {
+  name = 'email-mailbox';
+  title = 'Email Mailbox';
+  description = `The ${RECENT_EMAIL_COUNT} most recent emails in a folder (newest first). Folder names containing "/" must be URI-encoded. Subscribe to get notified when new mail arrives.`;
+  mimeType = 'application/json';
+  uriTemplate = 'mail://{account}/{folder}';
+
+  complete = {
+    account: (value: string) => EmailResourceHelper.completeAccount(value)
+  };
+
+  async list(): Promise<ResourceListItem[]> {
+    return EmailResourceHelper.listPerAccount(account => ({
+      uri: EmailResourceHelper.buildUri(account, 'INBOX'),
+      name: `${account} INBOX`,
+      mimeType: this.mimeType
+    }));
+  }
+
+  async handler(uri: URL, variables: Record<string, string>): Promise<ResourceResponse> {
+    const { account, folder } = variables;
+    Logger.info(`Reading mailbox resource for account: ${account}, folder: ${folder}`);
+
+    const emailService = await EmailResourceHelper.resolveEmailService(account);
+    const page = await emailService.getEmailPage(RECENT_EMAIL_COUNT, undefined, folder);
+
+    return EmailResourceHelper.jsonResponse(uri.href, {
+      account,
+      folder,
+      emails: page.emails.map(email => ({
+        uid: email.uid,
+        uri: EmailResourceHelper.buildUri(account, folder, email.uid),
+        from: email.from,
+        subject: email.subject,
+        date: email.date.toISOString(),
+        flags: email.flags
+      }))
+    });
+  }
+}
\ No newline at end of file
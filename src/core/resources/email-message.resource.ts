@@ -0,0 +1,38 @@
+/**
+ * 单封邮件正文资源
+ * mail://{account}/{folder}/{uid}
+ */
+
+import { Resource, ResourceResponse } from '../types.js';
+import { EmailResourceHelper } from './email-resource.helper.js';
+import { Logger } from '../../utils/logger.js';
+
+export class EmailMessageResource implements Resource {
+  name = 'email-message';
+  title = 'Email Message';
+  description = 'Cleaned plain-text body of an email, addressed by account, folder and UID. Folder names containing "/" must be URI-encoded.';
+  mimeType = 'text/plain';
+  uriTemplate = 'mail://{account}/{folder}/{uid}';
+
+  complete = {
+    account: (value: string) => EmailResourceHelper.completeAccount(value)
+  };
+
+  async handler(uri: URL, variables: Record<string, string>): Promise<ResourceResponse> {
+    const { account, folder } = variables;
+    const uid = Number(variables.uid);
+    if (!Number.isInteger(uid) || uid <= 0) {
+      throw new Error(`Invalid email UID: ${variables.uid}`);
+    }
+
+    Logger.info(`Reading message resource for account: ${account}, folder: ${folder}, uid: ${uid}`);
+
+    const emailService = await EmailResourceHelper.resolveEmailService(account);
+    const text = await emailService.getEmailTextContent(uid, folder);
+    if (text === null) {
+      throw new Error(`Email not found with UID: ${uid} in ${folder}`);
+    }
+
+    return EmailResourceHelper.textResponse(uri.href, text);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * 邮件资源公共辅助方法
+ * 统一 mail:// URI 的构建与解析、账户解析和资源内容格式
+ */
+
+import { ResourceListItem, ResourceResponse } from '../types.js';
+import { EmailService } from '../../utils/email-service.js';
+import { EmailStorage } from '../../utils/storage.js';
+import { Logger } from '../../utils/logger.js';
+
+export const MAIL_URI_SCHEME = 'mail://';
+
+export interface MailUri {
+  account: string;
+  /** 账户之后的路径段（已解码），如 ['folders']、['INBOX']、['INBOX', '123'] */
+  path: string[];
+}
+
+export class EmailResourceHelper {
+  /**
+   * 构建 mail:// URI，文件夹名中的 / 等字符会被编码，保证每一段都不含 /
+   */
+  static buildUri(account: string, ...segments: Array<string | number>): string {
+    const encode = (segment: string | number) => encodeURIComponent(String(segment)).replace(/%40/g, '@');
+    return MAIL_URI_SCHEME + [account, ...segments].map(encode).join('/');
+  }
+
+  /**
+   * 解析 mail:// URI，格式不正确时返回 null
+   */
+  static parseUri(uri: string): MailUri | null {
+    if (!uri.startsWith(MAIL_URI_SCHEME)) return null;
+
+    try {
+      const [account, ...path] = uri.slice(MAIL_URI_SCHEME.length).split('/').map(segment => decodeURIComponent(segment));
+      return account ? { account, path } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 根据账户创建邮件服务，账户不存在或令牌过期时抛出异常
+   */
+  static async resolveEmailService(account: string): Promise<EmailService> {
+    const accountExists = await EmailStorage.validateAccount(account);
+    if (!accountExists) {
+      throw new Error(`Account "${account}" not found or not active. Please login first using the email login page.`);
+    }
+
+    const tokenStatus = await EmailStorage.checkTokenExpiry(account);
+    if (tokenStatus.isExpired) {
+      throw new Error(`OAuth token for account "${account}" has expired. Please re-authenticate using the email login tool.`);
+    } else if (tokenStatus.needsRefresh) {
+      Logger.warn(`OAuth token for account "${account}" expires in ${Math.round(tokenStatus.expiresIn / 60000)} minutes`);
+    }
+
+    return EmailService.createFromAccount(account);
+  }
+
+  /**
+   * 已登录且启用的账户邮箱列表
+   */
+  static async listAccounts(): Promise<string[]> {
+    const accounts = await EmailStorage.getAllAccounts();
+    return accounts.filter(account => account.isActive).map(account => account.email);
+  }
+
+  /**
+   * 补全 {account} 变量
+   */
+  static async completeAccount(value: string): Promise<string[]> {
+    const prefix = value.toLowerCase();
+    return (await EmailResourceHelper.listAccounts()).filter(email => email.toLowerCase().startsWith(prefix));
+  }
+
+  /**
+   * 为每个账户生成一个资源列表项
+   */
+  static async listPerAccount(build: (account: string) => ResourceListItem): Promise<ResourceListItem[]> {
+    return (await EmailResourceHelper.listAccounts()).map(build);
+  }
+
+  /**
+   * 构建 JSON 资源内容
+   */
+  static jsonResponse(uri: string, data: unknown): ResourceResponse {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(data, null, 2)
+        }
+      ]
+    };
+  }
+
+  /**
+   * 构建纯文本资源内容
+   */
+  static textResponse(uri: string, text: string): ResourceResponse {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/plain',
+          text
+        }
+      ]
+    };
+  }
+}
\ No newline at end of file
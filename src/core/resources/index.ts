@@ -0,0 +1,56 @@
+/**
+ * 资源注册器
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Resource } from '../types.js';
+import { EmailFoldersResource } from './email-folders.resource.js';
+import { EmailMailboxResource } from './email-mailbox.resource.js';
+import { EmailMessageResource } from './email-message.resource.js';
+
+export class ResourceRegistry {
+  private resources: Resource[] = [];
+
+  constructor() {
+    // 注册顺序即匹配顺序：mail://{account}/folders 需要先于 mail://{account}/{folder}
+    this.register(new EmailFoldersResource());
+    this.register(new EmailMailboxResource());
+    this.register(new EmailMessageResource());
+  }
+
+  register(resource: Resource): void {
+    this.resources.push(resource);
+  }
+
+  registerToServer(server: McpServer): void {
+    for (const resource of this.resources) {
+      const list = resource.list?.bind(resource);
+      const template = new ResourceTemplate(resource.uriTemplate, {
+        list: list ? async () => ({ resources: await list() }) : undefined,
+        ...(resource.complete ? { complete: resource.complete } : {})
+      });
+
+      server.registerResource(
+        resource.name,
+        template,
+        {
+          title: resource.title,
+          description: resource.description,
+          mimeType: resource.mimeType
+        },
+        async (uri, variables) => {
+          // URI 模板匹配得到的是编码后的值
+          const decoded: Record<string, string> = {};
+          for (const [key, value] of Object.entries(variables)) {
+            decoded[key] = decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+          }
+          return await resource.handler(uri, decoded);
+        }
+      );
+    }
+  }
+
+  getResources(): Resource[] {
+    return this.resources;
+  }
+}
\ No newline at end of file
@@ -3,22 +3,111 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { ToolRegistry } from './tools/index.js';
+import { ResourceRegistry } from './resources/index.js';
+import { PromptRegistry } from './prompts/index.js';
+import { EmailResourceHelper } from './resources/email-resource.helper.js';
 import { Config } from '../utils/config.js';
+import { Logger } from '../utils/logger.js';
+import { NewMailEvent } from '../utils/mail-watcher.js';
 
 export class MCPServerFactory {
+  // HTTP 传输层为每个会话创建一个服务器实例，这里记录仍在连接中的实例以便推送通知
+  private static activeServers = new Set<McpServer>();
+  // 每个服务器实例上客户端订阅的资源 URI
+  private static subscriptions = new Map<McpServer, Set<string>>();
+
   static create(): McpServer {
     const config = Config.getConfig();
     
     const server = new McpServer({
       name: config.name,
       version: config.version
+    }, {
+      capabilities: {
+        logging: {},
+        resources: {
+          subscribe: true
+        }
+      }
     });
 
+    const subscriptions = new Set<string>();
+    MCPServerFactory.activeServers.add(server);
+    MCPServerFactory.subscriptions.set(server, subscriptions);
+    server.server.onclose = () => {
+      MCPServerFactory.activeServers.delete(server);
+      MCPServerFactory.subscriptions.delete(server);
+    };
+
     // 注册工具
     const toolRegistry = new ToolRegistry();
     toolRegistry.registerToServer(server);
 
+    // 注册资源
+    const resourceRegistry = new ResourceRegistry();
+    resourceRegistry.registerToServer(server);
+
+    // 注册提示词
+    const promptRegistry = new PromptRegistry();
+    promptRegistry.registerToServer(server);
+
+    // 资源订阅：新邮件到达时推送 notifications/resources/updated
+    server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
     return server;
   }
+
+  /**
+   * 向所有已连接的客户端推送新邮件通知（notifications/message），
+   * 并通知订阅了该文件夹或文件夹列表资源的客户端
+   */
+  static async notifyNewMail(event: NewMailEvent): Promise<void> {
+    const data = {
+      type: 'new-mail',
+      account: event.account,
+      folder: event.folder,
+      emails: event.emails.map(email => ({
+        uid: email.uid,
+        from: email.from,
+        subject: email.subject,
+        date: email.date.toISOString()
+      }))
+    };
+
+    await Promise.all(Array.from(MCPServerFactory.activeServers).map(async server => {
+      if (!server.isConnected()) return;
+
+      try {
+        await server.server.sendLoggingMessage({ level: 'notice', logger: 'mail-watcher', data });
+
+        const updatedUris = Array.from(MCPServerFactory.subscriptions.get(server) || [])
+          .filter(uri => MCPServerFactory.isAffectedByNewMail(uri, event));
+        for (const uri of updatedUris) {
+          await server.server.sendResourceUpdated({ uri });
+        }
+      } catch (error) {
+        Logger.warn('Failed to send new mail notification', error);
+      }
+    }));
+  }
+
+  /**
+   * 判断订阅的资源是否因新邮件而变化：mail://{account}/{folder} 和 mail://{account}/folders
+   */
+  private static isAffectedByNewMail(uri: string, event: NewMailEvent): boolean {
+    const parsed = EmailResourceHelper.parseUri(uri);
+    if (!parsed || parsed.account.toLowerCase() !== event.account.toLowerCase() || parsed.path.length !== 1) {
+      return false;
+    }
+    return parsed.path[0] === 'folders' || parsed.path[0] === event.folder;
+  }
 }
\ No newline at end of file
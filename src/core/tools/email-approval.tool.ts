@@ -0,0 +1,67 @@
+/**
+ * 发送审批查询工具
+ * 查看待人工审批的邮件及审批结果，只能查询，批准和拒绝必须由人工在审批页面或确认对话框中完成
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { SendApprovals } from '../../utils/send-approval.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailApprovalTool implements Tool {
+  name = 'email-approval';
+  title = 'Email Send Approvals';
+  description = 'Check emails waiting for human approval (when MAILMCP_SEND_APPROVAL is enabled, email-send, email-reply and email-draft send only park the message). list: pending approvals; get: the status of one approval, including the send result once a human approved it. Approving or rejecting is only possible for a human on the review page.';
+
+  inputSchema = {
+    action: z.enum(['list', 'get']).describe('list: list approvals; get: show one approval'),
+    id: z.string().optional().describe('Approval ID returned by the sending tool. Required for get'),
+    includeDecided: z.boolean().optional().default(false).describe('Also list approved, rejected and expired requests (default: false)')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { action, id, includeDecided = false } = args as {
+      action: 'list' | 'get';
+      id?: string;
+      includeDecided?: boolean;
+    };
+    try {
+      Logger.info(`Email approval ${action}${id ? `: ${id}` : ''}`);
+
+      if (action === 'get') {
+        if (!id) {
+          return EmailToolHelper.textResponse('Error: id is required for the get action.');
+        }
+        const approval = await SendApprovals.get(id);
+        if (!approval) {
+          return EmailToolHelper.textResponse(`Approval request not found: ${id}`);
+        }
+        return EmailToolHelper.textResponse(EmailToolHelper.formatApproval(approval));
+      }
+
+      const approvals = await SendApprovals.list(includeDecided);
+      if (approvals.length === 0) {
+        return EmailToolHelper.textResponse(includeDecided ? 'No approval requests found.' : 'No emails are waiting for approval.');
+      }
+
+      const lines = [`Approval requests (${approvals.length}):`, ''];
+      for (const approval of approvals) {
+        lines.push(
+          `${approval.id} | ${approval.status} | ${new Date(approval.createdAt).toLocaleString()} | ` +
+          `From: ${approval.account} | Subject: ${approval.options.subject}`
+        );
+      }
+      if (approvals.some(approval => approval.status === 'pending')) {
+        const reviewUrl = SendApprovals.getReviewUrl();
+        lines.push('', reviewUrl
+          ? `Pending emails can be reviewed at ${reviewUrl}`
+          : 'Pending emails can be reviewed on the review page once the login server is started with email-login (action "start").');
+      }
+      return EmailToolHelper.textResponse(lines.join('\n'));
+    } catch (error) {
+      Logger.error(`Error handling email approval ${action}`, error);
+      return EmailToolHelper.errorResponse(error, 'checking email approvals');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+/**
+ * 邮件附件下载工具
+ * 按 MIME part 编号或文件名下载单个附件
+ */
+
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Tool, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { Config } from '../../utils/config.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailAttachmentTool implements Tool {
+  name = 'email-attachment';
+  title = 'Email Attachment';
+  description = 'Download one attachment of an email by MIME part number or filename. Returns it as an embedded MCP resource, as base64 text, or saves it to the configured download directory.';
+
+  inputSchema = {
+    account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
+    uid: z.number().describe('Email UID (unique identifier) from email-query'),
+    folder: z.string().optional().default('INBOX').describe('Mailbox folder path the UID belongs to (default: INBOX)'),
+    part: z.string().optional().describe('MIME part number of the attachment, as listed by email-detail (e.g. "2" or "1.2")'),
+    filename: z.string().optional().describe('Attachment filename, used when part is not provided'),
+    mode: z.enum(['resource', 'base64', 'save']).optional().default('resource').describe('resource: embedded MCP resource, base64: base64 text, save: write to the download directory (default: resource)')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { account, uid, folder = 'INBOX', part, filename, mode = 'resource' } = args as {
+      account?: string;
+      uid: number;
+      folder?: string;
+      part?: string;
+      filename?: string;
+      mode?: 'resource' | 'base64' | 'save';
+    };
+    try {
+      Logger.info(`Downloading attachment for account: ${account || 'default'}, folder: ${folder}, uid: ${uid}, part: ${part || filename}`);
+
+      if (!part && !filename) {
+        return EmailToolHelper.textResponse('Error: Either part or filename is required.');
+      }
+
+      const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+      if (!emailService) {
+        return response;
+      }
+
+      const attachmentConfig = Config.getAttachmentConfig();
+      const selector: { part?: string; filename?: string } = {};
+      if (part) selector.part = part;
+      if (filename) selector.filename = filename;
+
+      const attachment = await emailService.downloadAttachment(uid, selector, folder, attachmentConfig.maxSize);
+      if (!attachment) {
+        return EmailToolHelper.textResponse(`Email not found with UID: ${uid} in ${folder}`);
+      }
+
+      const summary = `Attachment: ${attachment.filename} (${attachment.contentType}, ${attachment.size} bytes, part ${attachment.part})`;
+
+      if (mode === 'save') {
+        const safeName = path.basename(attachment.filename).replace(/[\\/:*?"<>|]|\p{Cc}/gu, '_');
+        const filePath = path.join(attachmentConfig.downloadDir, `${uid}_${attachment.part}_${safeName}`);
+        await fs.mkdir(attachmentConfig.downloadDir, { recursive: true });
+        await fs.writeFile(filePath, attachment.data);
+
+        return EmailToolHelper.textResponse(`${summary}\nSaved to: ${filePath}`);
+      }
+
+      const base64 = attachment.data.toString('base64');
+
+      if (mode === 'base64') {
+        return EmailToolHelper.textResponse(`${summary}\n--- Base64 ---\n${base64}`);
+      }
+
+      const uri = `mail://${encodeURIComponent(emailService.getAccountEmail())}/${encodeURIComponent(folder)}/${uid}/attachments/${attachment.part}`;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: summary
+          },
+          {
+            type: 'resource',
+            resource: {
+              uri,
+              mimeType: attachment.contentType,
+              blob: base64
+            }
+          }
+        ]
+      };
+
+    } catch (error) {
+      Logger.error('Error downloading attachment', error);
+      return EmailToolHelper.errorResponse(error, 'downloading attachment');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,198 @@
+/**
+ * 批量发送工具
+ * 用模板和收件人记录生成个性化邮件逐封发送，返回每个收件人的发送结果，失败或中断后可以继续发送
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailStorage } from '../../utils/storage.js';
+import { MailMerge, MergeRecord, MergeTemplate } from '../../utils/mail-merge.js';
+import { BulkSender, BulkSendJob } from '../../utils/bulk-sender.js';
+import { SendApprovals } from '../../utils/send-approval.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+type BulkAction = 'send' | 'status' | 'resume' | 'cancel' | 'list';
+
+export class EmailBulkSendTool implements Tool {
+  name = 'email-bulk-send';
+  title = 'Email Bulk Send (Mail Merge)';
+  description = 'Send one personalized email per recipient from a template. Placeholders like {{name}} in subject, text and html are filled from each recipient record ({{field|default}} provides a default; values are HTML-escaped in html, use {{{field}}} for raw HTML). Recipients are given as records or as CSV text with a header row. Every record needs an email field; a name field is used as the display name. Emails are sent one by one in the background, throttled per account (MAILMCP_SMTP_RATE_LIMIT per minute). The result lists the outcome per recipient; use status to follow progress and resume to retry failed recipients after an error. Use dryRun to preview the rendered emails first.';
+
+  inputSchema = {
+    action: z.enum(['send', 'status', 'resume', 'cancel', 'list']).optional().default('send').describe('send: start a new bulk send; status: show the per-recipient report of a job; resume: retry pending and failed recipients of a job; cancel: stop a job; list: list recent jobs'),
+    from: z.string().optional().describe('Email address or display name of the sending account. If not provided, use default account.'),
+    subject: z.string().optional().describe('Subject template, e.g. "Invitation for {{name}}". Required for send'),
+    text: z.string().optional().describe('Plain text template'),
+    html: z.string().optional().describe('HTML template'),
+    recipients: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))).optional().describe('Recipient records for send, e.g. [{"email": "a@example.com", "name": "Alice", "company": "ACME"}]'),
+    csv: z.string().optional().describe('Recipient records for send as CSV text instead of recipients. The first row holds the field names, e.g. "email,name,company\na@example.com,Alice,ACME"'),
+    dryRun: z.boolean().optional().default(false).describe('Only render and check the emails without sending; shows the first rendered emails'),
+    id: z.string().optional().describe('Bulk send job ID. Required for status, resume and cancel')
+  };
+
+  // 等待发送完成的最长时间，超时后在后台继续发送
+  private static readonly WAIT_TIME = 30 * 1000;
+  private static readonly MAX_REPORT_LINES = 200;
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { action = 'send', from, subject, text, html, recipients = [], csv, dryRun = false, id } = args as {
+      action?: BulkAction;
+      from?: string;
+      subject?: string;
+      text?: string;
+      html?: string;
+      recipients?: MergeRecord[];
+      csv?: string;
+      dryRun?: boolean;
+      id?: string;
+    };
+    try {
+      Logger.info(`Email bulk send ${action}${id ? `: ${id}` : ''}`);
+
+      if (action === 'list') {
+        return await this.listJobs(from);
+      }
+
+      if (action !== 'send') {
+        if (!id) {
+          return EmailToolHelper.textResponse(`Error: id is required for the ${action} action.`);
+        }
+
+        if (action === 'status') {
+          const job = await BulkSender.get(id);
+          return EmailToolHelper.textResponse(job ? EmailBulkSendTool.formatReport(job) : `Bulk send job not found: ${id}`);
+        }
+        if (action === 'cancel') {
+          const job = await BulkSender.cancel(id);
+          return EmailToolHelper.textResponse(`Bulk send job cancelled.\n\n${EmailBulkSendTool.formatReport(job)}`);
+        }
+      }
+
+      // 批量发送无法逐封人工审批，开启发送审批时不可用
+      if (SendApprovals.isRequired() && !dryRun) {
+        return EmailToolHelper.textResponse(
+          'Error: Bulk sending is not available while send approval is required (MAILMCP_SEND_APPROVAL=true). ' +
+          'Send the emails individually with email-send so that each one can be approved.'
+        );
+      }
+
+      if (action === 'resume') {
+        const { done } = await BulkSender.resume(id!);
+        return EmailToolHelper.textResponse(EmailBulkSendTool.formatReport(await EmailBulkSendTool.waitFor(id!, done)));
+      }
+
+      if (!subject) {
+        return EmailToolHelper.textResponse('Error: subject is required for the send action.');
+      }
+      const template: MergeTemplate = { subject };
+      if (text) template.text = text;
+      if (html) template.html = html;
+
+      if (csv !== undefined && recipients.length > 0) {
+        return EmailToolHelper.textResponse('Error: Provide the recipients either as recipients or as csv, not both.');
+      }
+      const records = csv !== undefined ? MailMerge.parseCsv(csv) : recipients;
+
+      const resolved = await EmailToolHelper.resolveEmailService(from);
+      if (!resolved.emailService) {
+        return resolved.response;
+      }
+      const account = resolved.emailService.getAccountEmail();
+
+      if (dryRun) {
+        const messages = BulkSender.prepare(account, template, records);
+        const preview = messages.slice(0, 3).map((message, index) =>
+          `--- #${index + 1} ---\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text ?? message.html ?? ''}`
+        );
+        return EmailToolHelper.textResponse(
+          `Dry run: ${messages.length} email(s) from ${account} rendered and checked, nothing was sent.\n` +
+          `Fields used: ${MailMerge.getFields(template).join(', ') || '(none)'}\n\n${preview.join('\n\n')}`
+        );
+      }
+
+      const { job, done } = await BulkSender.start(account, template, records);
+      return EmailToolHelper.textResponse(EmailBulkSendTool.formatReport(await EmailBulkSendTool.waitFor(job.id, done)));
+    } catch (error) {
+      Logger.error(`Error handling email bulk send ${action}`, error);
+      return EmailToolHelper.errorResponse(error, 'bulk sending emails');
+    }
+  }
+
+  private async listJobs(from?: string): Promise<ToolResponse> {
+    let accountEmail: string | undefined;
+    if (from) {
+      const resolved = await EmailStorage.getAccount(from);
+      if (!resolved) {
+        return EmailToolHelper.textResponse(`Account "${from}" not found. Please login first using the email login page.`);
+      }
+      accountEmail = resolved.email;
+    }
+
+    const jobs = await BulkSender.list(accountEmail);
+    if (jobs.length === 0) {
+      return EmailToolHelper.textResponse('No bulk send jobs found.');
+    }
+
+    const lines = [`Bulk send jobs (${jobs.length}):`, ''];
+    for (const job of jobs) {
+      const sent = job.results.filter(result => result.status === 'sent').length;
+      lines.push(
+        `${job.id} | ${job.status} | ${new Date(job.createdAt).toLocaleString()} | From: ${job.account} | ` +
+        `Subject: ${job.template.subject} | Sent: ${sent}/${job.results.length}`
+      );
+    }
+    return EmailToolHelper.textResponse(lines.join('\n'));
+  }
+
+  /**
+   * 等待任务结束，超时后返回当前进度，任务在后台继续发送
+   */
+  private static async waitFor(id: string, done: Promise<BulkSendJob | null>): Promise<BulkSendJob> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), EmailBulkSendTool.WAIT_TIME);
+    });
+
+    const finished = await Promise.race([done, timeout]);
+    clearTimeout(timer);
+    return finished || (await BulkSender.get(id))!;
+  }
+
+  /**
+   * 格式化任务进度和每个收件人的发送结果
+   */
+  private static formatReport(job: BulkSendJob): string {
+    const count = (status: string) => job.results.filter(result => result.status === status).length;
+    const lines = [
+      `Bulk send job: ${job.id}`,
+      `Status: ${job.status}`,
+      `From: ${job.account}`,
+      `Subject: ${job.template.subject}`,
+      `Sent: ${count('sent')}, Failed: ${count('failed')}, Pending: ${count('pending') + count('sending')}` +
+        `${count('unknown') ? `, Unknown: ${count('unknown')}` : ''} (of ${job.results.length})`
+    ];
+    if (job.error) lines.push(`Stopped because: ${job.error}`);
+
+    lines.push('');
+    for (const result of job.results.slice(0, EmailBulkSendTool.MAX_REPORT_LINES)) {
+      let line = `#${result.index} ${result.to}: ${result.status}`;
+      if (result.messageId) line += ` (${result.messageId})`;
+      if (result.error) line += `${result.rejected ? ' - rejected' : ''} - ${result.error}`;
+      lines.push(line);
+    }
+    if (job.results.length > EmailBulkSendTool.MAX_REPORT_LINES) {
+      lines.push(`... ${job.results.length - EmailBulkSendTool.MAX_REPORT_LINES} more recipient(s)`);
+    }
+
+    if (job.status === 'running') {
+      lines.push('', 'Still sending in the background. Use the status action with this id to check progress.');
+    } else if (job.status === 'stopped' || (job.status === 'completed' && count('failed') > 0)) {
+      lines.push('', 'Use the resume action with this id to retry the pending and failed recipients.');
+    }
+    if (count('unknown') > 0) {
+      lines.push('Recipients with status "unknown" were being sent when the server stopped and are not retried; check the Sent folder before sending them again.');
+    }
+    return lines.join('\n');
+  }
+}
\ No newline at end of file
@@ -18,18 +18,31 @@ export class EmailDetailTool implements Tool {
     account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
     provider: z.string().optional().describe('Email provider (default: QQ)'),
     uid: z.number().describe('Email UID (unique identifier) from email-query'),
+    folder: z.string().optional().default('INBOX').describe('Mailbox folder path the UID belongs to (default: INBOX)'),
     includeAttachments: z.boolean().optional().default(false).describe('Whether to include attachment data (default: false)'),
+    includeAttachmentText: z.boolean().optional().default(false).describe('Whether to append text extracted from PDF, DOCX, XLSX, CSV and text attachments (default: false)'),
+    attachmentTokenBudget: z.number().optional().default(4000).describe('Approximate token budget shared by all attachment contents (default: 4000)'),
   };
 
   async handler(args: Record<string, unknown>): Promise<ToolResponse> {
-    const { account, uid, includeAttachments = false } = args as {
+    const {
+      account,
+      uid,
+      folder = 'INBOX',
+      includeAttachments = false,
+      includeAttachmentText = false,
+      attachmentTokenBudget = 4000
+    } = args as {
       account?: string;
       provider?: string;
       uid: number;
+      folder?: string;
       includeAttachments?: boolean;
+      includeAttachmentText?: boolean;
+      attachmentTokenBudget?: number;
     };
     try {
-      Logger.info(`Querying email detail for account: ${account || 'default'}, uid: ${uid}`);
+      Logger.info(`Querying email detail for account: ${account || 'default'}, folder: ${folder}, uid: ${uid}`);
 
       let emailService: EmailService;
 
@@ -99,7 +112,7 @@ export class EmailDetailTool implements Tool {
       if (useSimpleParser) {
         // 使用简化的文字内容获取方法
         Logger.info(`开始获取邮件文本内容, UID: ${uid}`);
-        const textContent = await emailService.getEmailTextContent(uid);
+        const textContent = await emailService.getEmailTextContent(uid, folder);
         Logger.info(`成功获取邮件文本内容, UID: ${uid}, 长度: ${textContent?.length || 0}`);
         
         if (!textContent) {
@@ -107,26 +120,48 @@ export class EmailDetailTool implements Tool {
             content: [
               {
                 type: 'text',
-                text: `Email not found with UID: ${uid}`
+                text: `Email not found with UID: ${uid} in ${folder}`
               }
             ]
           };
         }
 
+        // 附件只列出元数据，内容通过 email-attachment 工具下载
+        const attachments = await emailService.listAttachments(uid, folder);
+        const attachmentText = attachments.length > 0
+          ? '\n\n--- Attachments ---\n' +
+            attachments.map((attachment, index) =>
+              `${index + 1}. ${attachment.filename} (${attachment.contentType}, ${attachment.size} bytes, part: ${attachment.part})`
+            ).join('\n') +
+            '\nUse the email-attachment tool with uid and part to download an attachment.'
+          : '';
+
+        // 附件内容（PDF、Office 文档、表格等）转换为文本后追加
+        let attachmentContentText = '';
+        if (includeAttachmentText && attachments.length > 0) {
+          const attachmentTexts = await emailService.getAttachmentTexts(uid, folder, attachmentTokenBudget);
+          if (attachmentTexts.length > 0) {
+            attachmentContentText = '\n\n--- Attachment Contents ---\n' +
+              attachmentTexts.map(item =>
+                `### ${item.filename} (${item.contentType})\n${item.text}${item.truncated ? '\n[Truncated to fit the token budget]' : ''}`
+              ).join('\n\n');
+          }
+        }
+
         return {
           content: [
             {
               type: 'text',
               text: `Email Text Content (UID: ${uid}):
               --- Content ---
-              ${textContent}`
+              ${textContent}${attachmentText}${attachmentContentText}`
             }
           ]
         };
       }
 
       // 使用传统的详细获取方法
-      const emailDetail = await emailService.getEmailDetail(undefined, uid, includeAttachments);
+      const emailDetail = await emailService.getEmailDetail(undefined, uid, includeAttachments, folder);
 
       if (!emailDetail) {
         return {
@@ -0,0 +1,209 @@
+/**
+ * 邮件草稿工具
+ * 在草稿箱中创建、查看、修改、删除和发送草稿，人工可以先在邮件客户端中检查草稿
+ */
+
+import { z } from 'zod';
+import { Tool, ToolContext, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailDraft, RecipientList, SendEmailOptions } from '../../utils/email-service.js';
+import { OutgoingAttachmentInput } from '../../utils/outgoing-attachments.js';
+import { SendApprovals } from '../../utils/send-approval.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+type DraftAction = 'create' | 'list' | 'get' | 'update' | 'delete' | 'send';
+
+export class EmailDraftTool implements Tool {
+  name = 'email-draft';
+  title = 'Email Drafts';
+  description = 'Manage drafts in the mailbox\'s Drafts folder: create, list, get, update, delete, or send a draft. Drafts are stored on the server (IMAP APPEND with the \\Draft flag), so a human can review and edit them in their normal mail client before anything is sent. Prefer creating a draft over email-send when the content should be reviewed first.';
+
+  inputSchema = {
+    account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
+    action: z.enum(['create', 'list', 'get', 'update', 'delete', 'send']).describe('create: save a new draft; list: list drafts; get: show a draft; update: change fields of a draft; delete: delete a draft (moved to Trash when the server cannot delete a single email permanently); send: send a draft and remove it from the Drafts folder'),
+    uid: z.number().optional().describe('Draft UID (from list or create). Required for get, update, delete and send'),
+    to: z.union([z.string(), z.array(z.string())]).optional().describe('Recipients: an address, a comma separated list, or an array. May be left empty for a draft'),
+    cc: z.union([z.string(), z.array(z.string())]).optional().describe('Cc recipients (same format as to)'),
+    bcc: z.union([z.string(), z.array(z.string())]).optional().describe('Bcc recipients (same format as to), kept in the draft and hidden from recipients when sent'),
+    replyTo: z.union([z.string(), z.array(z.string())]).optional().describe('Reply-To address(es)'),
+    subject: z.string().optional().describe('Email subject'),
+    text: z.string().optional().describe('Plain text content. On update, providing text or html replaces the whole body'),
+    html: z.string().optional().describe('HTML content. On update, providing text or html replaces the whole body'),
+    headers: z.record(z.string()).optional().describe('Custom headers, e.g. {"X-Campaign": "q3"}. Core headers such as From, To and Subject cannot be overridden'),
+    priority: z.enum(['high', 'normal', 'low']).optional().describe('Message priority (sets X-Priority / Importance headers)'),
+    attachments: z.array(z.object({
+      filename: z.string().optional().describe('Attachment file name. Required for base64 content; overrides the original name otherwise'),
+      contentType: z.string().optional().describe('MIME type. Detected from the file name if not provided'),
+      content: z.string().optional().describe('Base64 encoded content (a data: URL is also accepted)'),
+      path: z.string().optional().describe('Local file path inside the allowed directories (MAILMCP_ATTACHMENT_ROOTS, default: the attachment download directory)'),
+      uid: z.number().optional().describe('UID of an existing email whose attachment should be attached'),
+      part: z.string().optional().describe('MIME part number of the attachment on the email (from email-detail or email-attachment)'),
+      folder: z.string().optional().describe('Folder of the referenced email (default: INBOX)'),
+      account: z.string().optional().describe('Account of the referenced email (default: the draft account)')
+    })).optional().describe('Attachments. Each item uses exactly one source: content, path, or uid with part/filename. On update, replaces all attachments of the draft'),
+    pageSize: z.number().optional().default(10).describe('Number of drafts to list (default: 10)'),
+    cursor: z.string().optional().describe('Cursor from a previous list call, to fetch the next page')
+  };
+
+  async handler(args: Record<string, unknown>, context?: ToolContext): Promise<ToolResponse> {
+    const {
+      account,
+      action,
+      uid,
+      to,
+      cc,
+      bcc,
+      replyTo,
+      subject,
+      text,
+      html,
+      headers,
+      priority,
+      attachments,
+      pageSize = 10,
+      cursor
+    } = args as {
+      account?: string;
+      action: DraftAction;
+      uid?: number;
+      to?: RecipientList;
+      cc?: RecipientList;
+      bcc?: RecipientList;
+      replyTo?: RecipientList;
+      subject?: string;
+      text?: string;
+      html?: string;
+      headers?: Record<string, string>;
+      priority?: 'high' | 'normal' | 'low';
+      attachments?: OutgoingAttachmentInput[];
+      pageSize?: number;
+      cursor?: string;
+    };
+    try {
+      Logger.info(`Email draft ${action} for account: ${account || 'default'}${uid !== undefined ? `, uid: ${uid}` : ''}`);
+
+      if (action !== 'create' && action !== 'list' && uid === undefined) {
+        return EmailToolHelper.textResponse(`Error: uid is required for the ${action} action.`);
+      }
+
+      const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+      if (!emailService) {
+        return response;
+      }
+
+      if (action === 'list') {
+        const page = await emailService.listDrafts(pageSize, cursor);
+        if (page.emails.length === 0) {
+          return EmailToolHelper.textResponse(`No drafts found in ${page.folder}.`);
+        }
+
+        const lines = [`Drafts in ${page.folder}:`, ''];
+        for (const email of page.emails) {
+          lines.push(`UID ${email.uid} | ${email.date.toLocaleString()} | To: ${email.to || '(no recipients)'} | Subject: ${email.subject || '(no subject)'}`);
+        }
+        if (page.nextCursor) {
+          lines.push('', `More drafts available. Next cursor: ${page.nextCursor}`);
+        }
+        return EmailToolHelper.textResponse(lines.join('\n'));
+      }
+
+      if (action === 'get') {
+        const draft = await emailService.getDraft(uid!);
+        if (!draft) {
+          return EmailToolHelper.textResponse(`Draft not found with UID: ${uid}`);
+        }
+        return EmailToolHelper.textResponse(EmailDraftTool.formatDraft(draft));
+      }
+
+      if (action === 'delete') {
+        const removal = await emailService.deleteDraft(uid!);
+        return EmailToolHelper.textResponse(removal.method === 'trash'
+          ? `Draft UID ${uid} moved to ${removal.trashFolder} (the server does not support deleting a single email permanently).`
+          : `Draft UID ${uid} deleted.`);
+      }
+
+      if (action === 'send' && SendApprovals.isRequired()) {
+        // 开启发送审批时先由人工确认，批准并发送后再删除草稿
+        const draft = await emailService.getDraft(uid!);
+        if (!draft) {
+          return EmailToolHelper.textResponse(`Draft not found with UID: ${uid}`);
+        }
+        return await EmailToolHelper.requestApproval(
+          emailService,
+          draft.options,
+          { source: this.name, followUp: { type: 'delete-draft', uid: draft.uid, folder: draft.folder } },
+          context
+        );
+      }
+
+      if (action === 'send') {
+        const { draft, result, warning } = await emailService.sendDraft(uid!);
+        const accepted = result.recipients.filter(recipient => recipient.status !== 'rejected').length;
+        return EmailToolHelper.textResponse(
+          (accepted > 0
+            ? `Draft UID ${uid} sent successfully to ${accepted} of ${result.recipients.length} recipient(s)` +
+              `${warning ? '' : ` and removed from ${draft.folder}`}.`
+            : `Draft UID ${uid} was not delivered: all recipients were rejected.`) +
+          `\nSubject: ${draft.options.subject}` +
+          `\n${EmailToolHelper.formatSendResult(result)}` +
+          (warning ? `\nWarning: ${warning}` : '')
+        );
+      }
+
+      // create / update
+      const changes: Partial<SendEmailOptions> = {};
+      if (to !== undefined) changes.to = to;
+      if (cc !== undefined) changes.cc = cc;
+      if (bcc !== undefined) changes.bcc = bcc;
+      if (replyTo !== undefined) changes.replyTo = replyTo;
+      if (subject !== undefined) changes.subject = subject;
+      if (text !== undefined) changes.text = text;
+      if (html !== undefined) changes.html = html;
+      if (headers) changes.headers = headers;
+      if (priority) changes.priority = priority;
+      if (attachments) {
+        changes.attachments = await EmailToolHelper.resolveAttachments(emailService, attachments);
+      }
+
+      const saved = action === 'create'
+        ? await emailService.createDraft({ to: [], subject: '', ...changes })
+        : await emailService.updateDraft(uid!, changes);
+
+      return EmailToolHelper.textResponse(
+        `Draft ${action === 'create' ? 'created' : `UID ${uid} updated`} in ${saved.folder}.` +
+        `\nUID: ${saved.uid ?? 'unknown (the server did not report it; use the list action to find the draft)'}` +
+        `\nMessage-ID: ${saved.messageId}` +
+        '\nReview it in your mail client, or use the send action to send it.'
+      );
+    } catch (error) {
+      Logger.error(`Error handling email draft ${action}`, error);
+      return EmailToolHelper.errorResponse(error, 'handling email draft');
+    }
+  }
+
+  /**
+   * 格式化草稿内容
+   */
+  private static formatDraft(draft: EmailDraft): string {
+    const { options } = draft;
+    const list = (value: RecipientList | undefined) => (Array.isArray(value) ? value : value ? [value] : []).join(', ');
+
+    const lines = [
+      `Draft UID ${draft.uid} in ${draft.folder}`,
+      `Date: ${draft.date.toLocaleString()}`,
+      `To: ${list(options.to) || '(no recipients)'}`
+    ];
+    if (options.cc) lines.push(`Cc: ${list(options.cc)}`);
+    if (options.bcc) lines.push(`Bcc: ${list(options.bcc)}`);
+    if (options.replyTo) lines.push(`Reply-To: ${list(options.replyTo)}`);
+    lines.push(`Subject: ${options.subject || '(no subject)'}`);
+    if (options.priority) lines.push(`Priority: ${options.priority}`);
+    if (options.inReplyTo) lines.push(`In-Reply-To: ${options.inReplyTo}`);
+    if (options.attachments?.length) {
+      lines.push(`Attachments: ${options.attachments.map(attachment => `${attachment.filename} (${attachment.content.length} bytes)`).join(', ')}`);
+    }
+    lines.push('', options.text || (options.html ? '(HTML only)\n' + options.html : '(empty body)'));
+
+    return lines.join('\n');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+/**
+ * 邮件标记管理工具
+ * 用于设置已读/未读、星标、已回复和自定义关键字
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailFlagTool implements Tool {
+  name = 'email-flag';
+  title = 'Email Flag';
+  description = 'Add or remove flags on one or many emails by UID: seen (read), flagged (starred), answered, or custom IMAP keywords. Returns the resulting flags, e.g. to mark emails as handled after triage.';
+
+  private static readonly FLAG_ALIASES: Record<string, string> = {
+    'seen': '\\Seen',
+    'read': '\\Seen',
+    'flagged': '\\Flagged',
+    'starred': '\\Flagged',
+    'answered': '\\Answered',
+    'replied': '\\Answered'
+  };
+
+  private static readonly SYSTEM_FLAGS = ['\\Seen', '\\Flagged', '\\Answered'];
+
+  inputSchema = {
+    account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
+    uids: z.array(z.number()).min(1).describe('Email UIDs from email-query'),
+    folder: z.string().optional().default('INBOX').describe('Mailbox folder path the UIDs belong to (default: INBOX)'),
+    add: z.array(z.string()).optional().describe('Flags to add: "seen", "flagged", "answered", or custom keywords such as "Handled"'),
+    remove: z.array(z.string()).optional().describe('Flags to remove, e.g. ["seen"] to mark as unread')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { account, uids, folder = 'INBOX', add = [], remove = [] } = args as {
+      account?: string;
+      uids: number[];
+      folder?: string;
+      add?: string[];
+      remove?: string[];
+    };
+    try {
+      Logger.info(`Updating flags for account: ${account || 'default'}, folder: ${folder}, uids: ${uids.join(',')}`);
+
+      if (add.length === 0 && remove.length === 0) {
+        return EmailToolHelper.textResponse('Error: Provide at least one flag in add or remove.');
+      }
+
+      let flagsToAdd: string[];
+      let flagsToRemove: string[];
+      try {
+        flagsToAdd = add.map(flag => this.normalizeFlag(flag));
+        flagsToRemove = remove.map(flag => this.normalizeFlag(flag));
+      } catch (error) {
+        return EmailToolHelper.textResponse(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+      if (!emailService) {
+        return response;
+      }
+
+      const result = await emailService.updateFlags(uids, { add: flagsToAdd, remove: flagsToRemove }, folder);
+
+      const lines = uids.map(uid => {
+        const flags = result.get(uid);
+        return flags
+          ? `UID ${uid}: ${flags.join(', ') || 'None'}`
+          : `UID ${uid}: not found in ${folder}`;
+      });
+
+      return EmailToolHelper.textResponse(
+        `Flags updated in ${folder}` +
+        (flagsToAdd.length > 0 ? `\nAdded: ${flagsToAdd.join(', ')}` : '') +
+        (flagsToRemove.length > 0 ? `\nRemoved: ${flagsToRemove.join(', ')}` : '') +
+        `\n\nResulting flags:\n${lines.join('\n')}`
+      );
+
+    } catch (error) {
+      Logger.error('Error updating flags', error);
+      return EmailToolHelper.errorResponse(error, 'updating flags');
+    }
+  }
+
+  /**
+   * 将别名转换为 IMAP 系统标记，并校验自定义关键字
+   */
+  private normalizeFlag(flag: string): string {
+    const trimmed = flag.trim();
+    const alias = EmailFlagTool.FLAG_ALIASES[trimmed.toLowerCase()];
+    if (alias) {
+      return alias;
+    }
+
+    if (trimmed.startsWith('\\')) {
+      const systemFlag = EmailFlagTool.SYSTEM_FLAGS.find(item => item.toLowerCase() === trimmed.toLowerCase());
+      if (!systemFlag) {
+        throw new Error(`Unsupported system flag "${trimmed}". Supported: ${EmailFlagTool.SYSTEM_FLAGS.join(', ')}`);
+      }
+      return systemFlag;
+    }
+
+    // 自定义关键字必须是 IMAP atom：不能包含空格和 (){%*"\] 等特殊字符
+    if (!/^[^\s(){%*"\\\]]+$/.test(trimmed)) {
+      throw new Error(`Invalid keyword "${flag}". Keywords cannot contain spaces or any of: ( ) { % * " \\ ]`);
+    }
+    return trimmed;
+  }
+}
\ No newline at end of file
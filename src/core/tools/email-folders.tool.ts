@@ -0,0 +1,49 @@
+/**
+ * 邮箱文件夹列表工具
+ * 用于列出所有文件夹及其邮件数、未读数
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailFoldersTool implements Tool {
+  name = 'email-folders';
+  title = 'Email Folders';
+  description = 'List all mailbox folders (Inbox, Sent, Drafts, Junk, custom folders) with message and unseen counts. Use the folder path with email-query and email-detail.';
+
+  inputSchema = {
+    account: z.string().optional().describe('Email address or display name. If not provided, use default account.')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { account } = args as { account?: string };
+    try {
+      Logger.info(`Listing folders for account: ${account || 'default'}`);
+
+      const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+      if (!emailService) {
+        return response;
+      }
+
+      const folders = await emailService.listFolders();
+
+      if (folders.length === 0) {
+        return EmailToolHelper.textResponse('No folders found in the mailbox.');
+      }
+
+      const formattedFolders = folders.map((folder, index) => {
+        const specialUse = folder.specialUse ? ` [${folder.specialUse}]` : '';
+        return `${index + 1}. ${folder.path}${specialUse}
+   Messages: ${folder.messages}, Unseen: ${folder.unseen}`;
+      });
+
+      return EmailToolHelper.textResponse(`Found ${folders.length} folders:\n\n${formattedFolders.join('\n')}`);
+
+    } catch (error) {
+      Logger.error('Error listing folders', error);
+      return EmailToolHelper.errorResponse(error, 'listing folders');
+    }
+  }
+}
\ No newline at end of file
@@ -12,7 +12,7 @@ import { GMAIL_OAUTH_URL } from '../../utils/constants.js';
 export class EmailLoginTool implements Tool {
   name = 'email-login';
   title = 'Email Login Manager';
-  description = 'Manage email account login process. Start login server for QQ email or initiate Gmail OAuth login.';
+  description = 'Manage email account login process. Start login server for password-based accounts (QQ, 163/126, Outlook, iCloud, Yahoo, Fastmail, Yandex, Zoho or custom IMAP/SMTP servers) or initiate Gmail OAuth login.';
 
   private static loginServer: LoginServer | null = null;
   private static isServerRunning = false;
@@ -89,9 +89,9 @@ export class EmailLoginTool implements Tool {
           {
             type: 'text',
             text: `Login server started successfully on port ${port}!\n\n` +
-              `🌐 QQ Email Login: Login with account and password\n` +
+              `🌐 Email Login: http://localhost:${port}/login (password or authorization code)\n` +
               `🌐 Gmail OAuth Listener: ${GMAIL_OAUTH_URL}\n\n` +
-              `Please visit the QQ Email Login URL to login with your QQ email account.\n` +
+              `Please visit the Email Login URL to login with QQ, 163/126, Outlook, iCloud, Yahoo, Fastmail, Yandex, Zoho or a custom IMAP/SMTP server.\n` +
               `For Gmail, use the 'gmail-oauth' action to get OAuth instructions.\n` +
               `After successful login, you can use the email-query and email-send tools.`
           }
@@ -287,7 +287,7 @@ export class EmailLoginTool implements Tool {
     return `No email accounts found. Please login first.\n\n` +
       `Steps to login:\n` +
       `1. Start login server: {"action": "start"}\n` +
-      `2. For QQ Email: Visit the login URL provided\n` +
+      `2. For password-based accounts (QQ, 163, Outlook, iCloud, custom IMAP/SMTP...): Visit the login URL provided\n` +
       `3. For Gmail: Use {"action": "gmail-oauth"} and follow OAuth instructions\n` +
       `4. Enter your credentials\n` +
       `5. Use email-query and email-send tools`;
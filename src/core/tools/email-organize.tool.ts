@@ -0,0 +1,107 @@
+/**
+ * 邮件整理工具
+ * 用于移动、复制、归档和删除邮件
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { EmailOrganizeResult } from '../../utils/email-service.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailOrganizeTool implements Tool {
+  name = 'email-organize';
+  title = 'Email Organize';
+  description = 'Organize emails by UID: move or copy them to another folder, archive them (Gmail All Mail or an archive folder), move them to Trash, or permanently delete them (expunge, requires confirm: true).';
+
+  inputSchema = {
+    account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
+    action: z.enum(['move', 'copy', 'archive', 'trash', 'expunge']).describe('Action to perform: move, copy, archive, trash, or expunge (permanent delete)'),
+    uids: z.array(z.number()).min(1).describe('Email UIDs from email-query'),
+    folder: z.string().optional().default('INBOX').describe('Mailbox folder path the UIDs belong to (default: INBOX)'),
+    destination: z.string().optional().describe('Destination folder path for move and copy, from email-folders'),
+    confirm: z.boolean().optional().default(false).describe('Must be true for expunge. Permanently deleted emails cannot be recovered.')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { account, action, uids, folder = 'INBOX', destination, confirm = false } = args as {
+      account?: string;
+      action: 'move' | 'copy' | 'archive' | 'trash' | 'expunge';
+      uids: number[];
+      folder?: string;
+      destination?: string;
+      confirm?: boolean;
+    };
+    try {
+      Logger.info(`Organizing emails for account: ${account || 'default'}, action: ${action}, folder: ${folder}, uids: ${uids.join(',')}`);
+
+      if ((action === 'move' || action === 'copy') && !destination) {
+        return EmailToolHelper.textResponse(`Error: destination is required for ${action}. Use email-folders to list available folders.`);
+      }
+
+      if (action === 'expunge' && !confirm) {
+        return EmailToolHelper.textResponse(
+          `Expunge permanently deletes ${uids.length} email(s) from ${folder} and cannot be undone.\n` +
+          `Use action "trash" to move them to Trash instead, or call again with confirm: true to delete permanently.`
+        );
+      }
+
+      const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+      if (!emailService) {
+        return response;
+      }
+
+      let result: EmailOrganizeResult;
+      switch (action) {
+        case 'move':
+          result = await emailService.moveEmails(uids, destination!, folder);
+          break;
+        case 'copy':
+          result = await emailService.copyEmails(uids, destination!, folder);
+          break;
+        case 'archive':
+          result = await emailService.archiveEmails(uids, folder);
+          break;
+        case 'trash':
+          result = await emailService.trashEmails(uids, folder);
+          break;
+        case 'expunge':
+          result = await emailService.expungeEmails(uids, folder);
+          break;
+        default:
+          return EmailToolHelper.textResponse('Invalid action. Use: move, copy, archive, trash, or expunge');
+      }
+
+      return EmailToolHelper.textResponse(this.formatResult(result));
+
+    } catch (error) {
+      Logger.error('Error organizing emails', error);
+      return EmailToolHelper.errorResponse(error, 'organizing emails');
+    }
+  }
+
+  /**
+   * 格式化操作结果，包含新文件夹中的 UID 对应关系（服务器支持 UIDPLUS 时）
+   */
+  private formatResult(result: EmailOrganizeResult): string {
+    const verbs: Record<EmailOrganizeResult['action'], string> = {
+      move: 'Moved',
+      copy: 'Copied',
+      archive: 'Archived',
+      trash: 'Moved to trash',
+      expunge: 'Permanently deleted'
+    };
+
+    let text = `${verbs[result.action]} ${result.uids.length} email(s) from ${result.folder}`;
+    if (result.destination) {
+      text += ` to ${result.destination}`;
+    }
+
+    if (result.uidMap.size > 0) {
+      text += '\n\nNew UIDs in destination:\n' +
+        Array.from(result.uidMap.entries()).map(([from, to]) => `  ${from} -> ${to}`).join('\n');
+    }
+
+    return text;
+  }
+}
\ No newline at end of file
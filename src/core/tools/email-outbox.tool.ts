@@ -0,0 +1,106 @@
+/**
+ * 发件箱工具
+ * 查看、改期和取消定时发送或等待重试的邮件
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailStorage } from '../../utils/storage.js';
+import { Outbox, OutboxMessage } from '../../utils/outbox.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailOutboxTool implements Tool {
+  name = 'email-outbox';
+  title = 'Email Outbox';
+  description = 'Manage the outbox of scheduled emails (queued with email-send sendAt). list: show queued, failed and (optionally) finished messages; reschedule: change the send time of a queued message or retry a failed one; cancel: cancel a message that has not been sent yet.';
+
+  inputSchema = {
+    action: z.enum(['list', 'reschedule', 'cancel']).describe('list, reschedule or cancel'),
+    account: z.string().optional().describe('Email address or display name. Only show or change messages of this account'),
+    id: z.string().optional().describe('Outbox message ID (from email-send or list). Required for reschedule and cancel'),
+    sendAt: z.string().optional().describe('New send time for reschedule: ISO 8601 time, e.g. "2025-07-01T09:00:00+08:00". Use the current time to send as soon as possible'),
+    includeFinished: z.boolean().optional().default(false).describe('Include sent and cancelled messages in the list (default: false)')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { action, account, id, sendAt, includeFinished = false } = args as {
+      action: 'list' | 'reschedule' | 'cancel';
+      account?: string;
+      id?: string;
+      sendAt?: string;
+      includeFinished?: boolean;
+    };
+    try {
+      Logger.info(`Email outbox ${action}${id ? `: ${id}` : ''}`);
+
+      let accountEmail: string | undefined;
+      if (account) {
+        const resolved = await EmailStorage.getAccount(account);
+        if (!resolved) {
+          return EmailToolHelper.textResponse(`Account "${account}" not found. Please login first using the email login page.`);
+        }
+        accountEmail = resolved.email;
+      }
+
+      if (action === 'list') {
+        const messages = await Outbox.list(accountEmail, includeFinished);
+        if (messages.length === 0) {
+          return EmailToolHelper.textResponse('The outbox is empty.');
+        }
+
+        const lines = [`Outbox (${messages.length} message(s)):`, ''];
+        for (const message of messages) {
+          lines.push(EmailOutboxTool.formatMessage(message), '');
+        }
+        return EmailToolHelper.textResponse(lines.join('\n').trim());
+      }
+
+      if (!id) {
+        return EmailToolHelper.textResponse(`Error: id is required for the ${action} action.`);
+      }
+
+      if (action === 'cancel') {
+        const message = await Outbox.cancel(id, accountEmail);
+        return EmailToolHelper.textResponse(`Outbox message cancelled.\n\n${EmailOutboxTool.formatMessage(message)}`);
+      }
+
+      if (!sendAt) {
+        return EmailToolHelper.textResponse('Error: sendAt is required for the reschedule action.');
+      }
+      const date = EmailToolHelper.parseSendAt(sendAt);
+      if (!date) {
+        return EmailToolHelper.textResponse(`Error: Invalid sendAt "${sendAt}". Use an ISO 8601 time such as 2025-07-01T09:00:00+08:00.`);
+      }
+
+      const message = await Outbox.reschedule(id, date, accountEmail);
+      return EmailToolHelper.textResponse(`Outbox message rescheduled.\n\n${EmailOutboxTool.formatMessage(message)}`);
+    } catch (error) {
+      Logger.error(`Error handling email outbox ${action}`, error);
+      return EmailToolHelper.errorResponse(error, 'handling email outbox');
+    }
+  }
+
+  /**
+   * 格式化发件箱中的单封邮件
+   */
+  private static formatMessage(message: OutboxMessage): string {
+    const to = Array.isArray(message.options.to) ? message.options.to.join(', ') : message.options.to;
+    const lines = [
+      `ID: ${message.id}`,
+      `Status: ${message.status}`,
+      `Account: ${message.account}`,
+      `To: ${to}`,
+      `Subject: ${message.options.subject}`,
+      `Scheduled for: ${new Date(message.sendAt).toLocaleString()}`
+    ];
+    if (message.status === 'queued' && message.nextAttemptAt !== message.sendAt) {
+      lines.push(`Next attempt: ${new Date(message.nextAttemptAt).toLocaleString()}`);
+    }
+    if (message.attempts > 0) lines.push(`Attempts: ${message.attempts}`);
+    if (message.lastError) lines.push(`Last error: ${message.lastError}`);
+    if (message.sentAt) lines.push(`Sent at: ${new Date(message.sentAt).toLocaleString()}`);
+    if (message.result) lines.push(`Message-ID: ${message.result.messageId}`);
+    return lines.join('\n');
+  }
+}
\ No newline at end of file
@@ -5,23 +5,67 @@
 
 import { z } from 'zod';
 import { Tool } from '../types.js';
-import { EmailService } from '../../utils/email-service.js';
+import { EmailService, EmailSearchCriteria } from '../../utils/email-service.js';
 import { EmailStorage } from '../../utils/storage.js';
 import { Logger } from '../../utils/logger.js';
 
 export class EmailQueryTool implements Tool {
   name = 'email-query';
   title = 'Email Query';
-  description = 'Query emails from QQ mailbox. Support email address or display name lookup.';
+  description = 'Query emails from QQ mailbox. Support email address or display name lookup, and server-side filtering by sender, recipient, subject, body text, date range and flags.';
 
   inputSchema = {
     account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
     provider: z.string().optional().describe('Email provider (default: QQ)'),
-    count: z.number().optional().default(5).describe('Number of emails to retrieve (default: 5)')
+    count: z.number().optional().default(5).describe('Number of emails to retrieve per page (default: 5)'),
+    cursor: z.string().optional().describe('Opaque cursor from a previous result (nextCursor) to fetch the next, older page. Keep the same folder and filters.'),
+    folder: z.string().optional().default('INBOX').describe('Mailbox folder path from email-folders, e.g. "Sent Messages" or "[Gmail]/Sent Mail" (default: INBOX)'),
+    from: z.string().optional().describe('Only emails whose From field contains this text'),
+    to: z.string().optional().describe('Only emails whose To field contains this text'),
+    subject: z.string().optional().describe('Only emails whose subject contains this text (Chinese supported)'),
+    body: z.string().optional().describe('Only emails whose body contains this text (Chinese supported)'),
+    since: z.string().optional().describe('Only emails received on or after this date (YYYY-MM-DD)'),
+    before: z.string().optional().describe('Only emails received before this date (YYYY-MM-DD)'),
+    unseen: z.boolean().optional().describe('true: only unread emails, false: only read emails'),
+    flagged: z.boolean().optional().describe('true: only starred/flagged emails, false: only unflagged emails'),
+    hasAttachment: z.boolean().optional().describe('true: only emails with attachments, false: only emails without attachments'),
+    largerThan: z.number().optional().describe('Only emails larger than this size in bytes')
   };
 
   async handler(
-    { account, provider: _provider = 'QQ', count = 5 }: { account?: string; provider?: string; count?: number }
+    {
+      account,
+      provider: _provider = 'QQ',
+      count = 5,
+      cursor,
+      folder = 'INBOX',
+      from,
+      to,
+      subject,
+      body,
+      since,
+      before,
+      unseen,
+      flagged,
+      hasAttachment,
+      largerThan
+    }: {
+      account?: string;
+      provider?: string;
+      count?: number;
+      cursor?: string;
+      folder?: string;
+      from?: string;
+      to?: string;
+      subject?: string;
+      body?: string;
+      since?: string;
+      before?: string;
+      unseen?: boolean;
+      flagged?: boolean;
+      hasAttachment?: boolean;
+      largerThan?: number;
+    }
   ): Promise<{
     content: Array<{
       type: 'text';
@@ -41,7 +85,34 @@ export class EmailQueryTool implements Tool {
   }> {
     try {
       Logger.info(`provider: ${_provider}`);
-      Logger.info(`Querying emails for account: ${account || 'default'}, count: ${count}`);
+      Logger.info(`Querying emails for account: ${account || 'default'}, folder: ${folder}, count: ${count}`);
+
+      // 构建搜索条件
+      const criteria: EmailSearchCriteria = {};
+      if (from) criteria.from = from;
+      if (to) criteria.to = to;
+      if (subject) criteria.subject = subject;
+      if (body) criteria.body = body;
+      if (unseen !== undefined) criteria.unseen = unseen;
+      if (flagged !== undefined) criteria.flagged = flagged;
+      if (hasAttachment !== undefined) criteria.hasAttachment = hasAttachment;
+      if (largerThan !== undefined) criteria.largerThan = largerThan;
+
+      for (const [key, value] of [['since', since], ['before', before]] as const) {
+        if (!value) continue;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Invalid ${key} date: "${value}". Please use the YYYY-MM-DD format.`
+              }
+            ]
+          };
+        }
+        criteria[key] = date;
+      }
 
       let emailService: EmailService;
 
@@ -109,14 +180,16 @@ export class EmailQueryTool implements Tool {
       }
 
       // 获取邮件列表
-      const emails = await emailService.getEmails(count);
+      const { emails, nextCursor } = await emailService.getEmailPage(count, criteria, folder, cursor);
 
-      if (emails.length === 0) {
+      if (emails.length === 0 && !nextCursor) {
         return {
           content: [
             {
               type: 'text',
-              text: 'No emails found in the mailbox.'
+              text: EmailService.hasSearchCriteria(criteria)
+                ? `No ${cursor ? 'more ' : ''}emails found in ${folder} matching the search criteria.`
+                : `No ${cursor ? 'more ' : ''}emails found in ${folder}.`
             }
           ]
         };
@@ -142,7 +215,10 @@ export class EmailQueryTool implements Tool {
         content: [
           {
             type: 'text',
-            text: `Found ${emails.length} emails:\n\n${formattedEmails.join('\n')}`
+            text: `Found ${emails.length} emails in ${folder}:\n\n${formattedEmails.join('\n')}` +
+              (nextCursor
+                ? `\n\nMore emails available. To fetch the next page, call email-query again with cursor: ${nextCursor}`
+                : '\n\nNo more emails.')
           }
         ]
       };
@@ -0,0 +1,109 @@
+/**
+ * 邮件回复与转发工具
+ * 基于原邮件构建回复、回复全部或转发，并设置会话头部
+ */
+
+import { z } from 'zod';
+import { Tool, ToolContext, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { ReplyMode, ReplyOptions } from '../../utils/reply-builder.js';
+import { SendApprovals } from '../../utils/send-approval.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailReplyTool implements Tool {
+  name = 'email-reply';
+  title = 'Email Reply / Forward';
+  description = 'Reply, reply-all or forward an existing email by UID. Sets In-Reply-To/References so the message stays in the same conversation, adds the "Re:"/"Fwd:" prefix, computes the recipients, and quotes the original or forwards it inline or as a message/rfc822 attachment (original attachments are carried over when forwarding inline).';
+
+  inputSchema = {
+    account: z.string().optional().describe('Email address or display name to send from. If not provided, use default account.'),
+    uid: z.number().describe('UID of the email to reply to or forward, from email-query'),
+    folder: z.string().optional().default('INBOX').describe('Mailbox folder path the UID belongs to (default: INBOX)'),
+    mode: z.enum(['reply', 'reply-all', 'forward']).optional().default('reply').describe('reply: sender only; reply-all: sender plus original To/Cc; forward: to new recipients'),
+    to: z.string().optional().describe('Recipients, comma separated. Required for forward; added to the computed recipients for replies'),
+    cc: z.string().optional().describe('Additional Cc recipients, comma separated'),
+    text: z.string().optional().describe('Plain text content written above the quoted/forwarded original'),
+    html: z.string().optional().describe('HTML content written above the quoted/forwarded original'),
+    quoteOriginal: z.boolean().optional().default(true).describe('Quote the original text below the reply (default: true). Ignored for forward'),
+    forwardAs: z.enum(['inline', 'attachment']).optional().default('inline').describe('Forward the original inline in the body or as a message/rfc822 attachment (default: inline)'),
+    includeAttachments: z.boolean().optional().default(true).describe('Carry over the original attachments when forwarding inline (default: true)')
+  };
+
+  async handler(args: Record<string, unknown>, context?: ToolContext): Promise<ToolResponse> {
+    const {
+      account,
+      uid,
+      folder = 'INBOX',
+      mode = 'reply',
+      to,
+      cc,
+      text,
+      html,
+      quoteOriginal = true,
+      forwardAs = 'inline',
+      includeAttachments = true
+    } = args as {
+      account?: string;
+      uid: number;
+      folder?: string;
+      mode?: ReplyMode;
+      to?: string;
+      cc?: string;
+      text?: string;
+      html?: string;
+      quoteOriginal?: boolean;
+      forwardAs?: 'inline' | 'attachment';
+      includeAttachments?: boolean;
+    };
+    try {
+      Logger.info(`Email ${mode} for account: ${account || 'default'}, folder: ${folder}, uid: ${uid}`);
+
+      if (mode === 'forward' && !to) {
+        return EmailToolHelper.textResponse('Error: to is required when forwarding an email.');
+      }
+      if (mode !== 'forward' && !text && !html) {
+        return EmailToolHelper.textResponse('Error: Either text or html content is required for a reply.');
+      }
+
+      const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+      if (!emailService) {
+        return response;
+      }
+
+      const options: Omit<ReplyOptions, 'selfAddresses'> = { mode, quoteOriginal, forwardAs, includeAttachments };
+      if (to) options.to = to;
+      if (cc) options.cc = cc;
+      if (text) options.text = text;
+      if (html) options.html = html;
+
+      // 开启发送审批时先由人工确认，批准并发送后再标记原邮件
+      if (SendApprovals.isRequired()) {
+        const mailOptions = await emailService.buildReply(uid, folder, options);
+        return await EmailToolHelper.requestApproval(
+          emailService,
+          mailOptions,
+          { source: this.name, followUp: { type: 'mark-replied', uid, folder, mode } },
+          context
+        );
+      }
+
+      const { mailOptions: sent, result } = await emailService.replyToEmail(uid, folder, options);
+
+      const lines = [
+        `${mode === 'forward' ? 'Email forwarded' : 'Reply sent'} successfully!`,
+        `Subject: ${sent.subject}`
+      ];
+      if (sent.inReplyTo) lines.push(`In-Reply-To: ${sent.inReplyTo}`);
+      if (sent.attachments && sent.attachments.length > 0) {
+        lines.push(`Attachments: ${sent.attachments.map(attachment => attachment.filename).join(', ')}`);
+      }
+      lines.push(EmailToolHelper.formatSendResult(result));
+
+      return EmailToolHelper.textResponse(lines.join('\n'));
+
+    } catch (error) {
+      Logger.error(`Error sending ${mode}`, error);
+      return EmailToolHelper.errorResponse(error, mode === 'forward' ? 'forwarding email' : 'replying to email');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * 邮件全文检索工具
+ * 在本地缓存上使用倒排索引检索，支持中文，可跨文件夹和账户排序
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { EmailStorage } from '../../utils/storage.js';
+import { SearchIndex } from '../../utils/search-index.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailSearchTool implements Tool {
+  name = 'email-search';
+  title = 'Email Search';
+  description = 'Full-text search over locally cached emails (subject, sender, recipients, body, attachment names), ranked by relevance across folders and accounts. Works well for Chinese text. Only emails that have been cached are searchable: set sync to true to cache the most recent emails of a folder first.';
+
+  inputSchema = {
+    query: z.string().min(1).describe('Search keywords, e.g. "季度报告" or "invoice March"'),
+    account: z.string().optional().describe('Email address or display name. If not provided, search all accounts.'),
+    folder: z.string().optional().describe('Only search this folder path. If not provided, search all cached folders.'),
+    limit: z.number().min(1).max(50).optional().default(10).describe('Maximum number of results (default: 10)'),
+    sync: z.boolean().optional().default(false).describe('Download the most recent emails of the folder (default: INBOX) into the local cache before searching'),
+    syncCount: z.number().min(1).max(1000).optional().default(200).describe('Number of recent emails to cache per account when sync is true (default: 200)')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { query, account, folder, limit = 10, sync = false, syncCount = 200 } = args as {
+      query: string;
+      account?: string;
+      folder?: string;
+      limit?: number;
+      sync?: boolean;
+      syncCount?: number;
+    };
+    try {
+      Logger.info(`Searching emails for account: ${account || 'all'}, folder: ${folder || 'all'}, query: ${query}`);
+
+      let accounts: string[] | undefined;
+      if (account) {
+        const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+        if (!emailService) {
+          return response;
+        }
+        accounts = [emailService.getAccountEmail()];
+      }
+
+      let syncText = '';
+      if (sync) {
+        const syncAccounts = accounts ||
+          (await EmailStorage.getAllAccounts()).filter(item => item.isActive).map(item => item.email);
+        const syncFolder = folder || 'INBOX';
+        const results: string[] = [];
+
+        for (const email of syncAccounts) {
+          const { emailService, response } = await EmailToolHelper.resolveEmailService(email);
+          if (!emailService) {
+            const message = response.content[0];
+            results.push(`${email}: ${message.type === 'text' ? message.text : 'unavailable'}`);
+            continue;
+          }
+
+          try {
+            const downloaded = await emailService.cacheRecentEmails(syncFolder, syncCount);
+            results.push(`${email}: cached ${downloaded} new emails from ${syncFolder}`);
+          } catch (error) {
+            results.push(`${email}: sync failed (${error instanceof Error ? error.message : 'Unknown error'})`);
+          }
+        }
+
+        syncText = `Sync:\n${results.map(line => `  ${line}`).join('\n')}\n\n`;
+      }
+
+      const options: { accounts?: string[]; folder?: string; limit: number } = { limit };
+      if (accounts) options.accounts = accounts;
+      if (folder) options.folder = folder;
+      const hits = await SearchIndex.search(query, options);
+
+      if (hits.length === 0) {
+        return EmailToolHelper.textResponse(
+          `${syncText}No cached emails match "${query}" (${SearchIndex.getDocumentCount()} emails indexed).\n` +
+          'Only cached emails are searchable. Call again with sync: true to cache recent emails, or use email-query to search on the server.'
+        );
+      }
+
+      const formattedHits = hits.map((hit, index) => {
+        const snippet = hit.snippet ? `\n   ${hit.snippet}` : '';
+        return `${index + 1}. UID: ${hit.uid} (${hit.account} / ${hit.folder}, score: ${hit.score})
+   From: ${hit.from}
+   Subject: ${hit.subject}
+   Date: ${hit.date.toLocaleString()}${snippet}`;
+      });
+
+      return EmailToolHelper.textResponse(
+        `${syncText}Found ${hits.length} matching emails (${SearchIndex.getDocumentCount()} emails indexed):\n\n` +
+        `${formattedHits.join('\n\n')}\n\nUse email-detail with the account, folder and uid to read an email.`
+      );
+
+    } catch (error) {
+      Logger.error('Error searching emails', error);
+      return EmailToolHelper.errorResponse(error, 'searching emails');
+    }
+  }
+}
\ No newline at end of file
@@ -1,45 +1,80 @@
 /**
  * 邮件发送工具
- * 用于通过QQ邮箱发送邮件
+ * 用于通过已登录的邮箱账户发送邮件
  */
 
 import { z } from 'zod';
-import { Tool, ToolResponse } from '../types.js';
-import { EmailService } from '../../utils/email-service.js';
-import { EmailStorage } from '../../utils/storage.js';
+import { Tool, ToolContext, ToolResponse } from '../types.js';
+import { EmailService, SendEmailOptions, RecipientList } from '../../utils/email-service.js';
 import { Logger } from '../../utils/logger.js';
+import { Config } from '../../utils/config.js';
+import { Outbox } from '../../utils/outbox.js';
+import { SendApprovals } from '../../utils/send-approval.js';
+import { SendPolicy } from '../../utils/send-policy.js';
+import { OutgoingAttachmentInput } from '../../utils/outgoing-attachments.js';
+import { EmailToolHelper } from './email-tool.helper.js';
 
 export class EmailSendTool implements Tool {
   name = 'email-send';
   title = 'Email Send';
-  description = 'Send emails through QQ mailbox. Support email address or display name lookup.';
+  description = 'Send emails from a logged-in account (QQ, Gmail, other preset providers or a custom IMAP/SMTP server). Support email address or display name lookup for the sending account. Attachments can be base64 content, local files inside the allowed directories, or attachments of existing emails (uid + part). A copy is saved to the Sent folder when the provider does not do it; the result includes the Message-ID, the Sent UID and the SMTP response. Emails that violate the configured send policy (recipients, subject prefix, daily limit) are refused.';
   
   inputSchema = {
     from: z.string().optional().describe('Sender email address or display name. If not provided, use default account.'),
-    to: z.string().describe('Recipient email address'),
+    to: z.union([z.string(), z.array(z.string())]).describe('Recipients: an address, a comma separated list, or an array. Display names are supported, e.g. "Alice <alice@example.com>"'),
+    cc: z.union([z.string(), z.array(z.string())]).optional().describe('Cc recipients (same format as to)'),
+    bcc: z.union([z.string(), z.array(z.string())]).optional().describe('Bcc recipients (same format as to), hidden from other recipients'),
+    replyTo: z.union([z.string(), z.array(z.string())]).optional().describe('Reply-To address(es) for replies to this email'),
     subject: z.string().describe('Email subject'),
     text: z.string().optional().describe('Plain text email content'),
     html: z.string().optional().describe('HTML email content'),
-    provider: z.string().optional().describe('Email provider (default: QQ)')
+    headers: z.record(z.string()).optional().describe('Custom headers, e.g. {"X-Campaign": "q3"}. Core headers such as From, To and Subject cannot be overridden'),
+    priority: z.enum(['high', 'normal', 'low']).optional().describe('Message priority (sets X-Priority / Importance headers)'),
+    provider: z.string().optional().describe('Email provider (default: QQ)'),
+    sendAt: z.string().optional().describe('Schedule the email instead of sending it now: ISO 8601 time, e.g. "2025-07-01T09:00:00+08:00". The email is kept in the outbox and sent by the background worker (manage it with email-outbox)'),
+    attachments: z.array(z.object({
+      filename: z.string().optional().describe('Attachment file name. Required for base64 content; overrides the original name otherwise'),
+      contentType: z.string().optional().describe('MIME type. Detected from the file name if not provided'),
+      content: z.string().optional().describe('Base64 encoded content (a data: URL is also accepted)'),
+      path: z.string().optional().describe('Local file path inside the allowed directories (MAILMCP_ATTACHMENT_ROOTS, default: the attachment download directory)'),
+      uid: z.number().optional().describe('UID of an existing email whose attachment should be attached'),
+      part: z.string().optional().describe('MIME part number of the attachment on the email (from email-detail or email-attachment)'),
+      folder: z.string().optional().describe('Folder of the referenced email (default: INBOX)'),
+      account: z.string().optional().describe('Account of the referenced email (default: the sending account)')
+    })).optional().describe('Attachments. Each item uses exactly one source: content, path, or uid with part/filename')
   };
 
-  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+  async handler(args: Record<string, unknown>, context?: ToolContext): Promise<ToolResponse> {
     const { 
       from, 
       to, 
       subject, 
       text, 
-      html
+      html,
+      cc,
+      bcc,
+      replyTo,
+      headers,
+      priority,
+      sendAt,
+      attachments = []
     } = args as { 
       from?: string; 
-      to: string; 
+      to: RecipientList; 
       subject: string; 
       text?: string; 
       html?: string; 
+      cc?: RecipientList;
+      bcc?: RecipientList;
+      replyTo?: RecipientList;
+      headers?: Record<string, string>;
+      priority?: 'high' | 'normal' | 'low';
       provider?: string; 
+      sendAt?: string;
+      attachments?: OutgoingAttachmentInput[];
     };
     try {
-      Logger.info(`Sending email from: ${from || 'default'} to: ${to}`);
+      Logger.info(`Sending email from: ${from || 'default'} to: ${Array.isArray(to) ? to.join(', ') : to}`);
 
       // 验证邮件内容
       if (!text && !html) {
@@ -53,72 +88,25 @@ export class EmailSendTool implements Tool {
         };
       }
 
-      let emailService: EmailService;
-
-      if (from) {
-        // 首先验证账户是否存在
-        const accountExists = await EmailStorage.validateAccount(from);
-        if (!accountExists) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Account "${from}" not found or not active. Please login first using the email login page.`
-              }
-            ]
-          };
+      let scheduledAt: Date | null = null;
+      if (sendAt) {
+        if (!Config.getOutboxConfig().enabled) {
+          return EmailToolHelper.textResponse('Error: Scheduled sending is disabled (MAILMCP_OUTBOX=false).');
         }
-
-        // Check token expiry for OAuth accounts
-        const tokenStatus = await EmailStorage.checkTokenExpiry(from);
-        if (tokenStatus.isExpired) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `OAuth token for account "${from}" has expired. Please re-authenticate using the email login tool.`
-              }
-            ]
-          };
-        } else if (tokenStatus.needsRefresh) {
-          Logger.warn(`OAuth token for account "${from}" expires in ${Math.round(tokenStatus.expiresIn / 60000)} minutes`);
+        scheduledAt = EmailToolHelper.parseSendAt(sendAt);
+        if (!scheduledAt) {
+          return EmailToolHelper.textResponse(`Error: Invalid sendAt "${sendAt}". Use an ISO 8601 time such as 2025-07-01T09:00:00+08:00.`);
         }
+      }
 
-        emailService = await EmailService.createFromAccount(from);
-      } else {
-        // 使用默认账户
-        try {
-          emailService = await EmailService.createDefault();
-          
-          // Check default account token if it's OAuth
-          const defaultAccount = await EmailStorage.getDefaultAccount();
-          if (defaultAccount) {
-            const tokenStatus = await EmailStorage.checkTokenExpiry(defaultAccount.email);
-            if (tokenStatus.isExpired) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `OAuth token for default account "${defaultAccount.email}" has expired. Please re-authenticate using the email login tool.`
-                  }
-                ]
-              };
-            }
-          }
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No default account configured. Please provide a from parameter or login first.'
-              }
-            ]
-          };
-        }
+      const resolved = await EmailToolHelper.resolveEmailService(from);
+      if (!resolved.emailService) {
+        return resolved.response;
       }
+      const emailService = resolved.emailService;
 
       // 发送邮件
-      const emailOptions: any = {
+      const emailOptions: SendEmailOptions = {
         to,
         subject
       };
@@ -130,77 +118,61 @@ export class EmailSendTool implements Tool {
       if (html) {
         emailOptions.html = html;
       }
-      
-      const success = await emailService.sendEmail(emailOptions);
 
-      if (success) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Email sent successfully to ${to}!\nSubject: ${subject}`
-            }
-          ]
-        };
-      } else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Failed to send email to ${to}. Please check your configuration and try again.`
-            }
-          ]
-        };
-      }
+      if (cc) emailOptions.cc = cc;
+      if (bcc) emailOptions.bcc = bcc;
+      if (replyTo) emailOptions.replyTo = replyTo;
+      if (headers) emailOptions.headers = headers;
+      if (priority) emailOptions.priority = priority;
 
-    } catch (error) {
-      Logger.error('Error sending email', error);
-      
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      // 解析附件：引用已有邮件的附件时默认从发件账户下载
+      if (attachments.length > 0) {
+        emailOptions.attachments = await EmailToolHelper.resolveAttachments(emailService, attachments);
+      }
       
-      // 提供更详细的错误信息和解决方案
-      if (errorMessage.includes('Invalid credentials') || errorMessage.includes('authentication')) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Authentication failed: ${errorMessage}\n\nPossible solutions:\n1. For QQ Mail: Check your email and authorization code\n2. For Gmail: Re-authenticate using OAuth\n3. Use email-login tool to check account status`
-            }
-          ]
-        };
+      // 开启发送审批时先由人工确认
+      if (SendApprovals.isRequired()) {
+        return await EmailToolHelper.requestApproval(
+          emailService,
+          emailOptions,
+          { source: this.name, sendAt: scheduledAt ?? undefined },
+          context
+        );
       }
 
-      if (errorMessage.includes('OAuth token')) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `OAuth authentication issue: ${errorMessage}\n\nPlease use the email-login tool with action 'gmail-oauth' to re-authenticate your Gmail account.`
-            }
-          ]
-        };
+      // 定时发送：校验后存入发件箱，由后台投递
+      if (scheduledAt) {
+        EmailService.validateSendOptions(emailOptions);
+        SendPolicy.check(emailService.getAccountEmail(), emailOptions);
+        const queued = await Outbox.enqueue(emailService.getAccountEmail(), emailOptions, scheduledAt);
+        return EmailToolHelper.textResponse(
+          `Email queued in the outbox.\nOutbox ID: ${queued.id}\nSubject: ${subject}\nScheduled for: ${scheduledAt.toLocaleString()} (${queued.sendAt})` +
+          '\nUse email-outbox to list, reschedule or cancel it.'
+        );
       }
 
-      // 如果是SMTP错误，提供更详细的错误信息
-      if (errorMessage.includes('SMTP') || errorMessage.includes('connection') || errorMessage.includes('timeout')) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Connection error: ${errorMessage}\n\nPlease check your internet connection and email server configuration.`
-            }
-          ]
-        };
-      }
+      const result = await emailService.sendEmail(emailOptions);
+      const accepted = result.recipients.filter(recipient => recipient.status !== 'rejected').length;
 
       return {
         content: [
           {
             type: 'text',
-            text: `Error sending email: ${errorMessage}\n\nFor debugging, please check the logs and verify your account configuration.`
+            text: (accepted > 0
+              ? `Email sent successfully to ${accepted} of ${result.recipients.length} recipient(s)!`
+              : 'Email was not delivered: all recipients were rejected.') +
+              `\nSubject: ${subject}` +
+              (emailOptions.attachments?.length
+                ? `\nAttachments: ${emailOptions.attachments.map(attachment => `${attachment.filename} (${attachment.content.length} bytes)`).join(', ')}`
+                : '') +
+              `\n${EmailToolHelper.formatSendResult(result)}`
           }
         ]
       };
+
+    } catch (error) {
+      Logger.error('Error sending email', error);
+      return EmailToolHelper.errorResponse(error, 'sending email');
     }
   }
 } 
\ No newline at end of file
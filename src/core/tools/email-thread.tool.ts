@@ -0,0 +1,63 @@
+/**
+ * 邮件会话工具
+ * 根据 UID 获取完整的邮件往来会话
+ */
+
+import { z } from 'zod';
+import { Tool, ToolResponse } from '../types.js';
+import { Logger } from '../../utils/logger.js';
+import { EmailToolHelper } from './email-tool.helper.js';
+
+export class EmailThreadTool implements Tool {
+  name = 'email-thread';
+  title = 'Email Thread';
+  description = 'Get the whole conversation that an email (by UID) belongs to, ordered from oldest to newest, with quoted replies removed. Uses Gmail thread IDs where available, otherwise Message-ID/In-Reply-To/References headers.';
+
+  inputSchema = {
+    account: z.string().optional().describe('Email address or display name. If not provided, use default account.'),
+    uid: z.number().describe('UID of any email in the conversation, from email-query'),
+    folder: z.string().optional().default('INBOX').describe('Mailbox folder path the UID belongs to (default: INBOX)'),
+    maxMessages: z.number().optional().default(20).describe('Maximum number of messages to return, newest kept (default: 20)')
+  };
+
+  async handler(args: Record<string, unknown>): Promise<ToolResponse> {
+    const { account, uid, folder = 'INBOX', maxMessages = 20 } = args as {
+      account?: string;
+      uid: number;
+      folder?: string;
+      maxMessages?: number;
+    };
+    try {
+      Logger.info(`Querying email thread for account: ${account || 'default'}, folder: ${folder}, uid: ${uid}`);
+
+      const { emailService, response } = await EmailToolHelper.resolveEmailService(account);
+      if (!emailService) {
+        return response;
+      }
+
+      const thread = await emailService.getThread(uid, folder, maxMessages);
+
+      if (thread.length === 0) {
+        return EmailToolHelper.textResponse(`Email not found with UID: ${uid} in ${folder}`);
+      }
+
+      const formattedMessages = thread.map((message, index) => {
+        return `[${index + 1}/${thread.length}] ${message.date.toLocaleString()}
+From: ${message.from}
+To: ${message.to}
+Subject: ${message.subject}
+Folder: ${message.folder}, UID: ${message.uid}
+
+${message.text || '(no text content)'}`;
+      });
+
+      return EmailToolHelper.textResponse(
+        `Conversation with ${thread.length} messages:\n\n${formattedMessages.join('\n\n---\n\n')}`
+      );
+
+    } catch (error) {
+      Logger.error('Error querying email thread', error);
+      return EmailToolHelper.errorResponse(error, 'querying email thread');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,275 @@
+/**
+ * 邮件工具公共辅助方法
+ * 统一账户解析、令牌检查和错误提示
+ */
+
+import { ToolContext, ToolResponse } from '../types.js';
+import { EmailService, SendEmailOptions, SendEmailResult } from '../../utils/email-service.js';
+import { EmailStorage } from '../../utils/storage.js';
+import { Logger } from '../../utils/logger.js';
+import { OutgoingAttachments, OutgoingAttachment, OutgoingAttachmentInput } from '../../utils/outgoing-attachments.js';
+import { SendApprovals, PendingApproval, ApprovalDecision, ApprovalFollowUp } from '../../utils/send-approval.js';
+import { SendPolicyViolation } from '../../utils/send-policy.js';
+
+export type EmailServiceResolution =
+  | { emailService: EmailService; response?: undefined }
+  | { emailService?: undefined; response: ToolResponse };
+
+export class EmailToolHelper {
+  /**
+   * 构建纯文本响应
+   */
+  static textResponse(text: string): ToolResponse {
+    return {
+      content: [
+        {
+          type: 'text',
+          text
+        }
+      ]
+    };
+  }
+
+  /**
+   * 根据账户（或默认账户）创建邮件服务，失败时返回可直接输出的响应
+   */
+  static async resolveEmailService(account?: string): Promise<EmailServiceResolution> {
+    if (account) {
+      // 首先验证账户是否存在
+      const accountExists = await EmailStorage.validateAccount(account);
+      if (!accountExists) {
+        return {
+          response: EmailToolHelper.textResponse(
+            `Account "${account}" not found or not active. Please login first using the email login page.`
+          )
+        };
+      }
+
+      // Check token expiry for OAuth accounts
+      const tokenStatus = await EmailStorage.checkTokenExpiry(account);
+      if (tokenStatus.isExpired) {
+        return {
+          response: EmailToolHelper.textResponse(
+            `OAuth token for account "${account}" has expired. Please re-authenticate using the email login tool.`
+          )
+        };
+      } else if (tokenStatus.needsRefresh) {
+        Logger.warn(`OAuth token for account "${account}" expires in ${Math.round(tokenStatus.expiresIn / 60000)} minutes`);
+      }
+
+      return { emailService: await EmailService.createFromAccount(account) };
+    }
+
+    // 使用默认账户
+    try {
+      const emailService = await EmailService.createDefault();
+
+      // Check default account token if it's OAuth
+      const defaultAccount = await EmailStorage.getDefaultAccount();
+      if (defaultAccount) {
+        const tokenStatus = await EmailStorage.checkTokenExpiry(defaultAccount.email);
+        if (tokenStatus.isExpired) {
+          return {
+            response: EmailToolHelper.textResponse(
+              `OAuth token for default account "${defaultAccount.email}" has expired. Please re-authenticate using the email login tool.`
+            )
+          };
+        }
+      }
+
+      return { emailService };
+    } catch {
+      return {
+        response: EmailToolHelper.textResponse(
+          'No default account configured. Please provide an account parameter or login first.'
+        )
+      };
+    }
+  }
+
+  /**
+   * 解析待发送附件，引用已有邮件的附件时默认从 emailService 对应的账户下载
+   */
+  static async resolveAttachments(emailService: EmailService, inputs: OutgoingAttachmentInput[]): Promise<OutgoingAttachment[]> {
+    return OutgoingAttachments.resolve(inputs, async (input, maxBytes) => {
+      let sourceService = emailService;
+      if (input.account) {
+        const resolution = await EmailToolHelper.resolveEmailService(input.account);
+        if (!resolution.emailService) {
+          throw new Error(`Cannot load attachment from account "${input.account}": account not found or not active`);
+        }
+        sourceService = resolution.emailService;
+      }
+
+      const selector: { part?: string; filename?: string } = {};
+      if (input.part) selector.part = input.part;
+      else if (input.filename) selector.filename = input.filename;
+
+      const attachment = await sourceService.downloadAttachment(input.uid, selector, input.folder || 'INBOX', maxBytes);
+      if (!attachment) {
+        throw new Error(`Email not found with UID: ${input.uid} in ${input.folder || 'INBOX'}`);
+      }
+      return { filename: attachment.filename, content: attachment.data, contentType: attachment.contentType };
+    });
+  }
+
+  /**
+   * 解析定时发送时间（ISO 8601，不带时区时按本地时间），格式无效返回 null
+   */
+  static parseSendAt(value: string): Date | null {
+    const date = new Date(value);
+    return /^\d{4}-\d{2}-\d{2}/.test(value.trim()) && !isNaN(date.getTime()) ? date : null;
+  }
+
+  /**
+   * 开启发送审批时保存为待审批邮件：客户端支持 elicitation 时直接请求用户确认，否则返回审批页面地址
+   */
+  static async requestApproval(
+    emailService: EmailService,
+    options: SendEmailOptions,
+    extras: { source: string; sendAt?: Date | undefined; followUp?: ApprovalFollowUp | undefined },
+    context?: ToolContext
+  ): Promise<ToolResponse> {
+    const approval = await SendApprovals.create(emailService.getAccountEmail(), options, extras);
+
+    if (context?.elicitInput) {
+      try {
+        const answer = await context.elicitInput({
+          message: `Approve sending this email?\n\n${SendApprovals.describe(approval)}`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              approve: { type: 'boolean', title: 'Send this email', description: 'Check to send the email shown above', default: false },
+              reason: { type: 'string', title: 'Reason', description: 'Optional reason when not sending' }
+            },
+            required: ['approve']
+          }
+        });
+
+        if (answer.action === 'accept' && answer.content?.approve === true) {
+          const approved = await SendApprovals.approve(approval.id, { decidedBy: 'elicitation' });
+          return EmailToolHelper.textResponse(EmailToolHelper.formatApproval(approved));
+        }
+        if (answer.action !== 'cancel') {
+          const decision: ApprovalDecision = { decidedBy: 'elicitation' };
+          if (typeof answer.content?.reason === 'string' && answer.content.reason) {
+            decision.reason = answer.content.reason;
+          }
+          const rejected = await SendApprovals.reject(approval.id, decision);
+          return EmailToolHelper.textResponse(EmailToolHelper.formatApproval(rejected));
+        }
+        // 用户关闭了确认对话框，仍可在审批页面处理
+      } catch (error) {
+        Logger.warn('Elicitation failed, falling back to the review page', error);
+      }
+    }
+
+    return EmailToolHelper.textResponse(EmailToolHelper.formatApproval(approval));
+  }
+
+  /**
+   * 审批页面位置说明，登录服务器未运行时提示先启动
+   */
+  private static formatReviewLocation(reviewUrl: string | undefined): string {
+    return reviewUrl
+      ? `A human must review and approve it at: ${reviewUrl}`
+      : 'A human must review and approve it on the review page of the login server, which is not running. Start it with email-login (action "start").';
+  }
+
+  /**
+   * 格式化审批状态
+   */
+  static formatApproval(approval: PendingApproval): string {
+    const header = `Approval ID: ${approval.id}\nSubject: ${approval.options.subject}`;
+    const edited = approval.edited?.length ? `\nEdited by the reviewer: ${approval.edited.join(', ')}` : '';
+
+    switch (approval.status) {
+      case 'pending':
+        return 'Approval required: the email has NOT been sent.\n' +
+          `${EmailToolHelper.formatReviewLocation(SendApprovals.getReviewUrl(approval.id))}\n` +
+          `${header}\nExpires at: ${new Date(approval.expiresAt).toLocaleString()}\n` +
+          'Use email-approval with this ID to check whether it was approved.';
+      case 'approved':
+        return `The email was approved and is being sent.\n${header}`;
+      case 'sent':
+        return `The email was approved and sent.\n${header}${edited}\n${approval.result ? EmailToolHelper.formatSendResult(approval.result) : ''}`.trim();
+      case 'queued':
+        return `The email was approved and queued in the outbox.\n${header}${edited}\nOutbox ID: ${approval.outboxId}` +
+          (approval.sendAt ? `\nScheduled for: ${new Date(approval.sendAt).toLocaleString()}` : '');
+      case 'rejected':
+        return `The email was rejected by the reviewer and has NOT been sent.\n${header}` +
+          (approval.reason ? `\nReason: ${approval.reason}` : '');
+      case 'failed':
+        return `The email was approved but sending failed: ${approval.error}\n${header}`;
+      case 'expired':
+        return `The approval request expired and the email has NOT been sent.\n${header}`;
+    }
+  }
+
+  /**
+   * 格式化发送结果：Message-ID、SMTP 响应、“已发送”中的副本和每个收件人的投递状态
+   */
+  static formatSendResult(result: SendEmailResult): string {
+    const lines = [`Message-ID: ${result.messageId}`];
+    if (result.response) {
+      lines.push(`SMTP response: ${result.response}`);
+    }
+    if (result.sentCopy) {
+      lines.push(`Saved to ${result.sentCopy.folder}${result.sentCopy.uid !== null ? ` (UID ${result.sentCopy.uid})` : ''}`);
+    } else if (result.sentCopyError) {
+      lines.push(`Warning: failed to save a copy to the Sent folder: ${result.sentCopyError}`);
+    }
+
+    lines.push('Recipients:');
+    for (const recipient of result.recipients) {
+      lines.push(`  - ${recipient.address}: ${recipient.status}${recipient.error ? ` (${recipient.error})` : ''}`);
+    }
+
+    const rejected = result.recipients.filter(recipient => recipient.status === 'rejected').length;
+    if (rejected > 0) {
+      lines.push(`Warning: ${rejected} recipient(s) were rejected by the SMTP server and will not receive this email.`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 将异常转换为带解决方案提示的响应
+   */
+  static errorResponse(error: unknown, action: string): ToolResponse {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    // 违反发送策略时明确返回错误，提示不要修改收件人或内容绕过策略
+    if (error instanceof SendPolicyViolation) {
+      return {
+        ...EmailToolHelper.textResponse(
+          `Blocked by send policy (${error.rule}): ${errorMessage}\n\nThe email was NOT sent. ` +
+          'Do not retry or change the email to get around the policy; ask the user if this email is really intended.'
+        ),
+        isError: true
+      };
+    }
+
+    if (errorMessage.includes('Invalid credentials') || errorMessage.includes('authentication')) {
+      return EmailToolHelper.textResponse(
+        `Authentication failed: ${errorMessage}\n\nPossible solutions:\n1. For password-based accounts (QQ, 163, iCloud, custom IMAP...): Check your email and authorization code / app password\n2. For Gmail: Re-authenticate using OAuth\n3. Use email-login tool to check account status`
+      );
+    }
+
+    if (errorMessage.includes('OAuth token')) {
+      return EmailToolHelper.textResponse(
+        `OAuth authentication issue: ${errorMessage}\n\nPlease use the email-login tool with action 'gmail-oauth' to re-authenticate your Gmail account.`
+      );
+    }
+
+    if (errorMessage.includes('SMTP') || errorMessage.includes('connection') || errorMessage.includes('timeout')) {
+      return EmailToolHelper.textResponse(
+        `Connection error: ${errorMessage}\n\nPlease check your internet connection and email server settings.`
+      );
+    }
+
+    return EmailToolHelper.textResponse(
+      `Error ${action}: ${errorMessage}\n\nFor debugging, please check the logs and verify your account configuration.`
+    );
+  }
+}
\ No newline at end of file
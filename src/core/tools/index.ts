@@ -3,13 +3,24 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { Tool } from '../types.js';
+import { Tool, ToolContext } from '../types.js';
 import { HelloTool } from './hello.tool.js';
 import { ServerInfoTool } from './server-info.tool.js';
 import { EmailLoginTool } from './email-login.tool.js';
 import { EmailQueryTool } from './email-query.tool.js';
 import { EmailSendTool } from './email-send.tool.js';
 import { EmailDetailTool } from './email-detail.tool.js';
+import { EmailFoldersTool } from './email-folders.tool.js';
+import { EmailThreadTool } from './email-thread.tool.js';
+import { EmailAttachmentTool } from './email-attachment.tool.js';
+import { EmailFlagTool } from './email-flag.tool.js';
+import { EmailOrganizeTool } from './email-organize.tool.js';
+import { EmailSearchTool } from './email-search.tool.js';
+import { EmailReplyTool } from './email-reply.tool.js';
+import { EmailDraftTool } from './email-draft.tool.js';
+import { EmailOutboxTool } from './email-outbox.tool.js';
+import { EmailApprovalTool } from './email-approval.tool.js';
+import { EmailBulkSendTool } from './email-bulk-send.tool.js';
 
 export class ToolRegistry {
   private tools: Tool[] = [];
@@ -24,6 +35,17 @@ export class ToolRegistry {
     this.register(new EmailQueryTool());
     this.register(new EmailSendTool());
     this.register(new EmailDetailTool());
+    this.register(new EmailFoldersTool());
+    this.register(new EmailThreadTool());
+    this.register(new EmailAttachmentTool());
+    this.register(new EmailFlagTool());
+    this.register(new EmailOrganizeTool());
+    this.register(new EmailSearchTool());
+    this.register(new EmailReplyTool());
+    this.register(new EmailDraftTool());
+    this.register(new EmailOutboxTool());
+    this.register(new EmailApprovalTool());
+    this.register(new EmailBulkSendTool());
   }
 
   register(tool: Tool): void {
@@ -40,12 +62,23 @@ export class ToolRegistry {
           inputSchema: tool.inputSchema
         },
         async (args: Record<string, unknown>) => {
-          return await tool.handler(args);
+          return await tool.handler(args, ToolRegistry.createContext(server));
         }
       );
     }
   }
 
+  /**
+   * 创建工具调用上下文，客户端声明了 elicitation 能力时才提供 elicitInput
+   */
+  private static createContext(server: McpServer): ToolContext {
+    const context: ToolContext = {};
+    if (server.server.getClientCapabilities()?.elicitation) {
+      context.elicitInput = params => server.server.elicitInput(params);
+    }
+    return context;
+  }
+
   getTools(): Tool[] {
     return this.tools;
   }
@@ -3,13 +3,33 @@
  */
 
 import { z } from 'zod';
+import { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
 
-export interface ToolResponse {
-  [x: string]: unknown;
-  content: Array<{
+export type ToolContent =
+  | {
     type: 'text';
     text: string;
-  }>;
+  }
+  | {
+    type: 'resource';
+    resource: {
+      uri: string;
+      mimeType: string;
+      blob: string;
+    };
+  };
+
+export interface ToolResponse {
+  [x: string]: unknown;
+  content: ToolContent[];
+}
+
+/**
+ * 工具调用上下文
+ */
+export interface ToolContext {
+  /** 客户端支持 elicitation 时提供，用于向用户请求确认 */
+  elicitInput?: (params: ElicitRequest['params']) => Promise<ElicitResult>;
 }
 
 export interface Tool {
@@ -17,7 +37,65 @@ export interface Tool {
   title: string;
   description: string;
   inputSchema: z.ZodRawShape;
-  handler: (args: Record<string, unknown>) => Promise<ToolResponse>;
+  handler: (args: Record<string, unknown>, context?: ToolContext) => Promise<ToolResponse>;
+}
+
+export interface ResourceContent {
+  [x: string]: unknown;
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface ResourceResponse {
+  [x: string]: unknown;
+  contents: ResourceContent[];
+}
+
+export interface ResourceListItem {
+  [x: string]: unknown;
+  uri: string;
+  name: string;
+  mimeType: string;
+  description?: string;
+}
+
+export interface Resource {
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  uriTemplate: string;
+  /** 列出该模板下可直接读取的资源 */
+  list?: () => Promise<ResourceListItem[]>;
+  /** URI 模板变量的自动补全 */
+  complete?: Record<string, (value: string) => Promise<string[]>>;
+  handler: (uri: URL, variables: Record<string, string>) => Promise<ResourceResponse>;
+}
+
+export interface PromptMessage {
+  [x: string]: unknown;
+  role: 'user' | 'assistant';
+  content: {
+    [x: string]: unknown;
+    type: 'text';
+    text: string;
+  };
+}
+
+export interface PromptResponse {
+  [x: string]: unknown;
+  description?: string;
+  messages: PromptMessage[];
+}
+
+export interface Prompt {
+  name: string;
+  title: string;
+  description: string;
+  /** MCP 提示词参数只能是字符串 */
+  argsSchema: Record<string, z.ZodString | z.ZodOptional<z.ZodString>>;
+  handler: (args: Record<string, string | undefined>) => Promise<PromptResponse>;
 }
 
 export interface ServerInfo {
@@ -52,7 +52,8 @@ async function testStreamableHttpClient(): Promise<void> {
       name: "server-info",
       arguments: {}
     }) as ToolResponse;
-    Logger.info("✓ Server info:", JSON.parse(result3.content[0].text));
+    const serverInfo = result3.content[0];
+    Logger.info("✓ Server info:", serverInfo.type === 'text' ? JSON.parse(serverInfo.text) : serverInfo);
 
     await client.close();
     Logger.info("✓ Streamable HTTP client test completed\n");
@@ -0,0 +1,264 @@
+/**
+ * 附件文本提取模块
+ * 将 PDF、DOCX、XLSX、CSV 等常见附件转换为纯文本或 Markdown 表格，可注册自定义提取器
+ */
+
+import { Logger } from './logger.js';
+
+export interface AttachmentTextExtractor {
+  name: string;
+  supports(contentType: string, filename: string): boolean;
+  extract(data: Buffer): Promise<string>;
+}
+
+export interface AttachmentTextResult {
+  filename: string;
+  contentType: string;
+  extractor: string;
+  text: string;
+  truncated: boolean;
+}
+
+/**
+ * 判断附件是否匹配给定的 MIME 类型或扩展名
+ */
+function matches(contentType: string, filename: string, mimeTypes: string[], extensions: string[]): boolean {
+  const type = contentType.toLowerCase();
+  const name = filename.toLowerCase();
+  return mimeTypes.includes(type) || extensions.some(ext => name.endsWith(ext));
+}
+
+/**
+ * 解码文本附件，UTF-8 解码失败时按 GBK 处理（国内常见的 Excel 导出 CSV）
+ */
+function decodeText(data: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    text = new TextDecoder('gbk').decode(data);
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * 将二维数组转换为 Markdown 表格，第一行作为表头
+ */
+function toMarkdownTable(rows: string[][]): string {
+  const nonEmptyRows = rows.filter(row => row.some(cell => cell.trim() !== ''));
+  if (nonEmptyRows.length === 0) return '';
+
+  const columnCount = Math.max(...nonEmptyRows.map(row => row.length));
+  const formatRow = (row: string[]) => {
+    const cells = Array.from({ length: columnCount }, (_, i) =>
+      (row[i] || '').replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim()
+    );
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  const [header, ...body] = nonEmptyRows;
+  return [
+    formatRow(header),
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...body.map(formatRow)
+  ].join('\n');
+}
+
+/**
+ * 解析 CSV/TSV 文本，支持引号包裹的字段和自动识别分隔符
+ */
+function parseDelimited(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = ['\t', ';', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * 将 Excel 单元格的值转换为文本
+ */
+function cellToText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+
+  const cell = value as Record<string, unknown>;
+  if (Array.isArray(cell.richText)) {
+    return cell.richText.map(part => (part as { text?: string }).text || '').join('');
+  }
+  if ('result' in cell) return cellToText(cell.result);
+  if ('text' in cell) return cellToText(cell.text);
+  if ('error' in cell) return String(cell.error);
+  return '';
+}
+
+const plainTextExtractor: AttachmentTextExtractor = {
+  name: 'text',
+  supports: (contentType, filename) =>
+    matches(contentType, filename, ['text/plain', 'text/markdown', 'application/json'], ['.txt', '.md', '.json', '.log']),
+  extract: async data => decodeText(data).trim()
+};
+
+const csvExtractor: AttachmentTextExtractor = {
+  name: 'csv',
+  supports: (contentType, filename) =>
+    matches(contentType, filename, ['text/csv', 'text/tab-separated-values', 'application/csv'], ['.csv', '.tsv']),
+  extract: async data => toMarkdownTable(parseDelimited(decodeText(data)))
+};
+
+const pdfExtractor: AttachmentTextExtractor = {
+  name: 'pdf',
+  supports: (contentType, filename) => matches(contentType, filename, ['application/pdf'], ['.pdf']),
+  extract: async data => {
+    const { extractText } = await import('unpdf');
+    const { text } = await extractText(new Uint8Array(data), { mergePages: true });
+    return text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  }
+};
+
+const docxExtractor: AttachmentTextExtractor = {
+  name: 'docx',
+  supports: (contentType, filename) =>
+    matches(contentType, filename, ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'], ['.docx']),
+  extract: async data => {
+    const mammoth = (await import('mammoth')).default;
+    const result = await mammoth.extractRawText({ buffer: data });
+    return result.value.replace(/\n{3,}/g, '\n\n').trim();
+  }
+};
+
+const xlsxExtractor: AttachmentTextExtractor = {
+  name: 'xlsx',
+  supports: (contentType, filename) =>
+    matches(contentType, filename, ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'], ['.xlsx']),
+  extract: async data => {
+    const ExcelJS = (await import('exceljs')).default;
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(data);
+
+    const sections: string[] = [];
+    workbook.eachSheet(worksheet => {
+      const rows: string[][] = [];
+      worksheet.eachRow(row => {
+        // row.values 以 1 为起始下标
+        const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+        rows.push(values.map(cellToText));
+      });
+
+      const table = toMarkdownTable(rows);
+      if (table) {
+        sections.push(`#### ${worksheet.name}\n\n${table}`);
+      }
+    });
+
+    return sections.join('\n\n');
+  }
+};
+
+export class AttachmentTextPipeline {
+  private static extractors: AttachmentTextExtractor[] = [
+    pdfExtractor,
+    docxExtractor,
+    xlsxExtractor,
+    csvExtractor,
+    plainTextExtractor
+  ];
+
+  /**
+   * 注册自定义提取器，优先于内置提取器匹配
+   */
+  static register(extractor: AttachmentTextExtractor): void {
+    AttachmentTextPipeline.extractors.unshift(extractor);
+  }
+
+  /**
+   * 查找能处理该附件的提取器
+   */
+  static findExtractor(contentType: string, filename: string): AttachmentTextExtractor | null {
+    return AttachmentTextPipeline.extractors.find(extractor => extractor.supports(contentType, filename)) || null;
+  }
+
+  /**
+   * 提取单个附件的文本，不支持的类型返回 null
+   */
+  static async extract(data: Buffer, contentType: string, filename: string): Promise<{ extractor: string; text: string } | null> {
+    const extractor = AttachmentTextPipeline.findExtractor(contentType, filename);
+    if (!extractor) {
+      return null;
+    }
+
+    Logger.info(`Extracting text from attachment ${filename} with ${extractor.name} extractor`);
+    return { extractor: extractor.name, text: await extractor.extract(data) };
+  }
+
+  /**
+   * 粗略估算 token 数：中日韩字符按 1 个 token，其余按 4 个字符 1 个 token
+   */
+  static estimateTokens(text: string): number {
+    const cjkCount = (text.match(/[\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF\uFF00-\uFFEF]/g) || []).length;
+    return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+  }
+
+  /**
+   * 按 token 预算截断文本
+   */
+  static truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+    if (AttachmentTextPipeline.estimateTokens(text) <= maxTokens) {
+      return { text, truncated: false };
+    }
+
+    // 二分查找不超过预算的最长前缀
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (AttachmentTextPipeline.estimateTokens(text.slice(0, mid)) <= maxTokens) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return { text: text.slice(0, low), truncated: true };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,412 @@
+/**
+ * 邮箱服务器自动发现模块
+ * 依次尝试内置服务商预设、ISPDB 风格的服务商数据库、autoconfig XML、RFC 6186 SRV 记录和 MX 记录
+ * DNS / HTTP 查询通过可替换的 resolver 完成，便于离线测试
+ */
+
+import { promises as dns } from 'node:dns';
+import { Logger } from './logger.js';
+import { ProviderRegistry, ServerSettings } from './providers.js';
+
+export type DiscoverySource = 'preset' | 'ispdb' | 'autoconfig' | 'srv' | 'mx';
+
+export interface DiscoveryResult {
+  source: DiscoverySource;
+  providerName: string;
+  settings: ServerSettings;
+  /** 登录用户名，未返回时使用邮箱地址 */
+  username?: string | undefined;
+}
+
+export interface SrvRecord {
+  name: string;
+  port: number;
+  priority: number;
+  weight: number;
+}
+
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+export interface DiscoveryResolvers {
+  resolveSrv(name: string): Promise<SrvRecord[]>;
+  resolveMx(domain: string): Promise<MxRecord[]>;
+  /** 获取 URL 的文本内容，失败或非 2xx 时返回 null */
+  fetchText(url: string): Promise<string | null>;
+}
+
+interface IspdbEntry {
+  name: string;
+  /** 邮箱域名 */
+  domains: string[];
+  /** MX 主机后缀，用于识别托管在该服务商的自有域名 */
+  mxDomains?: string[];
+  settings: ServerSettings;
+  /** 用户名模板，默认使用完整邮箱地址 */
+  username?: '%EMAILADDRESS%' | '%EMAILLOCALPART%';
+}
+
+/**
+ * 内置的服务商数据库（参考 Thunderbird ISPDB 格式精简而来）
+ */
+const ISPDB: IspdbEntry[] = [
+  {
+    name: 'Google Workspace',
+    domains: [],
+    mxDomains: ['google.com', 'googlemail.com'],
+    settings: { imapHost: 'imap.gmail.com', imapPort: 993, smtpHost: 'smtp.gmail.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: 'Microsoft 365',
+    domains: [],
+    mxDomains: ['mail.protection.outlook.com'],
+    settings: { imapHost: 'outlook.office365.com', imapPort: 993, smtpHost: 'smtp.office365.com', smtpPort: 587, secure: true, smtpSecure: false }
+  },
+  {
+    name: '腾讯企业邮箱',
+    domains: ['exmail.qq.com'],
+    mxDomains: ['exmail.qq.com', 'qq.com'],
+    settings: { imapHost: 'imap.exmail.qq.com', imapPort: 993, smtpHost: 'smtp.exmail.qq.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: '网易企业邮箱',
+    domains: [],
+    mxDomains: ['qiye.163.com', 'qiye.netease.com'],
+    settings: { imapHost: 'imap.qiye.163.com', imapPort: 993, smtpHost: 'smtp.qiye.163.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: '阿里企业邮箱',
+    domains: [],
+    mxDomains: ['mxhichina.com', 'qiye.aliyun.com'],
+    settings: { imapHost: 'imap.qiye.aliyun.com', imapPort: 993, smtpHost: 'smtp.qiye.aliyun.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: '阿里邮箱',
+    domains: ['aliyun.com'],
+    settings: { imapHost: 'imap.aliyun.com', imapPort: 993, smtpHost: 'smtp.aliyun.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: '新浪邮箱',
+    domains: ['sina.com', 'sina.cn', 'vip.sina.com'],
+    settings: { imapHost: 'imap.sina.com', imapPort: 993, smtpHost: 'smtp.sina.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: '搜狐邮箱',
+    domains: ['sohu.com'],
+    settings: { imapHost: 'imap.sohu.com', imapPort: 993, smtpHost: 'smtp.sohu.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: '网易 yeah.net',
+    domains: ['yeah.net'],
+    settings: { imapHost: 'imap.yeah.net', imapPort: 993, smtpHost: 'smtp.yeah.net', smtpPort: 465, secure: true }
+  },
+  {
+    name: '139 邮箱',
+    domains: ['139.com'],
+    settings: { imapHost: 'imap.139.com', imapPort: 993, smtpHost: 'smtp.139.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: 'AOL',
+    domains: ['aol.com'],
+    settings: { imapHost: 'imap.aol.com', imapPort: 993, smtpHost: 'smtp.aol.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: 'GMX',
+    domains: ['gmx.com', 'gmx.net', 'gmx.de'],
+    mxDomains: ['gmx.net'],
+    settings: { imapHost: 'imap.gmx.com', imapPort: 993, smtpHost: 'mail.gmx.com', smtpPort: 587, secure: true, smtpSecure: false }
+  },
+  {
+    name: 'Mail.com',
+    domains: ['mail.com', 'email.com'],
+    settings: { imapHost: 'imap.mail.com', imapPort: 993, smtpHost: 'smtp.mail.com', smtpPort: 587, secure: true, smtpSecure: false }
+  },
+  {
+    name: 'Mail.ru',
+    domains: ['mail.ru', 'inbox.ru', 'list.ru', 'bk.ru'],
+    settings: { imapHost: 'imap.mail.ru', imapPort: 993, smtpHost: 'smtp.mail.ru', smtpPort: 465, secure: true }
+  },
+  {
+    name: 'Zoho',
+    domains: [],
+    mxDomains: ['zoho.com', 'zohomail.com'],
+    settings: { imapHost: 'imap.zoho.com', imapPort: 993, smtpHost: 'smtp.zoho.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: 'Fastmail',
+    domains: [],
+    mxDomains: ['messagingengine.com'],
+    settings: { imapHost: 'imap.fastmail.com', imapPort: 993, smtpHost: 'smtp.fastmail.com', smtpPort: 465, secure: true }
+  },
+  {
+    name: 'Yandex',
+    domains: [],
+    mxDomains: ['yandex.net', 'yandex.ru'],
+    settings: { imapHost: 'imap.yandex.com', imapPort: 993, smtpHost: 'smtp.yandex.com', smtpPort: 465, secure: true }
+  }
+];
+
+const HTTP_TIMEOUT = 5000;
+
+const defaultResolvers: DiscoveryResolvers = {
+  resolveSrv: name => dns.resolveSrv(name),
+  resolveMx: domain => dns.resolveMx(domain),
+  fetchText: async url => {
+    const response = await fetch(url, { signal: AbortSignal.timeout(HTTP_TIMEOUT), redirect: 'follow' });
+    return response.ok ? response.text() : null;
+  }
+};
+
+/**
+ * 判断主机名是否等于某个域名或是其子域名
+ */
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * 按 RFC 2782 的优先级排序 SRV 记录（权重只用于同优先级的先后，不做随机选择）
+ */
+function sortSrvRecords(records: SrvRecord[]): SrvRecord[] {
+  return [...records].sort((a, b) => a.priority - b.priority || b.weight - a.weight);
+}
+
+/**
+ * 读取 XML 元素的文本内容
+ */
+function readTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>\\s*([^<]*?)\\s*</${tag}>`, 'i'));
+  return match ? match[1] : undefined;
+}
+
+interface AutoconfigServer {
+  hostname: string;
+  port: number;
+  socketType: string;
+  username?: string | undefined;
+}
+
+/**
+ * 解析 autoconfig XML 中某类服务器（incomingServer / outgoingServer）的所有候选
+ */
+function parseServers(xml: string, element: string, type: string): AutoconfigServer[] {
+  const servers: AutoconfigServer[] = [];
+  const pattern = new RegExp(`<${element}\\s[^>]*type\\s*=\\s*["']${type}["'][^>]*>([\\s\\S]*?)</${element}>`, 'gi');
+
+  for (const match of xml.matchAll(pattern)) {
+    const body = match[1];
+    const hostname = readTag(body, 'hostname');
+    const port = Number(readTag(body, 'port'));
+    if (!hostname || !Number.isInteger(port) || port <= 0) continue;
+
+    servers.push({
+      hostname,
+      port,
+      socketType: (readTag(body, 'socketType') || 'plain').toUpperCase(),
+      username: readTag(body, 'username')
+    });
+  }
+
+  // 优先使用隐式 TLS，其次 STARTTLS，不使用明文连接
+  const rank = (server: AutoconfigServer) => ['SSL', 'STARTTLS'].indexOf(server.socketType);
+  return servers
+    .filter(server => rank(server) >= 0)
+    .sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * 展开 autoconfig 中的用户名占位符
+ */
+function expandUsername(template: string | undefined, email: string): string | undefined {
+  if (!template) return undefined;
+  const [localPart, domain] = email.split('@');
+  return template
+    .replace(/%EMAILADDRESS%/g, email)
+    .replace(/%EMAILLOCALPART%/g, localPart)
+    .replace(/%EMAILDOMAIN%/g, domain);
+}
+
+export class MailAutodiscovery {
+  private static resolvers: DiscoveryResolvers = defaultResolvers;
+
+  /**
+   * 替换 DNS / HTTP 查询实现，未提供的方法沿用默认实现
+   */
+  static setResolvers(resolvers: Partial<DiscoveryResolvers>): void {
+    MailAutodiscovery.resolvers = { ...defaultResolvers, ...resolvers };
+  }
+
+  /**
+   * 恢复默认的 DNS / HTTP 查询实现
+   */
+  static resetResolvers(): void {
+    MailAutodiscovery.resolvers = defaultResolvers;
+  }
+
+  /**
+   * 自动发现邮箱的 IMAP/SMTP 配置，全部来源都失败时返回 null
+   */
+  static async discover(email: string): Promise<DiscoveryResult | null> {
+    const domain = email.split('@').pop()?.toLowerCase();
+    if (!domain) return null;
+
+    const offline = MailAutodiscovery.lookupOffline(email);
+    if (offline) return offline;
+
+    const resolvers = MailAutodiscovery.resolvers;
+    const lookups: Array<[DiscoverySource, () => Promise<DiscoveryResult | null>]> = [
+      ['autoconfig', () => MailAutodiscovery.lookupAutoconfig(email, domain, resolvers)],
+      ['srv', () => MailAutodiscovery.lookupSrv(domain, resolvers)],
+      ['mx', () => MailAutodiscovery.lookupMx(email, domain, resolvers)]
+    ];
+
+    for (const [source, lookup] of lookups) {
+      try {
+        const result = await lookup();
+        if (result) {
+          Logger.info(`Discovered mail settings for ${domain} via ${source}: ${result.settings.imapHost}:${result.settings.imapPort}, ${result.settings.smtpHost}:${result.settings.smtpPort}`);
+          return result;
+        }
+      } catch (error) {
+        Logger.warn(`Mail autodiscovery via ${source} failed for ${domain}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 只查询内置的服务商预设和服务商数据库，不访问网络
+   */
+  static lookupOffline(email: string): DiscoveryResult | null {
+    const domain = email.split('@').pop()?.toLowerCase() || '';
+
+    const preset = ProviderRegistry.findByEmail(email);
+    if (preset) {
+      return { source: 'preset', providerName: preset.name, settings: { ...preset.settings } };
+    }
+
+    const entry = ISPDB.find(item => item.domains.includes(domain));
+    return entry ? MailAutodiscovery.fromIspdb(entry, email, 'ispdb') : null;
+  }
+
+  /**
+   * 查询 autoconfig XML：先查邮箱服务商自己的 autoconfig 子域名，再查 well-known 路径
+   */
+  private static async lookupAutoconfig(email: string, domain: string, resolvers: DiscoveryResolvers): Promise<DiscoveryResult | null> {
+    const urls = [
+      `https://autoconfig.${domain}/mail/config-v1.1.xml?emailaddress=${encodeURIComponent(email)}`,
+      `https://${domain}/.well-known/autoconfig/mail/config-v1.1.xml`
+    ];
+
+    for (const url of urls) {
+      let xml: string | null;
+      try {
+        xml = await resolvers.fetchText(url);
+      } catch {
+        continue;
+      }
+      if (!xml) continue;
+
+      const result = MailAutodiscovery.parseAutoconfig(xml, email);
+      if (result) return result;
+    }
+
+    return null;
+  }
+
+  /**
+   * 解析 Thunderbird autoconfig（config-v1.1）格式的 XML
+   */
+  static parseAutoconfig(xml: string, email: string): DiscoveryResult | null {
+    const [imap] = parseServers(xml, 'incomingServer', 'imap');
+    const [smtp] = parseServers(xml, 'outgoingServer', 'smtp');
+    if (!imap || !smtp) return null;
+
+    return {
+      source: 'autoconfig',
+      providerName: readTag(xml, 'displayShortName') || readTag(xml, 'displayName') || email.split('@').pop()!,
+      settings: {
+        imapHost: imap.hostname,
+        imapPort: imap.port,
+        smtpHost: smtp.hostname,
+        smtpPort: smtp.port,
+        secure: imap.socketType === 'SSL',
+        smtpSecure: smtp.socketType === 'SSL'
+      },
+      username: expandUsername(imap.username, email)
+    };
+  }
+
+  /**
+   * 按 RFC 6186 查询 SRV 记录，隐式 TLS（RFC 8314）优先于 STARTTLS
+   */
+  private static async lookupSrv(domain: string, resolvers: DiscoveryResolvers): Promise<DiscoveryResult | null> {
+    const findService = async (services: Array<[string, boolean]>) => {
+      for (const [service, secure] of services) {
+        let records: SrvRecord[];
+        try {
+          records = await resolvers.resolveSrv(`${service}._tcp.${domain}`);
+        } catch {
+          continue;
+        }
+
+        // 目标为 "." 表示该域名明确不提供此服务
+        const record = sortSrvRecords(records).find(item => item.name && item.name !== '.');
+        if (record) {
+          return { host: record.name.replace(/\.$/, ''), port: record.port, secure };
+        }
+      }
+      return null;
+    };
+
+    const imap = await findService([['_imaps', true], ['_imap', false]]);
+    if (!imap) return null;
+    const smtp = await findService([['_submissions', true], ['_submission', false]]);
+    if (!smtp) return null;
+
+    return {
+      source: 'srv',
+      providerName: domain,
+      settings: {
+        imapHost: imap.host,
+        imapPort: imap.port,
+        smtpHost: smtp.host,
+        smtpPort: smtp.port,
+        secure: imap.secure,
+        smtpSecure: smtp.secure
+      }
+    };
+  }
+
+  /**
+   * 根据 MX 记录识别托管邮箱服务商（企业邮箱、Google Workspace 等自有域名）
+   */
+  private static async lookupMx(email: string, domain: string, resolvers: DiscoveryResolvers): Promise<DiscoveryResult | null> {
+    const records = await resolvers.resolveMx(domain);
+    const hosts = [...records]
+      .sort((a, b) => a.priority - b.priority)
+      .map(record => record.exchange.toLowerCase().replace(/\.$/, ''));
+
+    for (const host of hosts) {
+      const entry = ISPDB.find(item => item.mxDomains?.some(mxDomain => matchesDomain(host, mxDomain)));
+      if (entry) return MailAutodiscovery.fromIspdb(entry, email, 'mx');
+
+      const preset = ProviderRegistry.list().find(provider => provider.domains.some(presetDomain => matchesDomain(host, presetDomain)));
+      if (preset) return { source: 'mx', providerName: preset.name, settings: { ...preset.settings } };
+    }
+
+    return null;
+  }
+
+  private static fromIspdb(entry: IspdbEntry, email: string, source: DiscoverySource): DiscoveryResult {
+    return {
+      source,
+      providerName: entry.name,
+      settings: { ...entry.settings },
+      username: expandUsername(entry.username, email)
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,345 @@
+/**
+ * 批量发送模块
+ * 按模板为每个收件人生成邮件并逐封发送，任务和每个收件人的结果保存在 ~/.mailmcp/bulk-jobs.json，中断或失败后可以继续发送
+ */
+
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { EmailService, SendEmailOptions } from './email-service.js';
+import { MailMerge, MergeRecord, MergeTemplate } from './mail-merge.js';
+import { SendPolicy, SendPolicyViolation } from './send-policy.js';
+import { JsonFileStore } from './json-file-store.js';
+import { Logger } from './logger.js';
+
+/**
+ * running 为发送中；stopped 为遇到账户级错误（如认证失败、达到每日上限）后暂停，可以继续发送
+ */
+export type BulkJobStatus = 'running' | 'completed' | 'stopped' | 'cancelled';
+
+/**
+ * unknown 为发送过程中进程退出，无法确定是否已发出，继续发送时跳过以免重复
+ */
+export type BulkRecipientStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'unknown';
+
+export interface BulkRecipientResult {
+  index: number;
+  to: string;
+  status: BulkRecipientStatus;
+  messageId?: string;
+  /** SMTP 服务器拒收的地址 */
+  rejected?: boolean;
+  error?: string;
+  sentAt?: string;
+}
+
+export interface BulkSendJob {
+  id: string;
+  account: string;
+  template: MergeTemplate;
+  records: MergeRecord[];
+  results: BulkRecipientResult[];
+  status: BulkJobStatus;
+  createdAt: string;
+  /** 发送过程中每封邮件更新一次，用于判断发送进程是否已退出 */
+  updatedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+interface BulkJobData {
+  jobs: BulkSendJob[];
+}
+
+export class BulkSender {
+  private static readonly store = new JsonFileStore<BulkJobData>(
+    path.join(os.homedir(), '.mailmcp', 'bulk-jobs.json'),
+    () => ({ jobs: [] }),
+    data => Array.isArray((data as BulkJobData | null)?.jobs)
+  );
+  static readonly MAX_RECIPIENTS = 1000;
+  /** 发送中的任务超过该时间没有进展时视为进程已退出 */
+  private static readonly STALE_AFTER = 10 * 60 * 1000;
+  /** 已结束或暂停的任务的保留时间 */
+  private static readonly FINISHED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+  // 本进程中正在发送的任务
+  private static running = new Map<string, Promise<BulkSendJob | null>>();
+
+  /**
+   * 为每条记录生成邮件并检查发送参数和发送策略，全部通过时返回生成的邮件，否则抛出异常并列出出错的记录
+   */
+  static prepare(account: string, template: MergeTemplate, records: MergeRecord[]): SendEmailOptions[] {
+    if (records.length === 0) {
+      throw new Error('At least one recipient record is required');
+    }
+    if (records.length > BulkSender.MAX_RECIPIENTS) {
+      throw new Error(`Too many recipient records: ${records.length} (limit: ${BulkSender.MAX_RECIPIENTS})`);
+    }
+    if (!template.text && !template.html) {
+      throw new Error('Either text or html template is required');
+    }
+
+    const messages: SendEmailOptions[] = [];
+    const errors: string[] = [];
+    let violation: SendPolicyViolation | null = null;
+    for (const [index, record] of records.entries()) {
+      try {
+        const options: SendEmailOptions = MailMerge.render(template, record);
+        EmailService.validateSendOptions(options);
+        SendPolicy.check(account, options);
+        messages.push(options);
+      } catch (error) {
+        if (error instanceof SendPolicyViolation) violation = violation || error;
+        errors.push(`#${index + 1}${typeof record.email === 'string' ? ` (${record.email})` : ''}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      const summary = errors.length > 20 ? [...errors.slice(0, 20), `... and ${errors.length - 20} more`] : errors;
+      const message = `${errors.length} of ${records.length} record(s) cannot be sent:\n${summary.join('\n')}`;
+      // 有记录违反发送策略时整体作为策略错误返回
+      throw violation ? new SendPolicyViolation(violation.rule, message) : new Error(message);
+    }
+    return messages;
+  }
+
+  /**
+   * 保存批量发送任务并在后台开始发送；done 在任务结束或暂停时完成，无法保存结束状态时为 null
+   */
+  static async start(
+    account: string,
+    template: MergeTemplate,
+    records: MergeRecord[]
+  ): Promise<{ job: BulkSendJob; done: Promise<BulkSendJob | null> }> {
+    const messages = BulkSender.prepare(account, template, records);
+
+    const now = new Date().toISOString();
+    const job: BulkSendJob = {
+      id: randomUUID(),
+      account,
+      template,
+      records,
+      results: messages.map((message, index) => ({ index: index + 1, to: String(message.to), status: 'pending' })),
+      status: 'running',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await BulkSender.update(data => data.jobs.push(job));
+    Logger.info(`Bulk send job ${job.id} created for ${account} with ${records.length} recipient(s)`);
+    return { job, done: BulkSender.launch(job.id) };
+  }
+
+  /**
+   * 继续发送任务中待发送和发送失败的邮件（不包括 unknown），任务已在本进程发送时返回正在进行的发送
+   */
+  static async resume(id: string): Promise<{ job: BulkSendJob; done: Promise<BulkSendJob | null> }> {
+    const current = BulkSender.running.get(id);
+    if (current) {
+      return { job: (await BulkSender.get(id))!, done: current };
+    }
+
+    const job = await BulkSender.update(data => {
+      const stored = BulkSender.findJob(data, id);
+      if (stored.status === 'running') {
+        throw new Error(`Bulk send job ${id} is being sent by another process`);
+      }
+      if (stored.status === 'cancelled') {
+        throw new Error(`Bulk send job ${id} was cancelled`);
+      }
+      if (!stored.results.some(result => result.status === 'pending' || result.status === 'failed')) {
+        throw new Error(`Bulk send job ${id} has no pending or failed recipients`);
+      }
+      stored.status = 'running';
+      stored.updatedAt = new Date().toISOString();
+      delete stored.error;
+      delete stored.finishedAt;
+      return { ...stored };
+    });
+
+    Logger.info(`Resuming bulk send job ${id}`);
+    return { job, done: BulkSender.launch(id) };
+  }
+
+  /**
+   * 取消任务，正在发送的邮件发完后停止
+   */
+  static async cancel(id: string): Promise<BulkSendJob> {
+    return BulkSender.update(data => {
+      const job = BulkSender.findJob(data, id);
+      if (job.status === 'completed' || job.status === 'cancelled') {
+        throw new Error(`Bulk send job ${id} is already ${job.status}`);
+      }
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+      return { ...job };
+    });
+  }
+
+  /**
+   * 获取任务
+   */
+  static async get(id: string): Promise<BulkSendJob | null> {
+    const { jobs } = await BulkSender.store.read();
+    const job = jobs.find(item => item.id === id);
+    return job ? BulkSender.withStaleCheck(job) : null;
+  }
+
+  /**
+   * 列出任务（从新到旧）
+   */
+  static async list(account?: string): Promise<BulkSendJob[]> {
+    const { jobs } = await BulkSender.store.read();
+    return jobs
+      .filter(job => !account || job.account === account)
+      .map(BulkSender.withStaleCheck)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private static launch(id: string): Promise<BulkSendJob | null> {
+    const run = BulkSender.run(id)
+      .catch(async error => {
+        Logger.error(`Bulk send job ${id} stopped unexpectedly`, error);
+        return BulkSender.finish(id, error instanceof Error ? error.message : String(error));
+      })
+      .catch(error => {
+        // 结束状态也无法保存时（如任务文件不可写）只记录日志，任务会在超时后显示为中断
+        Logger.error(`Failed to save the final state of bulk send job ${id}`, error);
+        return null;
+      })
+      .finally(() => BulkSender.running.delete(id));
+    BulkSender.running.set(id, run);
+    return run;
+  }
+
+  /**
+   * 逐封发送，每封邮件发送前后都保存状态；速率由账户的 SMTP 连接池限制
+   */
+  private static async run(id: string): Promise<BulkSendJob> {
+    const job = await BulkSender.get(id);
+    if (!job) {
+      throw new Error(`Bulk send job not found: ${id}`);
+    }
+    const emailService = await EmailService.createFromAccount(job.account);
+
+    for (const result of job.results) {
+      if (result.status !== 'pending' && result.status !== 'failed') continue;
+
+      const proceed = await BulkSender.update(data => {
+        const stored = BulkSender.findJob(data, id);
+        if (stored.status !== 'running') return false;
+        stored.results[result.index - 1]!.status = 'sending';
+        stored.updatedAt = new Date().toISOString();
+        return true;
+      });
+      if (!proceed) {
+        Logger.info(`Bulk send job ${id} was cancelled`);
+        return (await BulkSender.get(id))!;
+      }
+
+      const outcome: Partial<BulkRecipientResult> = {};
+      let stopReason: string | null = null;
+      try {
+        const options: SendEmailOptions = MailMerge.render(job.template, job.records[result.index - 1]!);
+        const sent = await emailService.sendEmail(options);
+        outcome.status = 'sent';
+        outcome.messageId = sent.messageId;
+        outcome.sentAt = new Date().toISOString();
+        if (sent.recipients.every(recipient => recipient.status === 'rejected')) {
+          outcome.rejected = true;
+          outcome.error = sent.recipients[0]?.error || 'Rejected by the SMTP server';
+        }
+      } catch (error) {
+        outcome.status = 'failed';
+        outcome.error = error instanceof Error ? error.message : String(error);
+        // 达到每日上限或认证失败时后续邮件也会失败，暂停任务
+        if (BulkSender.isAccountError(error)) {
+          stopReason = outcome.error;
+        }
+        Logger.warn(`Bulk send job ${id}: failed to send to ${result.to}`, error);
+      }
+
+      await BulkSender.update(data => {
+        const stored = BulkSender.findJob(data, id);
+        const entry = stored.results[result.index - 1]!;
+        delete entry.error;
+        delete entry.rejected;
+        Object.assign(entry, outcome);
+        stored.updatedAt = new Date().toISOString();
+      });
+
+      if (stopReason) {
+        return BulkSender.finish(id, stopReason);
+      }
+    }
+
+    return BulkSender.finish(id);
+  }
+
+  /**
+   * 结束发送：所有收件人都已处理时为 completed（发送失败的收件人仍可重试），中途停止时为 stopped
+   */
+  private static async finish(id: string, error?: string): Promise<BulkSendJob> {
+    return BulkSender.update(data => {
+      const job = BulkSender.findJob(data, id);
+      if (job.status === 'running') {
+        const remaining = job.results.some(result => result.status === 'pending' || result.status === 'sending');
+        job.status = error || remaining ? 'stopped' : 'completed';
+        if (error) job.error = error;
+        job.finishedAt = new Date().toISOString();
+      }
+      Logger.info(`Bulk send job ${id} ${job.status}`);
+      return { ...job };
+    });
+  }
+
+  private static isAccountError(error: unknown): boolean {
+    if (error instanceof SendPolicyViolation) {
+      return error.rule === 'daily-limit';
+    }
+    const message = error instanceof Error ? error.message : '';
+    return /Authentication failed|Invalid credentials|OAuth token|No account configured/.test(message) ||
+      (error as { code?: string } | null)?.code === 'EAUTH';
+  }
+
+  /**
+   * 发送中的任务长时间没有进展时，说明发送进程已退出：正在发送的邮件标记为 unknown，任务暂停
+   */
+  private static withStaleCheck(job: BulkSendJob): BulkSendJob {
+    if (job.status !== 'running' || BulkSender.running.has(job.id) ||
+      Date.parse(job.updatedAt) > Date.now() - BulkSender.STALE_AFTER) {
+      return job;
+    }
+
+    return {
+      ...job,
+      status: 'stopped',
+      error: 'Sending was interrupted',
+      results: job.results.map(result => result.status === 'sending'
+        ? { ...result, status: 'unknown', error: 'Interrupted while sending; the email may have been delivered' }
+        : result)
+    };
+  }
+
+  private static findJob(data: BulkJobData, id: string): BulkSendJob {
+    const index = data.jobs.findIndex(job => job.id === id);
+    if (index === -1) {
+      throw new Error(`Bulk send job not found: ${id}`);
+    }
+    data.jobs[index] = BulkSender.withStaleCheck(data.jobs[index]!);
+    return data.jobs[index]!;
+  }
+
+  /**
+   * 修改任务，同时清理较早的已结束任务
+   */
+  private static async update<T>(mutate: (data: BulkJobData) => T): Promise<T> {
+    return BulkSender.store.update(data => {
+      const result = mutate(data);
+
+      const cutoff = Date.now() - BulkSender.FINISHED_RETENTION;
+      data.jobs = data.jobs.filter(job => job.status === 'running' || Date.parse(job.finishedAt || job.updatedAt) > cutoff);
+      return result;
+    });
+  }
+}
\ No newline at end of file
@@ -2,6 +2,9 @@
  * 配置管理模块
  */
 
+import path from 'path';
+import os from 'os';
+
 export interface ServerConfig {
   transport: string;
   port: number;
@@ -16,6 +19,77 @@ export interface GoogleOAuthConfig {
   redirectUri?: string;
 }
 
+export interface AttachmentConfig {
+  downloadDir: string;
+  maxSize: number;
+}
+
+export interface OutgoingAttachmentConfig {
+  /** 允许作为附件发送的本地目录 */
+  allowedRoots: string[];
+  /** 单封邮件附件总大小上限（字节） */
+  maxTotalSize: number;
+  /** 禁止发送的扩展名（含点）和 MIME 类型 */
+  blockedTypes: string[];
+}
+
+export interface SentMailConfig {
+  /** auto：服务商不会自动保存时才保存；always：总是保存；never：不保存 */
+  saveCopy: 'auto' | 'always' | 'never';
+}
+
+export interface SendApprovalConfig {
+  /** 开启后发送邮件前必须经过人工确认 */
+  required: boolean;
+  /** 待确认邮件的有效期（毫秒），过期后不能再批准 */
+  expiresIn: number;
+}
+
+export interface SendPolicyConfig {
+  /** 允许的收件人地址和域名（含子域名），为空时不限制 */
+  allowedRecipients: string[];
+  /** 禁止的收件人地址和域名，优先于允许列表 */
+  blockedRecipients: string[];
+  /** 单封邮件收件人（to、cc、bcc）总数上限，0 表示不限制 */
+  maxRecipients: number;
+  /** 账户必须使用的主题前缀（满足其一即可），键为小写邮箱地址，* 为默认 */
+  subjectPrefixes: Record<string, string[]>;
+  /** 每个账户每天最多发送的邮件数，0 表示不限制 */
+  dailyLimit: number;
+}
+
+export interface OutboxConfig {
+  enabled: boolean;
+  /** 检查到期邮件的间隔（毫秒） */
+  pollInterval: number;
+  /** 临时性错误的最多发送次数 */
+  maxAttempts: number;
+}
+
+export interface WatcherConfig {
+  enabled: boolean;
+  folder: string;
+  syncInterval: number;
+}
+
+export interface ImapPoolConfig {
+  maxConnections: number;
+  idleTimeout: number;
+  acquireTimeout: number;
+}
+
+export interface SmtpPoolConfig {
+  maxConnections: number;
+  /** 每个账户每分钟最多发送的邮件数，0 表示不限制 */
+  rateLimit: number;
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  cacheDir: string;
+  maxMessagesPerFolder: number;
+}
+
 export class Config {
   private static readonly DEFAULT_CONFIG: ServerConfig = {
     transport: 'stdio',
@@ -44,6 +118,129 @@ export class Config {
     };
   }
 
+  static getAttachmentConfig(): AttachmentConfig {
+    const maxSize = parseInt(process.env.MAILMCP_MAX_ATTACHMENT_SIZE || '');
+
+    return {
+      downloadDir: process.env.MAILMCP_DOWNLOAD_DIR || path.join(os.homedir(), '.mailmcp', 'downloads'),
+      maxSize: Number.isFinite(maxSize) && maxSize > 0 ? maxSize : 10 * 1024 * 1024
+    };
+  }
+
+  static getOutgoingAttachmentConfig(): OutgoingAttachmentConfig {
+    const maxTotalSize = parseInt(process.env.MAILMCP_SEND_MAX_ATTACHMENT_SIZE || '');
+    const roots = (process.env.MAILMCP_ATTACHMENT_ROOTS || '').split(path.delimiter).filter(Boolean);
+    const blockedTypes = process.env.MAILMCP_BLOCKED_ATTACHMENT_TYPES !== undefined
+      ? process.env.MAILMCP_BLOCKED_ATTACHMENT_TYPES.split(',')
+      : [
+        '.exe', '.com', '.bat', '.cmd', '.scr', '.pif', '.msi', '.vbs', '.js', '.jse', '.wsf', '.ps1', '.jar', '.lnk',
+        'application/x-msdownload', 'application/x-msdos-program', 'application/x-ms-installer', 'application/java-archive'
+      ];
+
+    return {
+      allowedRoots: roots.length > 0 ? roots.map(root => path.resolve(root)) : [this.getAttachmentConfig().downloadDir],
+      maxTotalSize: Number.isFinite(maxTotalSize) && maxTotalSize > 0 ? maxTotalSize : 25 * 1024 * 1024,
+      blockedTypes: blockedTypes.map(type => type.trim().toLowerCase()).filter(Boolean)
+    };
+  }
+
+  static getSentMailConfig(): SentMailConfig {
+    const saveCopy = (process.env.MAILMCP_SAVE_SENT || '').toLowerCase();
+
+    return {
+      saveCopy: saveCopy === 'true' || saveCopy === 'always' ? 'always'
+        : saveCopy === 'false' || saveCopy === 'never' ? 'never'
+          : 'auto'
+    };
+  }
+
+  static getSendApprovalConfig(): SendApprovalConfig {
+    const expiresIn = parseInt(process.env.MAILMCP_APPROVAL_EXPIRES || '');
+
+    return {
+      required: process.env.MAILMCP_SEND_APPROVAL === 'true',
+      expiresIn: Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn * 60 * 1000 : 24 * 60 * 60 * 1000
+    };
+  }
+
+  static getSendPolicyConfig(): SendPolicyConfig {
+    const maxRecipients = parseInt(process.env.MAILMCP_MAX_RECIPIENTS || '');
+    const dailyLimit = parseInt(process.env.MAILMCP_DAILY_SEND_LIMIT || '');
+    const list = (value: string | undefined) => (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+
+    // 格式：[EXT] 或 work@example.com=[EXT]|[Internal];other@example.com=[Team]，不带账户的条目作为默认
+    const subjectPrefixes: Record<string, string[]> = {};
+    for (const entry of (process.env.MAILMCP_SUBJECT_PREFIX || '').split(';')) {
+      const separator = entry.indexOf('=');
+      const hasAccount = separator > 0 && entry.slice(0, separator).includes('@');
+      const account = hasAccount ? entry.slice(0, separator).trim().toLowerCase() : '*';
+      const prefixes = (hasAccount ? entry.slice(separator + 1) : entry).split('|').map(prefix => prefix.trim()).filter(Boolean);
+      if (prefixes.length > 0) {
+        subjectPrefixes[account] = prefixes;
+      }
+    }
+
+    return {
+      allowedRecipients: list(process.env.MAILMCP_ALLOWED_RECIPIENTS),
+      blockedRecipients: list(process.env.MAILMCP_BLOCKED_RECIPIENTS),
+      maxRecipients: Number.isFinite(maxRecipients) && maxRecipients > 0 ? maxRecipients : 0,
+      subjectPrefixes,
+      dailyLimit: Number.isFinite(dailyLimit) && dailyLimit > 0 ? dailyLimit : 0
+    };
+  }
+
+  static getOutboxConfig(): OutboxConfig {
+    const pollInterval = parseInt(process.env.MAILMCP_OUTBOX_POLL_INTERVAL || '');
+    const maxAttempts = parseInt(process.env.MAILMCP_OUTBOX_MAX_ATTEMPTS || '');
+
+    return {
+      enabled: process.env.MAILMCP_OUTBOX !== 'false',
+      pollInterval: Number.isFinite(pollInterval) && pollInterval > 0 ? pollInterval * 1000 : 30 * 1000,
+      maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : 5
+    };
+  }
+
+  static getWatcherConfig(): WatcherConfig {
+    const syncInterval = parseInt(process.env.MAILMCP_WATCH_SYNC_INTERVAL || '');
+
+    return {
+      enabled: process.env.MAILMCP_WATCH !== 'false',
+      folder: process.env.MAILMCP_WATCH_FOLDER || 'INBOX',
+      syncInterval: Number.isFinite(syncInterval) && syncInterval > 0 ? syncInterval * 1000 : 60 * 1000
+    };
+  }
+
+  static getImapPoolConfig(): ImapPoolConfig {
+    const maxConnections = parseInt(process.env.MAILMCP_IMAP_MAX_CONNECTIONS || '');
+    const idleTimeout = parseInt(process.env.MAILMCP_IMAP_IDLE_TIMEOUT || '');
+
+    return {
+      maxConnections: Number.isFinite(maxConnections) && maxConnections > 0 ? maxConnections : 3,
+      idleTimeout: Number.isFinite(idleTimeout) && idleTimeout > 0 ? idleTimeout * 1000 : 5 * 60 * 1000,
+      acquireTimeout: 60 * 1000
+    };
+  }
+
+  static getSmtpPoolConfig(): SmtpPoolConfig {
+    const maxConnections = parseInt(process.env.MAILMCP_SMTP_MAX_CONNECTIONS || '');
+    const rateLimit = parseInt(process.env.MAILMCP_SMTP_RATE_LIMIT || '');
+
+    return {
+      maxConnections: Number.isFinite(maxConnections) && maxConnections > 0 ? maxConnections : 2,
+      rateLimit: Number.isFinite(rateLimit) && rateLimit >= 0 ? rateLimit : 30
+    };
+  }
+
+  static getCacheConfig(): CacheConfig {
+    const maxMessages = parseInt(process.env.MAILMCP_CACHE_MAX_MESSAGES || '');
+
+    return {
+      enabled: process.env.MAILMCP_CACHE !== 'false',
+      cacheDir: process.env.MAILMCP_CACHE_DIR || path.join(os.homedir(), '.mailmcp', 'cache'),
+      maxMessagesPerFolder: Number.isFinite(maxMessages) && maxMessages > 0 ? maxMessages : 5000
+    };
+  }
+
   static getAvailableTransports(): string[] {
     return ['stdio', 'http-sse', 'streamable-http', 'backward-compatible'];
   }
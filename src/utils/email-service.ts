@@ -3,12 +3,24 @@
  * 实现IMAP连接和邮件操作功能
  */
 
-import { ImapFlow } from 'imapflow';
-import { simpleParser } from 'mailparser';
+import { ImapFlow, FetchMessageObject, MessageStructureObject, SearchObject } from 'imapflow';
+import { simpleParser, AddressObject } from 'mailparser';
 import { htmlToText } from 'html-to-text';
 import nodemailer from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import { createHash } from 'crypto';
 import { EmailAccount, EmailStorage } from './storage.js';
 import { Logger } from './logger.js';
+import { ThreadAssembler } from './thread-assembler.js';
+import { ImapConnectionPool, ImapLease } from './imap-pool.js';
+import { MessageCache, CachedFolder } from './message-cache.js';
+import { ProviderRegistry } from './providers.js';
+import { AttachmentTextPipeline, AttachmentTextResult } from './attachment-extractor.js';
+import { ReplyBuilder, ReplyMode, ReplyOptions, OriginalMessage, MailAddress } from './reply-builder.js';
+import { OutgoingAttachments, OutgoingAttachment } from './outgoing-attachments.js';
+import { SendPolicy } from './send-policy.js';
+import { SmtpTransportPool } from './smtp-pool.js';
 import { Config } from './config.js';
 import * as cheerio from 'cheerio';
 import { GMAIL_TOKEN_REFRESH_ENDPOINT } from './constants.js';
@@ -23,33 +35,158 @@ export interface EmailMessage {
   body: string;
   flags: string[];
   size: number;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  threadId?: string;
   attachments?: EmailAttachment[];
 }
 
+/**
+ * 会话中的单封邮件
+ */
+export interface ThreadMessage extends EmailMessage {
+  folder: string;
+  text: string;
+}
+
 export interface EmailAttachment {
+  part?: string;
   filename: string;
   contentType: string;
   size: number;
   data: Buffer;
 }
 
+/**
+ * 邮件搜索条件，会被转换为服务端 IMAP SEARCH
+ */
+export interface EmailSearchCriteria {
+  from?: string;
+  to?: string;
+  subject?: string;
+  body?: string;
+  since?: Date;
+  before?: Date;
+  unseen?: boolean;
+  flagged?: boolean;
+  hasAttachment?: boolean;
+  largerThan?: number;
+}
+
+/**
+ * 分页查询结果
+ */
+export interface EmailPage {
+  emails: EmailMessage[];
+  folder: string;
+  nextCursor?: string;
+}
+
+/**
+ * 分页游标内容
+ */
+interface EmailCursorPosition {
+  folder: string;
+  uidValidity: string;
+  beforeUid: number;
+  criteriaHash: string;
+}
+
+/**
+ * 邮箱文件夹信息（来自 IMAP LIST/STATUS）
+ */
+export interface EmailFolder {
+  path: string;
+  name: string;
+  delimiter: string;
+  specialUse?: string;
+  messages: number;
+  unseen: number;
+}
+
+/**
+ * 移动/复制/归档/删除操作的结果
+ */
+export interface EmailOrganizeResult {
+  action: 'move' | 'copy' | 'archive' | 'trash' | 'expunge';
+  folder: string;
+  destination?: string;
+  uids: number[];
+  uidMap: Map<number, number>;
+}
+
+/**
+ * 收件人：单个字符串（可用逗号分隔多个）或数组，支持 "Alice <a@x.com>" 形式的显示名称
+ */
+export type RecipientList = string | string[];
+
 export interface SendEmailOptions {
-  to: string;
+  to: RecipientList;
+  cc?: RecipientList;
+  bcc?: RecipientList;
+  replyTo?: RecipientList;
   subject: string;
   text?: string;
   html?: string;
-  attachments?: {
-    filename: string;
-    content: Buffer;
-    contentType: string;
-  }[];
+  /** 自定义头部，不能覆盖 From/To/Subject 等核心头部 */
+  headers?: Record<string, string>;
+  priority?: 'high' | 'normal' | 'low';
+  /** 回复时引用的 Message-ID */
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: OutgoingAttachment[];
+}
+
+/**
+ * 单个收件人的投递结果（SMTP 服务器是否接受）
+ */
+export interface RecipientResult {
+  address: string;
+  status: 'accepted' | 'rejected' | 'pending';
+  error?: string;
 }
 
+export interface SendEmailResult {
+  messageId: string;
+  /** SMTP 服务器的最终响应 */
+  response: string;
+  recipients: RecipientResult[];
+  /** 保存到“已发送”文件夹的副本，服务商自动保存或未开启保存时为空 */
+  sentCopy?: { folder: string; uid: number | null };
+  /** 保存副本失败的原因，不影响发送结果 */
+  sentCopyError?: string;
+}
 
+/**
+ * 草稿保存结果，服务器不返回 UID 且按 Message-ID 也查不到时 uid 为 null
+ */
+export interface DraftSaveResult {
+  folder: string;
+  uid: number | null;
+  messageId: string;
+}
+
+/**
+ * 删除草稿的方式：支持 UIDPLUS 时永久删除，否则用 MOVE 移到废纸篓
+ */
+export type DraftRemoval = { method: 'expunge' } | { method: 'trash'; trashFolder: string };
+
+/**
+ * 草稿内容，options 可直接用于发送
+ */
+export interface EmailDraft {
+  uid: number;
+  folder: string;
+  messageId?: string;
+  date: Date;
+  options: SendEmailOptions;
+}
 
 export class EmailService {
+  private static readonly TRASH_FOLDER_NAMES = ['Trash', 'Deleted Messages', 'Deleted Items', '已删除'];
+
   private imapFlow: ImapFlow | null = null;
-  private transporter: nodemailer.Transporter | null = null;
   private account: EmailAccount | null = null;
 
   constructor(account: EmailAccount) {
@@ -57,15 +194,29 @@ export class EmailService {
   }
 
   /**
-   * 连接到IMAP服务器
+   * 获取当前账户的邮箱地址
+   */
+  getAccountEmail(): string {
+    return this.account?.email || '';
+  }
+
+  /**
+   * 连接到IMAP服务器（独占连接，用于 IDLE 监听等长时间占用邮箱的场景）
    */
   async connectImap(): Promise<void> {
+    this.imapFlow = await this.createImapClient();
+  }
+
+  /**
+   * 创建并登录一个新的 ImapFlow 连接
+   */
+  private async createImapClient(): Promise<ImapFlow> {
     if (!this.account) {
       throw new Error('No account configured');
     }
 
     // Check if token is expired for OAuth accounts
-    if (this.account.provider === 'Gmail' && this.account.accessToken) {
+    if (this.account.accessToken) {
       const isTokenValid = await this.checkAndRefreshToken();
       if (!isTokenValid) {
         throw new Error('OAuth token expired and refresh failed. Please re-authenticate.');
@@ -76,7 +227,7 @@ export class EmailService {
       Logger.info('ImapFlow connection started');
       
       // 构建认证配置
-      const auth = this.account.provider === 'Gmail' && this.account.accessToken
+      const auth = this.account.accessToken
         ? { 
             user: this.account.username, 
             accessToken: this.account.accessToken
@@ -92,16 +243,19 @@ export class EmailService {
         secure: this.account.secure,
         auth,
         logger: false as const,
+        // 服务器支持时启用 QRESYNC，用于增量同步本地缓存
+        qresync: true,
         tls: {
           rejectUnauthorized: false,
           servername: this.account.imapHost
         }
       };
 
-      this.imapFlow = new ImapFlow(config);
+      const client = new ImapFlow(config);
       
-      await this.imapFlow.connect();
+      await client.connect();
       Logger.info(`ImapFlow connected for ${this.account.email}`);
+      return client;
       
     } catch (error) {
       Logger.error('ImapFlow connection error', error);
@@ -113,8 +267,8 @@ export class EmailService {
         
         // Check for common authentication errors
         if (error.message.includes('Invalid credentials') || error.message.includes('authentication')) {
-          if (this.account.provider === 'Gmail') {
-            detailedError += '. Gmail OAuth token may be expired. Please re-authenticate.';
+          if (this.account.accessToken) {
+            detailedError += '. OAuth token may be expired. Please re-authenticate.';
           } else {
             detailedError += '. Please check your email and password/authorization code.';
           }
@@ -131,80 +285,858 @@ export class EmailService {
    */
   async disconnectImap(): Promise<void> {
     if (this.imapFlow) {
-      await this.imapFlow.logout();
+      const client = this.imapFlow;
       this.imapFlow = null;
+      await this.safeLogout(client);
     }
   }
 
   /**
-   * 打开邮箱
+   * 从连接池租用该账户的一个连接
    */
-  private async openBox(boxName: string = 'INBOX') {
-    if (!this.imapFlow) {
-      await this.connectImap();
+  private async acquireImap(): Promise<ImapLease> {
+    if (!this.account) {
+      throw new Error('No account configured');
+    }
+    return ImapConnectionPool.acquire(this.account.email, () => this.createImapClient());
+  }
+
+  /**
+   * 使用连接池中的连接执行不需要选中邮箱的操作（LIST、CREATE 等）
+   */
+  private async withImap<T>(operation: (client: ImapFlow) => Promise<T>): Promise<T> {
+    const lease = await this.acquireImap();
+    try {
+      return await operation(lease.client);
+    } finally {
+      lease.release();
+    }
+  }
+
+  /**
+   * 打开邮箱：从连接池租用连接并获取邮箱锁，release 时同时释放锁和归还连接
+   */
+  private async openBox(boxName: string = 'INBOX'): Promise<ImapLease> {
+    const lease = await this.acquireImap();
+
+    try {
+      const lock = await lease.client.getMailboxLock(boxName);
+      return {
+        client: lease.client,
+        release: (discard?: boolean) => {
+          lock.release();
+          lease.release(discard);
+        }
+      };
+    } catch (error) {
+      lease.release();
+      throw error;
     }
-    
-    const lock = await this.imapFlow!.getMailboxLock(boxName);
-    return lock;
   }
 
   /**
    * 获取邮件列表
+   * 提供搜索条件时使用 IMAP SEARCH 在服务端过滤，否则返回最新的 count 封邮件
+   */
+  async getEmails(count: number = 5, criteria?: EmailSearchCriteria, folder: string = 'INBOX'): Promise<EmailMessage[]> {
+    const page = await this.getEmailPage(count, criteria, folder);
+    return page.emails;
+  }
+
+  /**
+   * 分页获取邮件列表（从新到旧）
+   * 游标记录 UIDVALIDITY 和上一页最小的 UID，新邮件到达不会影响后续页的结果
    */
-  async getEmails(count: number = 5): Promise<EmailMessage[]> {
-    const lock = await this.openBox();
+  async getEmailPage(
+    pageSize: number = 5,
+    criteria?: EmailSearchCriteria,
+    folder: string = 'INBOX',
+    cursor?: string
+  ): Promise<EmailPage> {
+    const lock = await this.openBox(folder);
     
     try {
-      const status = await this.imapFlow!.status('INBOX', { messages: true });
-      const totalMessages = status.messages || 0;
-      
-      if (totalMessages === 0) {
-        return [];
+      const mailbox = lock.client.mailbox;
+      if (!mailbox) {
+        throw new Error(`Failed to open folder: ${folder}`);
+      }
+
+      const uidValidity = String(mailbox.uidValidity);
+      const criteriaHash = EmailService.hashCriteria(criteria);
+      const searchQuery: SearchObject = criteria && EmailService.hasSearchCriteria(criteria)
+        ? EmailService.buildSearchQuery(criteria)
+        : {};
+      // 没有服务端条件时（如只有 hasAttachment: false）不使用 SEARCH ALL，下面按序号从新到旧读取
+      delete searchQuery.all;
+      const attachmentFilter = criteria?.hasAttachment;
+      let hasOlderMessages = false;
+
+      if (cursor) {
+        const position = EmailService.decodeCursor(cursor);
+        if (position.folder !== folder) {
+          throw new Error(`Invalid cursor: it belongs to folder "${position.folder}", not "${folder}"`);
+        }
+        if (position.uidValidity !== uidValidity) {
+          throw new Error('Cursor expired: folder UIDVALIDITY changed. Please restart from the first page.');
+        }
+        if (position.criteriaHash !== criteriaHash) {
+          throw new Error('Invalid cursor: search criteria changed. Please restart from the first page.');
+        }
+        if (position.beforeUid <= 1) {
+          return { emails: [], folder };
+        }
+        searchQuery.uid = `1:${position.beforeUid - 1}`;
+      } else if (Object.keys(searchQuery).length === 0) {
+        // 无条件的首页只需要最后 pageSize 个序号，避免 SEARCH ALL 返回整个邮箱
+        if (mailbox.exists === 0) {
+          return { emails: [], folder };
+        }
+        if (attachmentFilter === undefined) {
+          searchQuery.seq = `${Math.max(1, mailbox.exists - pageSize + 1)}:*`;
+          hasOlderMessages = mailbox.exists > pageSize;
+        }
       }
 
-      const start = Math.max(1, totalMessages - count + 1);
-      const end = totalMessages;
+      let pageUids: number[];
+      let hasMore: boolean;
+      let beforeUid: number;
+      if (attachmentFilter !== undefined) {
+        // IMAP SEARCH 无法判断附件，先根据 bodyStructure 筛选，凑满一页后再读取邮件
+        ({ pageUids, hasMore, beforeUid } = await this.findAttachmentPage(
+          lock.client, searchQuery, mailbox.exists, pageSize, attachmentFilter
+        ));
+        if (pageUids.length === 0) {
+          return { emails: [], folder };
+        }
+      } else {
+        Logger.info(`IMAP SEARCH: ${JSON.stringify(searchQuery)}`);
+        const uids = await lock.client.search(searchQuery, { uid: true });
+        if (!uids || uids.length === 0) {
+          return { emails: [], folder };
+        }
+
+        // UID 递增，取最后 pageSize 个即为当前页
+        const sortedUids = uids.sort((a, b) => a - b);
+        pageUids = sortedUids.slice(-pageSize);
+        hasMore = hasOlderMessages || sortedUids.length > pageUids.length;
+        beforeUid = pageUids[0]!;
+      }
 
       const messages: EmailMessage[] = [];
+
+      // 已缓存的邮件只同步标记变化，其余邮件再从服务器下载
+      const cache = await this.syncCache(lock.client, folder, pageUids);
+      const missingUids = cache ? pageUids.filter(pageUid => !cache.messages[pageUid]) : pageUids;
+
+      if (cache) {
+        for (const pageUid of pageUids) {
+          const cached = cache.messages[pageUid];
+          if (cached) {
+            messages.push(MessageCache.toEmailMessage(cached));
+          }
+        }
+        if (missingUids.length < pageUids.length) {
+          Logger.info(`Served ${pageUids.length - missingUids.length} emails from cache`);
+        }
+      }
+
+      if (missingUids.length > 0) {
+        // 使用ImapFlow获取邮件
+        const fetchResults = lock.client.fetch(missingUids, {
+          envelope: true,
+          flags: true,
+          size: true,
+          uid: true,
+          threadId: true,
+          headers: ['references'],
+          bodyStructure: true,
+          bodyParts: ['TEXT', 'HEADER']
+        }, { uid: true });
+
+        for await (const message of fetchResults) {
+          const emailMessage = this.toEmailMessage(message);
+          if (cache) {
+            cache.messages[message.uid] = MessageCache.toCachedMessage(
+              emailMessage,
+              this.parseAttachmentsFromStructure(message.bodyStructure)
+            );
+          }
+          messages.push(emailMessage);
+        }
+      }
+
+      if (cache) {
+        await MessageCache.save(this.account!.email, folder, cache);
+      }
+
+      // 按 UID 排序，最新的在前，保证分页顺序稳定
+      messages.sort((a, b) => b.uid - a.uid);
+
+      const page: EmailPage = { emails: messages, folder };
+      if (hasMore) {
+        page.nextCursor = EmailService.encodeCursor({
+          folder,
+          uidValidity,
+          beforeUid,
+          criteriaHash
+        });
+      }
+      return page;
       
-      // 使用ImapFlow获取邮件
-      const fetchResults = this.imapFlow!.fetch(`${start}:${end}`, {
-        envelope: true,
-        flags: true,
-        size: true,
-        uid: true,
-        bodyStructure: true,
-        bodyParts: ['TEXT', 'HEADER']
+    } catch (error) {
+      Logger.error('Error fetching emails with ImapFlow', error);
+      throw error;
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 从新到旧分批检查候选邮件的 bodyStructure，直到找到 pageSize 封附件情况符合要求的邮件
+   * 有搜索条件时候选为 SEARCH 结果，否则按序号从邮箱末尾分批读取；beforeUid 为最后检查的 UID，下一页从它之前继续
+   * 调用方需已持有该文件夹的邮箱锁
+   */
+  private async findAttachmentPage(
+    client: ImapFlow,
+    searchQuery: SearchObject,
+    exists: number,
+    pageSize: number,
+    hasAttachment: boolean
+  ): Promise<{ pageUids: number[]; hasMore: boolean; beforeUid: number }> {
+    const batchSize = Math.max(pageSize * 2, 20);
+    let candidates: number[] | null = null;
+    if (Object.keys(searchQuery).length > 0) {
+      Logger.info(`IMAP SEARCH: ${JSON.stringify(searchQuery)}`);
+      candidates = ((await client.search(searchQuery, { uid: true })) || []).sort((a, b) => a - b);
+    }
+    let seqEnd = exists;
+
+    const matches: number[] = [];
+    let beforeUid = 0;
+    for (;;) {
+      let range: string;
+      if (candidates) {
+        if (candidates.length === 0) break;
+        range = candidates.splice(-batchSize).join(',');
+      } else {
+        if (seqEnd < 1) break;
+        const seqStart = Math.max(1, seqEnd - batchSize + 1);
+        range = `${seqStart}:${seqEnd}`;
+        seqEnd = seqStart - 1;
+      }
+
+      const batch: { uid: number; matches: boolean }[] = [];
+      for await (const message of client.fetch(range, { uid: true, bodyStructure: true }, { uid: candidates !== null })) {
+        batch.push({ uid: message.uid, matches: (this.parseAttachmentsFromStructure(message.bodyStructure).length > 0) === hasAttachment });
+      }
+      batch.sort((a, b) => b.uid - a.uid);
+
+      for (const [index, item] of batch.entries()) {
+        beforeUid = item.uid;
+        if (item.matches) matches.push(item.uid);
+        if (matches.length === pageSize) {
+          const sourceLeft = candidates ? candidates.length > 0 : seqEnd >= 1;
+          return { pageUids: matches.reverse(), hasMore: sourceLeft || index < batch.length - 1, beforeUid };
+        }
+      }
+    }
+
+    return { pageUids: matches.reverse(), hasMore: false, beforeUid };
+  }
+
+  /**
+   * 把文件夹中最近的 count 封邮件（信封和解析后的正文）写入本地缓存，供离线全文检索使用
+   * 超过附件大小上限的邮件只缓存信封，返回本次新下载正文的邮件数
+   */
+  async cacheRecentEmails(folder: string = 'INBOX', count: number = 200): Promise<number> {
+    if (!Config.getCacheConfig().enabled) {
+      throw new Error('Local message cache is disabled (MAILMCP_CACHE=false)');
+    }
+
+    const lock = await this.openBox(folder);
+
+    try {
+      const mailbox = lock.client.mailbox;
+      if (!mailbox || mailbox.exists === 0) {
+        return 0;
+      }
+
+      const uids = await lock.client.search({ seq: `${Math.max(1, mailbox.exists - count + 1)}:*` }, { uid: true }) || [];
+      const cache = await this.syncCache(lock.client, folder, uids);
+      if (!cache) {
+        return 0;
+      }
+
+      // 先获取缺少的信封，再只下载大小合适的邮件源码
+      const missingUids = uids.filter(uid => !cache.messages[uid]);
+      if (missingUids.length > 0) {
+        for await (const message of lock.client.fetch(missingUids, {
+          envelope: true,
+          flags: true,
+          size: true,
+          uid: true,
+          threadId: true,
+          headers: ['references'],
+          bodyStructure: true
+        }, { uid: true })) {
+          cache.messages[message.uid] = MessageCache.toCachedMessage(
+            this.toEmailMessage(message),
+            this.parseAttachmentsFromStructure(message.bodyStructure)
+          );
+        }
+      }
+
+      const maxSize = Config.getAttachmentConfig().maxSize;
+      const textUids = uids.filter(uid => {
+        const cached = cache.messages[uid];
+        return cached && cached.text === undefined && cached.size <= maxSize;
       });
 
-      for await (const message of fetchResults) {
-        const emailMessage: EmailMessage = {
-          uid: message.uid,
-          seqno: message.seq,
-          from: message.envelope?.from?.[0]?.address || '',
-          to: message.envelope?.to?.[0]?.address || '',
-          subject: message.envelope?.subject || '',
-          date: message.envelope?.date || new Date(),
-          body: this.extractBodyFromParts(message.bodyParts),
-          flags: Array.from(message.flags || []),
-          size: message.size || 0
+      let downloaded = 0;
+      if (textUids.length > 0) {
+        for await (const message of lock.client.fetch(textUids, { uid: true, source: true }, { uid: true })) {
+          const cached = cache.messages[message.uid];
+          if (cached && message.source) {
+            cached.text = await this.parseSourceToText(message.source);
+            downloaded++;
+          }
+        }
+      }
+
+      await MessageCache.save(this.account!.email, folder, cache);
+      Logger.info(`Cached ${downloaded} new email bodies from ${this.account!.email}/${folder}`);
+      return downloaded;
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 增量同步文件夹缓存，返回同步后的缓存（未启用缓存时返回 null）
+   * - 支持 QRESYNC：用 CHANGEDSINCE + VANISHED 一次取回变化的标记和已删除的 UID
+   * - 仅支持 CONDSTORE：用 CHANGEDSINCE 同步标记，再确认本次要读取的邮件仍然存在
+   * - 都不支持：重新获取本次要读取的邮件的标记，取不到的视为已删除
+   * 调用方需已持有该文件夹的邮箱锁
+   */
+  private async syncCache(client: ImapFlow, folder: string, uids: number[]): Promise<CachedFolder | null> {
+    const mailbox = client.mailbox;
+    if (!Config.getCacheConfig().enabled || !mailbox) {
+      return null;
+    }
+
+    const cache = await MessageCache.load(this.account!.email, folder, String(mailbox.uidValidity));
+    const cachedUids = Object.keys(cache.messages).map(Number);
+    const requestedUids = uids.filter(uid => cache.messages[uid]);
+    const serverModseq = mailbox.noModseq ? undefined : mailbox.highestModseq;
+
+    if (cachedUids.length > 0 && serverModseq !== undefined && cache.highestModseq) {
+      if (String(serverModseq) !== cache.highestModseq) {
+        const vanished: number[] = [];
+        const onExpunge = (event: { uid?: number; vanished: boolean }) => {
+          if (event.vanished && event.uid) vanished.push(event.uid);
         };
-        
-        messages.push(emailMessage);
+
+        client.on('expunge', onExpunge);
+        try {
+          for await (const message of client.fetch(
+            `${Math.min(...cachedUids)}:*`,
+            { uid: true, flags: true },
+            { uid: true, changedSince: BigInt(cache.highestModseq) }
+          )) {
+            const cached = cache.messages[message.uid];
+            if (cached) cached.flags = Array.from(message.flags || []);
+          }
+        } finally {
+          client.off('expunge', onExpunge);
+        }
+
+        vanished.forEach(uid => delete cache.messages[uid]);
+        Logger.info(`Cache sync for ${folder}: modseq ${cache.highestModseq} -> ${serverModseq}, ${vanished.length} vanished`);
       }
 
-      // 按日期排序，最新的在前
-      messages.sort((a, b) => b.date.getTime() - a.date.getTime());
-      return messages;
-      
+      if (!client.enabled.has('QRESYNC') && requestedUids.length > 0) {
+        const existing = new Set(await client.search({ uid: requestedUids.join(',') }, { uid: true }) || []);
+        requestedUids.filter(uid => !existing.has(uid)).forEach(uid => delete cache.messages[uid]);
+      }
+    } else if (requestedUids.length > 0) {
+      const existing = new Set<number>();
+      for await (const message of client.fetch(requestedUids, { uid: true, flags: true }, { uid: true })) {
+        existing.add(message.uid);
+        cache.messages[message.uid].flags = Array.from(message.flags || []);
+      }
+      requestedUids.filter(uid => !existing.has(uid)).forEach(uid => delete cache.messages[uid]);
+    }
+
+    if (serverModseq !== undefined) {
+      cache.highestModseq = String(serverModseq);
+    } else {
+      delete cache.highestModseq;
+    }
+
+    return cache;
+  }
+
+  /**
+   * 将分页位置编码为不透明的游标字符串
+   */
+  private static encodeCursor(position: EmailCursorPosition): string {
+    return Buffer.from(JSON.stringify({
+      f: position.folder,
+      v: position.uidValidity,
+      u: position.beforeUid,
+      q: position.criteriaHash
+    })).toString('base64url');
+  }
+
+  /**
+   * 解析游标字符串
+   */
+  private static decodeCursor(cursor: string): EmailCursorPosition {
+    try {
+      const data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof data.f !== 'string' || typeof data.v !== 'string' || typeof data.u !== 'number' || typeof data.q !== 'string') {
+        throw new Error('Malformed cursor');
+      }
+      return { folder: data.f, uidValidity: data.v, beforeUid: data.u, criteriaHash: data.q };
+    } catch {
+      throw new Error('Invalid cursor: please use the nextCursor value returned by a previous query.');
+    }
+  }
+
+  /**
+   * 计算搜索条件的摘要，用于确认游标与当前查询匹配
+   */
+  private static hashCriteria(criteria?: EmailSearchCriteria): string {
+    return createHash('sha1').update(JSON.stringify(criteria || {})).digest('hex').slice(0, 12);
+  }
+
+  /**
+   * 列出所有邮箱文件夹及其邮件数、未读数
+   */
+  async listFolders(): Promise<EmailFolder[]> {
+    const mailboxes = await this.withImap(client => client.list({
+      statusQuery: { messages: true, unseen: true }
+    }));
+
+    return mailboxes
+      .filter(mailbox => !mailbox.flags.has('\\Noselect'))
+      .map(mailbox => {
+        const folder: EmailFolder = {
+          path: mailbox.path,
+          name: mailbox.name,
+          delimiter: mailbox.delimiter,
+          messages: mailbox.status?.messages || 0,
+          unseen: mailbox.status?.unseen || 0
+        };
+        if (mailbox.specialUse) {
+          folder.specialUse = mailbox.specialUse;
+        }
+        return folder;
+      });
+  }
+
+  /**
+   * 为邮件添加/移除标记（\Seen、\Flagged、\Answered 或自定义关键字），返回修改后的标记
+   */
+  async updateFlags(
+    uids: number[],
+    changes: { add?: string[]; remove?: string[] },
+    folder: string = 'INBOX'
+  ): Promise<Map<number, string[]>> {
+    const lock = await this.openBox(folder);
+
+    try {
+      if (changes.add && changes.add.length > 0) {
+        await lock.client.messageFlagsAdd(uids, changes.add, { uid: true });
+      }
+      if (changes.remove && changes.remove.length > 0) {
+        await lock.client.messageFlagsRemove(uids, changes.remove, { uid: true });
+      }
+
+      const result = new Map<number, string[]>();
+      for await (const message of lock.client.fetch(uids, { uid: true, flags: true }, { uid: true })) {
+        result.set(message.uid, Array.from(message.flags || []));
+      }
+
+      Logger.info(`Flags updated for ${result.size} emails in ${folder}`);
+      return result;
     } catch (error) {
-      Logger.error('Error fetching emails with ImapFlow', error);
+      Logger.error('Error updating flags with ImapFlow', error);
       throw error;
     } finally {
       lock.release();
     }
   }
 
+  /**
+   * 查找特殊用途文件夹（\Sent、\Trash、\All 等），找不到时按 fallbackNames 匹配文件夹名，仍找不到返回 null
+   */
+  async findSpecialUseFolder(specialUse: string, fallbackNames: string[] = []): Promise<string | null> {
+    const mailboxes = await this.withImap(client => client.list());
+    const mailbox = mailboxes.find(item => item.specialUse === specialUse) ||
+      mailboxes.find(item => fallbackNames.some(name =>
+        item.path.toLowerCase() === name.toLowerCase() || item.name.toLowerCase() === name.toLowerCase()
+      ));
+    return mailbox ? mailbox.path : null;
+  }
+
+  /**
+   * 将邮件移动到目标文件夹
+   */
+  async moveEmails(uids: number[], destination: string, folder: string = 'INBOX'): Promise<EmailOrganizeResult> {
+    const lock = await this.openBox(folder);
+
+    try {
+      const result = await lock.client.messageMove(uids, destination, { uid: true });
+      if (!result) {
+        throw new Error(`Failed to move emails from ${folder} to ${destination}`);
+      }
+      Logger.info(`Moved ${uids.length} emails from ${folder} to ${destination}`);
+      return { action: 'move', folder, destination, uids, uidMap: result.uidMap || new Map() };
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 将邮件复制到目标文件夹
+   */
+  async copyEmails(uids: number[], destination: string, folder: string = 'INBOX'): Promise<EmailOrganizeResult> {
+    const lock = await this.openBox(folder);
+
+    try {
+      const result = await lock.client.messageCopy(uids, destination, { uid: true });
+      if (!result) {
+        throw new Error(`Failed to copy emails from ${folder} to ${destination}`);
+      }
+      Logger.info(`Copied ${uids.length} emails from ${folder} to ${destination}`);
+      return { action: 'copy', folder, destination, uids, uidMap: result.uidMap || new Map() };
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 归档邮件：Gmail 移到“所有邮件”（即移除收件箱标签），其他服务商移到归档文件夹，不存在时自动创建
+   */
+  async archiveEmails(uids: number[], folder: string = 'INBOX'): Promise<EmailOrganizeResult> {
+    let archiveFolder = await this.findSpecialUseFolder('\\Archive', ['Archive', 'Archives', '归档']);
+
+    // 只有 Gmail 的“所有邮件”等同于归档；其他服务商的 \All 多为虚拟文件夹，不能用于归档
+    if (!archiveFolder && await this.withImap(async client => client.capabilities.has('X-GM-EXT-1'))) {
+      archiveFolder = await this.findSpecialUseFolder('\\All');
+    }
+
+    if (!archiveFolder) {
+      const created = await this.withImap(client => client.mailboxCreate('Archive'));
+      archiveFolder = created.path;
+      Logger.info(`Archive folder created: ${archiveFolder}`);
+    }
+
+    if (archiveFolder === folder) {
+      throw new Error(`Emails are already in the archive folder: ${folder}`);
+    }
+
+    const result = await this.moveEmails(uids, archiveFolder, folder);
+    return { ...result, action: 'archive' };
+  }
+
+  /**
+   * 将邮件移到废纸篓
+   */
+  async trashEmails(uids: number[], folder: string = 'INBOX'): Promise<EmailOrganizeResult> {
+    const trashFolder = await this.findSpecialUseFolder('\\Trash', EmailService.TRASH_FOLDER_NAMES);
+    if (!trashFolder) {
+      throw new Error('Trash folder not found. Use email-folders to find it and move the emails there instead.');
+    }
+
+    if (trashFolder === folder) {
+      throw new Error(`Emails are already in the trash folder: ${folder}. Use expunge to delete them permanently.`);
+    }
+
+    const result = await this.moveEmails(uids, trashFolder, folder);
+    return { ...result, action: 'trash' };
+  }
+
+  /**
+   * 永久删除邮件（设置 \Deleted 并 UID EXPUNGE），无法恢复
+   * 服务器不支持 UIDPLUS 时拒绝执行：普通 EXPUNGE 会同时删除文件夹中其他已标记 \Deleted 的邮件
+   */
+  async expungeEmails(uids: number[], folder: string = 'INBOX'): Promise<EmailOrganizeResult> {
+    const lock = await this.openBox(folder);
+
+    try {
+      if (!lock.client.capabilities.has('UIDPLUS')) {
+        throw new Error(
+          `The server does not support UIDPLUS, so the emails cannot be deleted permanently without also removing every other email marked as deleted in ${folder}. ` +
+          'Move them to Trash instead.'
+        );
+      }
+
+      const deleted = await lock.client.messageDelete(uids, { uid: true });
+      if (!deleted) {
+        throw new Error(`Failed to delete emails from ${folder}`);
+      }
+      Logger.info(`Permanently deleted ${uids.length} emails from ${folder}`);
+      return { action: 'expunge', folder, uids, uidMap: new Map() };
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 打开邮箱并保持 IDLE 连接，收到新邮件时回调
+   * ImapFlow 在空闲时会自动进入 IDLE，服务器推送 EXISTS 后按 UID 拉取新邮件
+   */
+  async watchMailbox(
+    folder: string,
+    onNewMail: (emails: EmailMessage[]) => void | Promise<void>,
+    onClose: () => void
+  ): Promise<void> {
+    if (!this.imapFlow) {
+      await this.connectImap();
+    }
+
+    const client = this.imapFlow!;
+    const mailbox = await client.mailboxOpen(folder);
+    let nextUid = mailbox.uidNext;
+    // 串行处理 EXISTS 事件，避免并发拉取同一批邮件
+    let pending = Promise.resolve();
+
+    client.on('exists', event => {
+      if (event.count <= event.prevCount) return;
+
+      pending = pending.then(async () => {
+        const emails: EmailMessage[] = [];
+        for await (const message of client.fetch(
+          `${nextUid}:*`,
+          { uid: true, envelope: true, flags: true, size: true, threadId: true },
+          { uid: true }
+        )) {
+          // "N:*" 在没有更大 UID 时会返回最后一封邮件，需要过滤
+          if (message.uid >= nextUid) {
+            emails.push(this.toEmailMessage(message));
+          }
+        }
+
+        if (emails.length > 0) {
+          nextUid = Math.max(...emails.map(email => email.uid)) + 1;
+          Logger.info(`${emails.length} new email(s) in ${this.account!.email}/${folder}`);
+          await onNewMail(emails);
+        }
+      }).catch(error => {
+        Logger.error(`Failed to fetch new emails in ${folder}`, error);
+      });
+    });
+
+    client.on('error', error => {
+      Logger.error(`IMAP watch connection error for ${this.account!.email}`, error);
+    });
+
+    client.once('close', () => {
+      this.imapFlow = null;
+      onClose();
+    });
+
+    Logger.info(`Watching ${this.account!.email}/${folder} for new emails (uidNext: ${nextUid})`);
+  }
+
+  /**
+   * 获取指定邮件所在的完整会话，按时间从旧到新排列
+   * 优先使用 Gmail 的 X-GM-THRID，否则根据 Message-ID / In-Reply-To / References 组装
+   */
+  async getThread(uid: number, folder: string = 'INBOX', maxMessages: number = 50): Promise<ThreadMessage[]> {
+    const target = await this.fetchThreadHeaders(folder, uid);
+    if (!target) {
+      return [];
+    }
+
+    const candidates: ThreadMessage[] = [target];
+    const seen = new Set([`${folder}:${uid}`]);
+
+    // Gmail 的“所有邮件”包含收发双方的邮件；其他服务商同时搜索当前文件夹和已发送
+    const searchFolders = new Set<string>();
+    if (target.threadId) {
+      const allMail = await this.findSpecialUseFolder('\\All');
+      searchFolders.add(allMail || folder);
+    } else {
+      searchFolders.add(folder);
+      const sentFolder = await this.findSpecialUseFolder('\\Sent');
+      if (sentFolder) searchFolders.add(sentFolder);
+    }
+
+    for (const searchFolder of searchFolders) {
+      const uids = await this.searchThreadUids(searchFolder, target);
+      for (const candidateUid of uids.slice(-maxMessages)) {
+        const key = `${searchFolder}:${candidateUid}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const candidate = await this.fetchThreadHeaders(searchFolder, candidateUid);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+
+    // 同一封邮件可能同时出现在多个文件夹（如 Gmail 的收件箱和所有邮件），按 Message-ID 去重
+    const messageIds = new Set<string>();
+    const thread = ThreadAssembler.findThread(candidates, target)
+      .filter(message => {
+        const id = ThreadAssembler.normalizeMessageId(message.messageId);
+        if (!id) return true;
+        if (messageIds.has(id)) return false;
+        messageIds.add(id);
+        return true;
+      })
+      .slice(-maxMessages);
+
+    // 下载正文并移除引用内容
+    for (const message of thread) {
+      message.text = await this.fetchMessageText(message.folder, message.uid);
+    }
+
+    return thread;
+  }
+
+  /**
+   * 在指定文件夹中搜索可能属于同一会话的邮件 UID
+   */
+  private async searchThreadUids(folder: string, target: ThreadMessage): Promise<number[]> {
+    let query: SearchObject;
+
+    if (target.threadId) {
+      query = { threadId: target.threadId };
+    } else {
+      const ids = new Set<string>();
+      if (target.messageId) ids.add(target.messageId);
+      if (target.inReplyTo) ids.add(target.inReplyTo);
+      (target.references || []).forEach(id => ids.add(id));
+
+      const conditions: SearchObject[] = [];
+      for (const rawId of ids) {
+        const id = ThreadAssembler.normalizeMessageId(rawId);
+        if (!id) continue;
+        conditions.push({ header: { 'Message-ID': id } });
+        conditions.push({ header: { 'References': id } });
+        conditions.push({ header: { 'In-Reply-To': id } });
+      }
+
+      if (conditions.length === 0) {
+        return [];
+      }
+      query = conditions.length === 1 ? conditions[0] : { or: conditions };
+    }
+
+    const lock = await this.openBox(folder);
+    try {
+      const uids = await lock.client.search(query, { uid: true });
+      return uids ? uids.sort((a, b) => a - b) : [];
+    } catch (error) {
+      Logger.warn(`Thread search failed in ${folder}`, error);
+      return [];
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 获取单封邮件的会话头部信息
+   */
+  private async fetchThreadHeaders(folder: string, uid: number): Promise<ThreadMessage | null> {
+    const lock = await this.openBox(folder);
+    try {
+      const message = await lock.client.fetchOne(String(uid), {
+        envelope: true,
+        flags: true,
+        size: true,
+        uid: true,
+        threadId: true,
+        headers: ['references']
+      }, { uid: true });
+
+      if (!message) {
+        return null;
+      }
+
+      return { ...this.toEmailMessage(message), folder, text: '' };
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 下载邮件源码并提取去除引用后的正文
+   */
+  private async fetchMessageText(folder: string, uid: number): Promise<string> {
+    const lock = await this.openBox(folder);
+    try {
+      const message = await lock.client.fetchOne(String(uid), { source: true }, { uid: true });
+      if (!message || !message.source) {
+        return '';
+      }
+      const text = await this.parseSourceToText(message.source);
+      return ThreadAssembler.stripQuotedText(text);
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 将 ImapFlow 的 fetch 结果转换为 EmailMessage
+   */
+  private toEmailMessage(message: FetchMessageObject): EmailMessage {
+    const emailMessage: EmailMessage = {
+      uid: message.uid,
+      seqno: message.seq,
+      from: message.envelope?.from?.[0]?.address || '',
+      to: message.envelope?.to?.[0]?.address || '',
+      subject: message.envelope?.subject || '',
+      date: message.envelope?.date || new Date(),
+      body: this.extractBodyFromParts(message.bodyParts),
+      flags: Array.from(message.flags || []),
+      size: message.size || 0
+    };
+
+    // 会话相关的头部信息
+    if (message.envelope?.messageId) emailMessage.messageId = message.envelope.messageId;
+    if (message.envelope?.inReplyTo) emailMessage.inReplyTo = message.envelope.inReplyTo;
+    if (message.threadId) emailMessage.threadId = message.threadId;
+    const references = ThreadAssembler.parseReferences(message.headers);
+    if (references.length > 0) emailMessage.references = references;
+
+    return emailMessage;
+  }
+
+  /**
+   * 检查是否提供了任何搜索条件
+   */
+  static hasSearchCriteria(criteria: EmailSearchCriteria): boolean {
+    return Object.values(criteria).some(value => value !== undefined);
+  }
+
+  /**
+   * 将搜索条件转换为 ImapFlow 的 SearchObject
+   * 包含非 ASCII 字符（如中文）时，ImapFlow 会自动添加 CHARSET UTF-8
+   */
+  static buildSearchQuery(criteria: EmailSearchCriteria): SearchObject {
+    const query: SearchObject = {};
+
+    if (criteria.from) query.from = criteria.from;
+    if (criteria.to) query.to = criteria.to;
+    if (criteria.subject) query.subject = criteria.subject;
+    if (criteria.body) query.body = criteria.body;
+    if (criteria.since) query.since = criteria.since;
+    if (criteria.before) query.before = criteria.before;
+    if (criteria.unseen !== undefined) query.seen = !criteria.unseen;
+    if (criteria.flagged !== undefined) query.flagged = criteria.flagged;
+    if (criteria.largerThan !== undefined) query.larger = criteria.largerThan;
+
+    if (Object.keys(query).length === 0) {
+      query.all = true;
+    }
+
+    return query;
+  }
+
   /**
    * 从 ImapFlow 的 bodyParts 中提取文本内容
    */
@@ -264,42 +1196,175 @@ export class EmailService {
 
   /**
    * 从 ImapFlow 的 bodyStructure 中解析附件
+   * 附件数据需要通过 downloadAttachment 按 part 单独下载
    */
-  private parseAttachmentsFromStructure(bodyStructure: unknown): EmailAttachment[] {
+  private parseAttachmentsFromStructure(bodyStructure: MessageStructureObject | undefined): EmailAttachment[] {
     if (!bodyStructure) return [];
     
     const attachments: EmailAttachment[] = [];
     
-    const parseStructure = (struct: unknown) => {
-      if (Array.isArray(struct)) {
-        struct.forEach(part => parseStructure(part));
-      } else if (struct && typeof struct === 'object' && struct !== null && 'disposition' in struct && (struct as Record<string, unknown>).disposition === 'attachment') {
-        const structObj = struct as Record<string, unknown>;
-        const dispositionParams = structObj.dispositionParameters as Record<string, unknown> | undefined;
-        const params = structObj.parameters as Record<string, unknown> | undefined;
-        const attachment: EmailAttachment = {
-          filename: dispositionParams?.filename as string || params?.name as string || 'unknown',
-          contentType: structObj.type && structObj.subtype ? `${structObj.type}/${structObj.subtype}` : 'application/octet-stream',
-          size: (structObj.size as number) || 0,
-          data: Buffer.alloc(0) // 这里暂时不下载实际数据
-        };
-        attachments.push(attachment);
+    const parseStructure = (struct: MessageStructureObject) => {
+      if (Array.isArray(struct.childNodes)) {
+        struct.childNodes.forEach(child => parseStructure(child));
+        return;
+      }
+
+      const filename = struct.dispositionParameters?.filename || struct.parameters?.name;
+      const isAttachment = struct.disposition === 'attachment' || (struct.disposition === 'inline' && !!filename && !struct.type.startsWith('text/'));
+      if (!isAttachment) {
+        return;
       }
+
+      const attachment: EmailAttachment = {
+        filename: filename || 'unknown',
+        contentType: struct.type && struct.type.includes('/') ? struct.type.toLowerCase() : 'application/octet-stream',
+        size: struct.size || 0,
+        data: Buffer.alloc(0)
+      };
+      if (struct.part) {
+        attachment.part = struct.part;
+      }
+      attachments.push(attachment);
     };
     
     parseStructure(bodyStructure);
     return attachments;
   }
 
+  /**
+   * 列出邮件的附件（不下载数据）
+   */
+  async listAttachments(uid: number, folder: string = 'INBOX'): Promise<EmailAttachment[]> {
+    const lock = await this.openBox(folder);
+
+    try {
+      // 附件结构不会变化，缓存中有该邮件时无需再次获取 BODYSTRUCTURE
+      const mailbox = lock.client.mailbox;
+      if (Config.getCacheConfig().enabled && mailbox) {
+        const cache = await MessageCache.load(this.account!.email, folder, String(mailbox.uidValidity));
+        const cached = cache.messages[uid];
+        if (cached) {
+          return cached.attachments.map(attachment => ({ ...attachment, data: Buffer.alloc(0) }));
+        }
+      }
+
+      const message = await lock.client.fetchOne(String(uid), { uid: true, bodyStructure: true }, { uid: true });
+      return message ? this.parseAttachmentsFromStructure(message.bodyStructure) : [];
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 下载单个附件，可按 MIME part 编号或文件名定位
+   * 超过 maxBytes 时抛出错误，避免把超大文件读入内存
+   */
+  async downloadAttachment(
+    uid: number,
+    selector: { part?: string; filename?: string },
+    folder: string = 'INBOX',
+    maxBytes: number = Config.getAttachmentConfig().maxSize
+  ): Promise<EmailAttachment | null> {
+    const lock = await this.openBox(folder);
+
+    try {
+      const message = await lock.client.fetchOne(String(uid), { uid: true, bodyStructure: true }, { uid: true });
+      if (!message) {
+        return null;
+      }
+
+      const attachments = this.parseAttachmentsFromStructure(message.bodyStructure);
+      const attachment = attachments.find(item =>
+        selector.part
+          ? item.part === selector.part
+          : item.filename.toLowerCase() === (selector.filename || '').toLowerCase()
+      );
+
+      if (!attachment || !attachment.part) {
+        const available = attachments.map(item => `${item.part}: ${item.filename}`).join(', ') || 'none';
+        throw new Error(`Attachment not found: ${selector.part || selector.filename}. Available attachments: ${available}`);
+      }
+
+      // bodyStructure 中的 size 是编码后的大小，base64 解码后约为 3/4
+      if (Math.floor(attachment.size * 3 / 4) > maxBytes) {
+        throw new Error(`Attachment too large: ${attachment.filename} is about ${attachment.size} bytes (limit: ${maxBytes} bytes)`);
+      }
+
+      const download = await lock.client.download(String(uid), attachment.part, { uid: true, maxBytes: maxBytes + 1 });
+      const chunks: Buffer[] = [];
+      let total = 0;
+      for await (const chunk of download.content) {
+        total += chunk.length;
+        if (total > maxBytes) {
+          download.content.destroy();
+          throw new Error(`Attachment too large: ${attachment.filename} exceeds ${maxBytes} bytes`);
+        }
+        chunks.push(chunk);
+      }
+
+      attachment.data = Buffer.concat(chunks);
+      attachment.size = attachment.data.length;
+      if (download.meta.contentType) {
+        attachment.contentType = download.meta.contentType;
+      }
+
+      Logger.info(`Attachment downloaded: ${attachment.filename} (${attachment.size} bytes)`);
+      return attachment;
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 提取邮件附件中的文本内容，总长度控制在 maxTokens 以内
+   * 不支持的类型、超过大小限制或解析失败的附件会被跳过
+   */
+  async getAttachmentTexts(uid: number, folder: string = 'INBOX', maxTokens: number = 4000): Promise<AttachmentTextResult[]> {
+    const attachments = await this.listAttachments(uid, folder);
+    const maxSize = Config.getAttachmentConfig().maxSize;
+    const results: AttachmentTextResult[] = [];
+    let remainingTokens = maxTokens;
+
+    for (const attachment of attachments) {
+      if (remainingTokens <= 0) break;
+      if (!attachment.part || !AttachmentTextPipeline.findExtractor(attachment.contentType, attachment.filename)) {
+        continue;
+      }
+
+      try {
+        const downloaded = await this.downloadAttachment(uid, { part: attachment.part }, folder, maxSize);
+        if (!downloaded) continue;
+
+        const extracted = await AttachmentTextPipeline.extract(downloaded.data, attachment.contentType, attachment.filename);
+        if (!extracted || !extracted.text) continue;
+
+        const { text, truncated } = AttachmentTextPipeline.truncateToTokens(extracted.text, remainingTokens);
+        remainingTokens -= AttachmentTextPipeline.estimateTokens(text);
+
+        results.push({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          extractor: extracted.extractor,
+          text,
+          truncated
+        });
+      } catch (error) {
+        Logger.warn(`Failed to extract text from attachment ${attachment.filename}`, error);
+      }
+    }
+
+    return results;
+  }
+
   /**
    * 获取邮件详情
    */
-  async getEmailDetail(seqno?: number, uid?: number, includeAttachments: boolean = false): Promise<EmailMessage | null> {
+  async getEmailDetail(seqno?: number, uid?: number, includeAttachments: boolean = false, folder: string = 'INBOX'): Promise<EmailMessage | null> {
     if (!seqno && !uid) {
       throw new Error('Must provide either seqno or uid');
     }
 
-    const lock = await this.openBox();
+    const lock = await this.openBox(folder);
     
     try {
       const fetchQuery = uid ? uid : seqno!;
@@ -312,7 +1377,7 @@ export class EmailService {
         bodyParts: ['HEADER', 'TEXT', '1']
       };
       
-      const fetchResults = this.imapFlow!.fetch(String(fetchQuery), fetchOptions, { uid: !!uid });
+      const fetchResults = lock.client.fetch(String(fetchQuery), fetchOptions, { uid: !!uid });
       
       let emailMessage: EmailMessage | null = null;
       
@@ -347,143 +1412,133 @@ export class EmailService {
    * 使用 ImapFlow + simpleParser 简化获取邮件文字内容
    * 类似测试文件中的实现方式
    */
-  async getEmailTextContent(uid: number): Promise<string | null> {
-    if (!this.account) {
-      throw new Error('No account configured');
-    }
-
-    // Check if token is expired for OAuth accounts
-    if (this.account.provider === 'Gmail' && this.account.accessToken) {
-      const isTokenValid = await this.checkAndRefreshToken();
-      if (!isTokenValid) {
-        throw new Error('OAuth token expired and refresh failed. Please re-authenticate.');
-      }
-    }
-
-    // 构建认证配置
-    const auth = this.account.provider === 'Gmail' && this.account.accessToken
-      ? { 
-          user: this.account.email, 
-          accessToken: this.account.accessToken
-        }
-      : { 
-          user: this.account.email, 
-          pass: this.account.password || ''
-        };
-
-    const config = {
-      host: this.account.provider === 'Gmail' ? 'imap.gmail.com' : 'imap.qq.com',
-      port: 993,
-      secure: true,
-      auth,
-      logger: false as const
-    };
-
-    const client = new ImapFlow(config);
+  async getEmailTextContent(uid: number, folder: string = 'INBOX'): Promise<string | null> {
+    const lock = await this.openBox(folder);
     
     // 设置30秒超时
     const timeout = 30000;
+    let timer: NodeJS.Timeout | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error(`Operation timed out after ${timeout}ms`)), timeout);
+      timer = setTimeout(() => reject(new Error(`Operation timed out after ${timeout}ms`)), timeout);
     });
     
+    let failed = false;
     try {
+      // 重复读取时直接使用缓存的正文
+      const cache = await this.syncCache(lock.client, folder, [uid]);
+      const cached = cache?.messages[uid];
+      if (cached?.text !== undefined) {
+        Logger.info(`使用缓存的邮件内容, UID: ${uid}`);
+        return cached.text;
+      }
+
       // 使用 Promise.race 来添加超时保护
-      const fetchPromise = this.performEmailFetch(client, uid);
       const result = await Promise.race([
         timeoutPromise,
-        fetchPromise
+        this.performEmailFetch(lock.client, uid)
       ]);
-      
-      // 确保连接被关闭（在后台异步执行，不阻塞返回）
-      this.safeLogout(client).catch(() => {
-        Logger.debug('后台连接清理完成，出现预期的超时（正常现象）');
-      });
-      
-      return result;
-      
+      if (!result) {
+        return null;
+      }
+
+      if (cache) {
+        const entry = cached || MessageCache.toCachedMessage(
+          this.toEmailMessage(result.message),
+          this.parseAttachmentsFromStructure(result.message.bodyStructure)
+        );
+        entry.text = result.text;
+        cache.messages[uid] = entry;
+        await MessageCache.save(this.account!.email, folder, cache);
+      }
+
+      return result.text;
     } catch (error) {
       Logger.error(`处理邮件 UID ${uid} 时发生错误:`, error);
-      // 确保连接被关闭
-      this.safeLogout(client).catch(() => {
-        Logger.debug('错误清理期间的连接关闭完成');
-      });
+      failed = true;
       throw error;
+    } finally {
+      clearTimeout(timer);
+      // 超时或出错时连接状态未知，不放回连接池
+      lock.release(failed);
+    }
+  }
+
+  /**
+   * 执行邮件获取操作（从 getEmailTextContent 中提取出来，以便添加超时保护）
+   */
+  private async performEmailFetch(client: ImapFlow, uid: number): Promise<{ message: FetchMessageObject; text: string } | null> {
+    // 检查邮件是否存在
+    Logger.info(`正在检查 UID ${uid} 是否存在...`);
+    
+    // 尝试获取邮件的基本信息
+    const messages = client.fetch(uid, {
+      uid: true,
+      envelope: true,
+      flags: true,
+      size: true,
+      threadId: true,
+      headers: ['references'],
+      bodyStructure: true
+    }, { uid: true });
+    const messageList = [];
+    for await (const message of messages) {
+      messageList.push(message);
+    }
+    
+    if (messageList.length === 0) {
+      Logger.warn(`UID ${uid} 不存在`);
+      return null;
+    }
+    
+    Logger.info(`找到邮件 UID ${uid}, 主题: ${messageList[0].envelope?.subject || '无主题'}`);
+    
+    // 使用 fetch 获取邮件的完整源码
+    const sourceMessages = client.fetch(uid, { source: true }, { uid: true });
+    let emailSource = null;
+    
+    for await (const message of sourceMessages) {
+      if (message.uid === uid) {
+        emailSource = message.source;
+        break;
+      }
+    }
+    
+    if (!emailSource) {
+      Logger.warn(`无法下载 UID ${uid} 的邮件内容`);
+      return null;
     }
+    
+    Logger.info(`邮件下载成功，大小: ${emailSource.length} 字节`);
+    
+    return { message: messageList[0], text: await this.parseSourceToText(emailSource) };
   }
 
   /**
-   * 执行邮件获取操作（从 getEmailTextContent 中提取出来，以便添加超时保护）
+   * 使用 simpleParser 把邮件源码解析为清理后的纯文本
    */
-  private async performEmailFetch(client: ImapFlow, uid: number): Promise<string | null> {
-    await client.connect();
-    
-    // 选择收件箱
-    const lock = await client.getMailboxLock('INBOX');
-    
-    try {
-      // 检查邮件是否存在
-      Logger.info(`正在检查 UID ${uid} 是否存在...`);
-      
-      // 尝试获取邮件的基本信息
-      const messages = client.fetch(uid, { uid: true, envelope: true }, { uid: true });
-      const messageList = [];
-      for await (const message of messages) {
-        messageList.push(message);
-      }
-      
-      if (messageList.length === 0) {
-        Logger.warn(`UID ${uid} 不存在`);
-        return null;
-      }
-      
-      Logger.info(`找到邮件 UID ${uid}, 主题: ${messageList[0].envelope?.subject || '无主题'}`);
-      
-      // 使用 fetch 获取邮件的完整源码
-      const sourceMessages = client.fetch(uid, { source: true }, { uid: true });
-      let emailSource = null;
-      
-      for await (const message of sourceMessages) {
-        if (message.uid === uid) {
-          emailSource = message.source;
-          break;
-        }
-      }
-      
-      if (!emailSource) {
-        Logger.warn(`无法下载 UID ${uid} 的邮件内容`);
-        return null;
-      }
-      
-      Logger.info(`邮件下载成功，大小: ${emailSource.length} 字节`);
-      
-      // 使用 simpleParser 解析邮件
-      const parsed = await simpleParser(emailSource);
-
-      // 1) 优先用 text/plain
-      if (parsed.text) {
-        Logger.info('找到纯文本内容');
-        return this.cleanEmailText(parsed.text);
-      }
-
-      // 2) Fallback：把 HTML 转纯文本
-      if (parsed.html) {
-        Logger.info('找到HTML内容，转换为纯文本');
-        const htmlText = htmlToText(parsed.html, {
-          wordwrap: false,           // 不自动换行
-          selectors: [               // 自定义换行策略（可选）
-            { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
-          ],
-        });
-        return this.cleanEmailText(htmlText);
-      }
+  private async parseSourceToText(emailSource: Buffer): Promise<string> {
+    const parsed = await simpleParser(emailSource);
 
-      Logger.warn('邮件中没有找到文本内容');
-      return ''; // 邮件里什么正文都没有
-      
-    } finally {
-      lock.release();
+    // 1) 优先用 text/plain
+    if (parsed.text) {
+      Logger.info('找到纯文本内容');
+      return this.cleanEmailText(parsed.text);
+    }
+
+    // 2) Fallback：把 HTML 转纯文本
+    if (parsed.html) {
+      Logger.info('找到HTML内容，转换为纯文本');
+      const htmlText = htmlToText(parsed.html, {
+        wordwrap: false,           // 不自动换行
+        selectors: [               // 自定义换行策略（可选）
+          { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
+        ],
+      });
+      return this.cleanEmailText(htmlText);
     }
+
+    Logger.warn('邮件中没有找到文本内容');
+    return ''; // 邮件里什么正文都没有
   }
 
   /**
@@ -764,81 +1819,56 @@ export class EmailService {
     }
 
     // Check if token is expired for OAuth accounts
-    if (this.account.provider === 'Gmail' && this.account.accessToken) {
+    if (this.account.accessToken) {
       const isTokenValid = await this.checkAndRefreshToken();
       if (!isTokenValid) {
         throw new Error('OAuth token expired and refresh failed. Please re-authenticate.');
       }
     }
 
-    if (!this.transporter) {
-      // For OAuth accounts (Gmail), use OAuth2 authentication
-      if (this.account.provider === 'Gmail' && this.account.accessToken) {
-        this.transporter = nodemailer.createTransport({
-          host: this.account.smtpHost,
-          port: this.account.smtpPort,
-          secure: this.account.secure,
-          auth: {
-            type: 'OAuth2',
-            user: this.account.username,
-            accessToken: this.account.accessToken
-          },
-          tls: {
-            rejectUnauthorized: false,
-            secureProtocol: 'TLSv1_2_method',
-            servername: this.account.smtpHost,
-            ciphers: 'ECDHE+AESGCM:ECDHE+CHACHA20:DHE+AESGCM:DHE+CHACHA20:!aNULL:!MD5:!DSS'
-          },
-          connectionTimeout: 60000,
-          greetingTimeout: 30000,
-          socketTimeout: 60000
-        });
-      } else {
-        // Regular password authentication (QQ Mail)
-        this.transporter = nodemailer.createTransport({
-          host: this.account.smtpHost,
-          port: this.account.smtpPort,
-          secure: this.account.secure,
-          auth: {
-            user: this.account.username,
-            pass: this.account.password
-          },
-          tls: {
-            rejectUnauthorized: false,
-            secureProtocol: 'TLSv1_2_method',
-            servername: this.account.smtpHost
-          },
-          connectionTimeout: 60000,
-          greetingTimeout: 30000,
-          socketTimeout: 60000
-        });
-      }
-    }
+    // For OAuth accounts, use OAuth2 authentication; otherwise regular password authentication
+    const auth: SMTPTransport.Options['auth'] = this.account.accessToken
+      ? { type: 'OAuth2', user: this.account.username, accessToken: this.account.accessToken }
+      : { user: this.account.username, pass: this.account.password };
 
-    return this.transporter;
+    // 同一账户共享连接池，凭据变化（如令牌刷新）时自动重建
+    return SmtpTransportPool.get(this.account.email, {
+      host: this.account.smtpHost,
+      port: this.account.smtpPort,
+      secure: this.account.smtpSecure ?? this.account.secure,
+      auth,
+      tls: {
+        rejectUnauthorized: false,
+        secureProtocol: 'TLSv1_2_method',
+        servername: this.account.smtpHost,
+        ...(this.account.accessToken ? { ciphers: 'ECDHE+AESGCM:ECDHE+CHACHA20:DHE+AESGCM:DHE+CHACHA20:!aNULL:!MD5:!DSS' } : {})
+      },
+      connectionTimeout: 60000,
+      greetingTimeout: 30000,
+      socketTimeout: 60000
+    });
   }
 
   /**
    * 发送邮件
    */
-  async sendEmail(options: SendEmailOptions): Promise<boolean> {
+  async sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
+    // 收件人、头部、附件不符合要求或违反发送策略时直接拒绝，不连接 SMTP
+    const { raw, messageId, envelope } = await this.composeMessage(options, true);
+    SendPolicy.check(this.account!.email, options);
+    await SendPolicy.reserveDailyQuota(this.account!.email);
+
+    let result: SendEmailResult;
     try {
       const transporter = await this.createTransporter();
-      
-      const mailOptions = {
-        from: this.account!.email,
-        to: options.to,
-        subject: options.subject,
-        text: options.text,
-        html: options.html,
-        attachments: options.attachments
-      };
 
-      const info = await transporter.sendMail(mailOptions);
-      Logger.info(`Email sent successfully: ${info.messageId}`);
-      return true;
+      // 发送预先生成的 MIME 内容，保证保存到“已发送”的副本与发出的邮件一致；Bcc 只写在信封中
+      const info = await transporter.sendMail({ envelope, raw: EmailService.stripBccHeader(raw) });
+      Logger.info(`Email sent successfully: ${messageId}`);
+      result = EmailService.toSendResult({ ...info, messageId });
     } catch (error) {
       Logger.error('Failed to send email', error);
+      await SendPolicy.releaseDailyQuota(this.account!.email);
       
       // Provide more detailed error information
       if (error instanceof Error) {
@@ -851,6 +1881,541 @@ export class EmailService {
       
       throw error;
     }
+
+    if (this.shouldSaveSentCopy()) {
+      try {
+        result.sentCopy = await this.saveToSent(raw, messageId);
+      } catch (error) {
+        // 保存副本失败不影响发送结果
+        Logger.warn(`Failed to save sent email ${messageId} to the Sent folder`, error);
+        result.sentCopyError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 根据配置和服务商判断是否需要将发出的邮件保存到“已发送”
+   */
+  private shouldSaveSentCopy(): boolean {
+    const { saveCopy } = Config.getSentMailConfig();
+    if (saveCopy !== 'auto') {
+      return saveCopy === 'always';
+    }
+
+    const provider = ProviderRegistry.get(this.account!.provider) || ProviderRegistry.findByEmail(this.account!.email);
+    return !provider?.savesSentMail;
+  }
+
+  /**
+   * 将发出的原始邮件 APPEND 到“已发送”文件夹（标记为已读）
+   */
+  private async saveToSent(raw: Buffer, messageId: string): Promise<{ folder: string; uid: number | null }> {
+    const folder = await this.findSpecialUseFolder('\\Sent', ['Sent', 'Sent Messages', 'Sent Items', 'Sent Mail', '已发送']);
+    if (!folder) {
+      throw new Error('Sent folder not found');
+    }
+
+    const appended = await this.withImap(client => client.append(folder, raw, ['\\Seen']));
+    if (!appended) {
+      throw new Error(`Failed to append sent email to ${folder}`);
+    }
+    const uid = appended.uid ?? await this.findUidByMessageId(folder, messageId);
+
+    Logger.info(`Sent email saved to ${folder} with UID ${uid ?? 'unknown'}`);
+    return { folder, uid };
+  }
+
+  /**
+   * 用 nodemailer 的 streamTransport 生成完整的 MIME 内容（保留 Bcc 头部），不发送
+   */
+  private async composeMessage(
+    options: SendEmailOptions,
+    requireRecipients: boolean
+  ): Promise<{ raw: Buffer; messageId: string; envelope: { from: string; to: string[] } }> {
+    const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+    const built = await builder.sendMail(this.buildMailOptions(options, requireRecipients));
+    const envelope = built.envelope as { from: string | false; to: string[] };
+
+    return {
+      raw: built.message as Buffer,
+      messageId: built.messageId,
+      envelope: { from: envelope.from || this.account!.email, to: envelope.to }
+    };
+  }
+
+  /**
+   * 删除 Bcc 头部（含折行），邮件正文不变
+   */
+  private static stripBccHeader(raw: Buffer): Buffer {
+    const headerEnd = raw.indexOf('\r\n\r\n');
+    if (headerEnd === -1) {
+      return raw;
+    }
+
+    const kept: string[] = [];
+    let skipping = false;
+    for (const line of raw.subarray(0, headerEnd).toString('binary').split('\r\n')) {
+      if (!/^[ \t]/.test(line)) {
+        skipping = /^bcc:/i.test(line);
+      }
+      if (!skipping) kept.push(line);
+    }
+
+    return Buffer.concat([Buffer.from(kept.join('\r\n'), 'binary'), raw.subarray(headerEnd)]);
+  }
+
+  /**
+   * 校验收件人、头部和附件，返回格式化后的收件人；延迟发送的邮件入队前也会调用
+   */
+  static validateSendOptions(
+    options: SendEmailOptions,
+    requireRecipients: boolean = true
+  ): { to: string[]; cc: string[]; bcc: string[]; replyTo: string[] } {
+    const to = EmailService.normalizeAddresses(options.to, 'to');
+    const cc = EmailService.normalizeAddresses(options.cc, 'cc');
+    const bcc = EmailService.normalizeAddresses(options.bcc, 'bcc');
+    const replyTo = EmailService.normalizeAddresses(options.replyTo, 'replyTo');
+    if (requireRecipients && to.length + cc.length + bcc.length === 0) {
+      throw new Error('At least one recipient (to, cc or bcc) is required');
+    }
+    EmailService.validateHeaders(options.headers);
+    OutgoingAttachments.validate(options.attachments);
+
+    return { to, cc, bcc, replyTo };
+  }
+
+  /**
+   * 校验发送参数，转换为 nodemailer 的邮件参数
+   */
+  private buildMailOptions(options: SendEmailOptions, requireRecipients: boolean): nodemailer.SendMailOptions {
+    const { to, cc, bcc, replyTo } = EmailService.validateSendOptions(options, requireRecipients);
+
+    const mailOptions: nodemailer.SendMailOptions = {
+      from: this.account!.email,
+      to,
+      cc,
+      bcc,
+      replyTo,
+      subject: options.subject,
+      attachments: options.attachments || []
+    };
+    if (options.text !== undefined) mailOptions.text = options.text;
+    if (options.html !== undefined) mailOptions.html = options.html;
+    if (options.headers) mailOptions.headers = options.headers;
+    if (options.priority) mailOptions.priority = options.priority;
+    if (options.inReplyTo) mailOptions.inReplyTo = options.inReplyTo;
+    if (options.references) mailOptions.references = options.references;
+    return mailOptions;
+  }
+
+  /**
+   * 解析并校验收件人列表，返回格式化后的地址（"Name" <address>）
+   */
+  static normalizeAddresses(value: RecipientList | undefined, field: string): string[] {
+    if (!value) return [];
+
+    const entries = Array.isArray(value) ? value : [value];
+    const addresses: string[] = [];
+    for (const entry of entries) {
+      for (const parsed of addressparser(entry, { flatten: true })) {
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(parsed.address)) {
+          throw new Error(`Invalid email address in ${field}: ${parsed.address || entry}`);
+        }
+        addresses.push(ReplyBuilder.formatAddress(parsed));
+      }
+    }
+    return addresses;
+  }
+
+  /**
+   * 校验自定义头部：名称合法、值不含换行（防止头部注入），且不覆盖核心头部
+   */
+  static validateHeaders(headers: Record<string, string> | undefined): void {
+    if (!headers) return;
+
+    const reserved = [
+      'from', 'to', 'cc', 'bcc', 'reply-to', 'subject', 'date', 'message-id', 'in-reply-to', 'references',
+      'mime-version', 'content-type', 'content-transfer-encoding', 'sender', 'return-path'
+    ];
+    for (const [name, value] of Object.entries(headers)) {
+      if (!/^[!-9;-~]+$/.test(name)) {
+        throw new Error(`Invalid header name: ${name}`);
+      }
+      if (reserved.includes(name.toLowerCase())) {
+        throw new Error(`Header ${name} cannot be set as a custom header. Use the corresponding parameter instead.`);
+      }
+      if (/[\r\n]/.test(String(value))) {
+        throw new Error(`Header ${name} must not contain line breaks`);
+      }
+    }
+  }
+
+  /**
+   * 将 nodemailer 的发送结果转换为逐个收件人的投递结果
+   */
+  private static toSendResult(info: {
+    messageId: string;
+    response?: string;
+    accepted?: Array<string | { address: string }>;
+    rejected?: Array<string | { address: string }>;
+    pending?: Array<string | { address: string }>;
+    rejectedErrors?: Array<{ recipient?: string; response?: string; message: string }>;
+  }): SendEmailResult {
+    const toAddress = (item: string | { address: string }) => typeof item === 'string' ? item : item.address;
+    const recipients: RecipientResult[] = [
+      ...(info.accepted || []).map(item => ({ address: toAddress(item), status: 'accepted' as const })),
+      ...(info.pending || []).map(item => ({ address: toAddress(item), status: 'pending' as const }))
+    ];
+
+    for (const item of info.rejected || []) {
+      const address = toAddress(item);
+      const rejection = info.rejectedErrors?.find(error => error.recipient === address);
+      const result: RecipientResult = { address, status: 'rejected' };
+      if (rejection) result.error = rejection.response || rejection.message;
+      recipients.push(result);
+    }
+
+    return {
+      messageId: info.messageId,
+      response: info.response || '',
+      recipients
+    };
+  }
+
+  /**
+   * 获取并解析原邮件（含完整收件人列表、正文和附件），用于回复和转发
+   */
+  async getOriginalMessage(uid: number, folder: string = 'INBOX'): Promise<OriginalMessage | null> {
+    const lock = await this.openBox(folder);
+
+    let source: Buffer;
+    try {
+      const message = await lock.client.fetchOne(String(uid), { source: true }, { uid: true });
+      if (!message || !message.source) {
+        return null;
+      }
+      source = message.source;
+    } finally {
+      lock.release();
+    }
+
+    const parsed = await simpleParser(source);
+    const addresses = EmailService.parsedAddresses;
+    const references = typeof parsed.references === 'string' ? [parsed.references] : parsed.references || [];
+
+    const original: OriginalMessage = {
+      uid,
+      folder,
+      references,
+      from: addresses(parsed.from),
+      replyTo: addresses(parsed.replyTo),
+      to: addresses(parsed.to),
+      cc: addresses(parsed.cc),
+      subject: parsed.subject || '',
+      date: parsed.date || new Date(),
+      text: await this.parseSourceToText(source),
+      attachments: parsed.attachments
+        .filter(attachment => attachment.contentDisposition !== 'inline' || !!attachment.filename)
+        .map(attachment => ({
+          filename: attachment.filename || 'attachment',
+          contentType: attachment.contentType,
+          content: attachment.content
+        })),
+      source
+    };
+    if (parsed.messageId) original.messageId = parsed.messageId;
+    if (parsed.html) original.html = parsed.html;
+
+    return original;
+  }
+
+  /**
+   * 回复、回复全部或转发邮件，发送成功后为原邮件添加 \Answered 或 $Forwarded 标记
+   */
+  async replyToEmail(
+    uid: number,
+    folder: string,
+    options: Omit<ReplyOptions, 'selfAddresses'>
+  ): Promise<{ mailOptions: SendEmailOptions; result: SendEmailResult }> {
+    const mailOptions = await this.buildReply(uid, folder, options);
+    const result = await this.sendEmail(mailOptions);
+    await this.markReplied(uid, folder, options.mode);
+    return { mailOptions, result };
+  }
+
+  /**
+   * 基于原邮件构建回复或转发的发送参数，不发送
+   */
+  async buildReply(uid: number, folder: string, options: Omit<ReplyOptions, 'selfAddresses'>): Promise<SendEmailOptions> {
+    const original = await this.getOriginalMessage(uid, folder);
+    if (!original) {
+      throw new Error(`Email not found with UID: ${uid} in ${folder}`);
+    }
+
+    const selfAddresses = [this.account!.email, this.account!.username].filter(Boolean);
+    return ReplyBuilder.build(original, { ...options, selfAddresses });
+  }
+
+  /**
+   * 为已回复或已转发的原邮件添加 \Answered 或 $Forwarded 标记，失败时只记录警告
+   */
+  async markReplied(uid: number, folder: string, mode: ReplyMode): Promise<void> {
+    try {
+      await this.updateFlags([uid], { add: [mode === 'forward' ? '$Forwarded' : '\\Answered'] }, folder);
+    } catch (error) {
+      // 标记失败不影响发送结果
+      Logger.warn(`Failed to flag original email UID ${uid} after ${mode}`, error);
+    }
+  }
+
+  /**
+   * 将 mailparser 解析出的地址头转换为地址列表
+   */
+  private static parsedAddresses(value: AddressObject | AddressObject[] | undefined): MailAddress[] {
+    return (Array.isArray(value) ? value : value ? [value] : [])
+      .flatMap(item => item.value)
+      .filter(item => !!item.address)
+      .map(item => ({ name: item.name || '', address: item.address! }));
+  }
+
+  /**
+   * 查找草稿箱文件夹，不存在时自动创建
+   */
+  async getDraftsFolder(): Promise<string> {
+    let draftsFolder = await this.findSpecialUseFolder('\\Drafts', ['Drafts', 'Draft', '草稿箱', '草稿']);
+
+    if (!draftsFolder) {
+      const created = await this.withImap(client => client.mailboxCreate('Drafts'));
+      draftsFolder = created.path;
+      Logger.info(`Drafts folder created: ${draftsFolder}`);
+    }
+
+    return draftsFolder;
+  }
+
+  /**
+   * 分页列出草稿（从新到旧）
+   */
+  async listDrafts(pageSize: number = 10, cursor?: string): Promise<EmailPage> {
+    return this.getEmailPage(pageSize, undefined, await this.getDraftsFolder(), cursor);
+  }
+
+  /**
+   * 保存草稿：用 nodemailer 生成 MIME 内容，以 \Draft 标记 APPEND 到草稿箱
+   * 草稿可以没有收件人，人工在邮件客户端中检查后再发送
+   */
+  async createDraft(options: SendEmailOptions): Promise<DraftSaveResult> {
+    const folder = await this.getDraftsFolder();
+
+    const { raw, messageId } = await this.composeMessage(options, false);
+
+    const appended = await this.withImap(client => client.append(folder, raw, ['\\Draft', '\\Seen']));
+    if (!appended) {
+      throw new Error(`Failed to save draft to ${folder}`);
+    }
+    const uid = appended.uid ?? await this.findUidByMessageId(folder, messageId);
+
+    Logger.info(`Draft saved to ${folder} with UID ${uid ?? 'unknown'}`);
+    return { folder, uid, messageId };
+  }
+
+  /**
+   * 按 Message-ID 查找邮件的 UID（服务器不支持 UIDPLUS、APPEND 不返回 UID 时使用），找不到返回 null
+   */
+  private async findUidByMessageId(folder: string, messageId: string): Promise<number | null> {
+    const lock = await this.openBox(folder);
+
+    try {
+      const uids = await lock.client.search({ header: { 'message-id': messageId } }, { uid: true });
+      return uids && uids.length > 0 ? Math.max(...uids) : null;
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 读取草稿并还原为发送参数（收件人、正文、附件、会话头部和自定义 X- 头部）
+   */
+  async getDraft(uid: number): Promise<EmailDraft | null> {
+    const folder = await this.getDraftsFolder();
+    const lock = await this.openBox(folder);
+
+    let source: Buffer;
+    try {
+      const message = await lock.client.fetchOne(String(uid), { source: true }, { uid: true });
+      if (!message || !message.source) {
+        return null;
+      }
+      source = message.source;
+    } finally {
+      lock.release();
+    }
+
+    const parsed = await simpleParser(source);
+    const format = (value: AddressObject | AddressObject[] | undefined) =>
+      EmailService.parsedAddresses(value).map(address => ReplyBuilder.formatAddress(address));
+
+    const options: SendEmailOptions = {
+      to: format(parsed.to),
+      subject: parsed.subject || ''
+    };
+    const cc = format(parsed.cc);
+    const bcc = format(parsed.bcc);
+    const replyTo = format(parsed.replyTo);
+    if (cc.length > 0) options.cc = cc;
+    if (bcc.length > 0) options.bcc = bcc;
+    if (replyTo.length > 0) options.replyTo = replyTo;
+    // 只有 HTML 正文时 mailparser 会自动生成 text，不写回草稿
+    if (parsed.text && (!parsed.html || /^content-type:\s*text\/plain/im.test(source.toString('latin1')))) {
+      options.text = parsed.text;
+    }
+    if (parsed.html) options.html = parsed.html;
+
+    // mailparser 将 X-Priority / Importance 统一解析为 priority 头部
+    const priority = parsed.headers.get('priority');
+    if (priority === 'high' || priority === 'low') options.priority = priority;
+    if (parsed.inReplyTo) options.inReplyTo = parsed.inReplyTo;
+    if (parsed.references) {
+      options.references = typeof parsed.references === 'string' ? [parsed.references] : parsed.references;
+    }
+
+    // 只保留自定义的 X- 头部，忽略邮件客户端写入的内部头部
+    const headers: Record<string, string> = {};
+    for (const { key, line } of parsed.headerLines) {
+      if (!key.startsWith('x-') || /^x-(priority|msmail-priority|mailer|mozilla-|apple-|uniform-)/.test(key)) continue;
+      const separator = line.indexOf(':');
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).replace(/\r?\n\s+/g, ' ').trim();
+    }
+    if (Object.keys(headers).length > 0) options.headers = headers;
+
+    if (parsed.attachments.length > 0) {
+      options.attachments = parsed.attachments.map(attachment => {
+        const item: OutgoingAttachment = {
+          filename: attachment.filename || 'attachment',
+          content: attachment.content,
+          contentType: attachment.contentType
+        };
+        if (attachment.cid) item.cid = attachment.cid;
+        return item;
+      });
+    }
+
+    const draft: EmailDraft = { uid, folder, date: parsed.date || new Date(), options };
+    if (parsed.messageId) draft.messageId = parsed.messageId;
+    return draft;
+  }
+
+  /**
+   * 更新草稿：合并修改后保存为新草稿，再删除旧草稿（IMAP 邮件不可原地修改，UID 会变化）
+   * 传入 text 或 html 时替换整个正文
+   */
+  async updateDraft(uid: number, changes: Partial<SendEmailOptions>): Promise<DraftSaveResult> {
+    const draft = await this.getDraft(uid);
+    if (!draft) {
+      throw new Error(`Draft not found with UID: ${uid}`);
+    }
+
+    const current: SendEmailOptions = { ...draft.options };
+    if (changes.text !== undefined || changes.html !== undefined) {
+      delete current.text;
+      delete current.html;
+    }
+    const options: SendEmailOptions = { ...current, ...changes };
+
+    // 先确认旧草稿能被删除，避免保存新草稿后留下重复的草稿
+    const removal = await this.getDraftRemoval();
+    const saved = await this.createDraft(options);
+    try {
+      await this.applyDraftRemoval(uid, draft.folder, removal);
+    } catch (error) {
+      throw new Error(
+        `The updated draft was saved as UID ${saved.uid ?? 'unknown'}, but the previous draft (UID ${uid}) could not be removed: ` +
+        `${error instanceof Error ? error.message : String(error)}. Delete one of them before updating again.`
+      );
+    }
+    Logger.info(`Draft UID ${uid} replaced by UID ${saved.uid ?? 'unknown'}`);
+    return saved;
+  }
+
+  /**
+   * 删除草稿，返回删除方式（永久删除或移到废纸篓）
+   */
+  async deleteDraft(uid: number): Promise<DraftRemoval> {
+    const draft = await this.getDraft(uid);
+    if (!draft) {
+      throw new Error(`Draft not found with UID: ${uid}`);
+    }
+    return this.removeDraft(uid, draft.folder);
+  }
+
+  /**
+   * 从草稿箱删除一封草稿：支持 UIDPLUS 时永久删除，否则支持 MOVE 时移到废纸篓
+   */
+  async removeDraft(uid: number, folder: string): Promise<DraftRemoval> {
+    const removal = await this.getDraftRemoval();
+    await this.applyDraftRemoval(uid, folder, removal);
+    return removal;
+  }
+
+  /**
+   * 发送草稿，发送成功后从草稿箱删除；发送后删除失败时通过 warning 返回原因
+   */
+  async sendDraft(uid: number): Promise<{ draft: EmailDraft; result: SendEmailResult; warning?: string }> {
+    const draft = await this.getDraft(uid);
+    if (!draft) {
+      throw new Error(`Draft not found with UID: ${uid}`);
+    }
+
+    // 发送前确认草稿能被删除，否则发送后草稿仍留在草稿箱中，可能被再次发送
+    const removal = await this.getDraftRemoval();
+    const result = await this.sendEmail(draft.options);
+
+    try {
+      await this.applyDraftRemoval(uid, draft.folder, removal);
+    } catch (error) {
+      // 删除失败不影响发送结果
+      Logger.warn(`Failed to delete draft UID ${uid} after sending`, error);
+      return {
+        draft,
+        result,
+        warning: `The draft could not be removed after sending: ${error instanceof Error ? error.message : String(error)}. Delete it to avoid sending it twice.`
+      };
+    }
+
+    return { draft, result };
+  }
+
+  /**
+   * 确定删除单封草稿的方式；普通 EXPUNGE 会删除文件夹中所有已标记 \Deleted 的邮件，
+   * 而不支持 MOVE 时 ImapFlow 的移动同样依赖 EXPUNGE，两者都不支持时抛出异常
+   */
+  private async getDraftRemoval(): Promise<DraftRemoval> {
+    const capabilities = await this.withImap(async client => client.capabilities);
+    if (capabilities.has('UIDPLUS')) {
+      return { method: 'expunge' };
+    }
+
+    if (capabilities.has('MOVE')) {
+      const trashFolder = await this.findSpecialUseFolder('\\Trash', EmailService.TRASH_FOLDER_NAMES);
+      if (trashFolder) {
+        return { method: 'trash', trashFolder };
+      }
+    }
+
+    throw new Error(
+      'The server supports neither UIDPLUS nor MOVE (with a Trash folder), so a single draft cannot be removed ' +
+      'without also deleting other emails. Edit, send or delete this draft in your mail client instead.'
+    );
+  }
+
+  private async applyDraftRemoval(uid: number, folder: string, removal: DraftRemoval): Promise<void> {
+    if (removal.method === 'expunge') {
+      await this.expungeEmails([uid], folder);
+    } else {
+      await this.moveEmails([uid], removal.trashFolder, folder);
+    }
   }
 
   /**
@@ -858,14 +2423,16 @@ export class EmailService {
    */
   async validateConnection(): Promise<boolean> {
     try {
+      // 使用独立连接验证，避免复用连接池中用旧凭据登录的连接
       await this.connectImap();
-      const lock = await this.openBox();
+      const lock = await this.imapFlow!.getMailboxLock('INBOX');
       lock.release();
-      await this.disconnectImap();
       return true;
     } catch (error) {
       Logger.error('Account validation failed', error);
       return false;
+    } finally {
+      await this.disconnectImap();
     }
   }
 
@@ -873,7 +2440,7 @@ export class EmailService {
    * Check if OAuth token is expired and refresh if possible
    */
   private async checkAndRefreshToken(): Promise<boolean> {
-    if (!this.account || this.account.provider !== 'Gmail') {
+    if (!this.account || !this.account.accessToken) {
       return true; // Not an OAuth account
     }
 
@@ -1062,20 +2629,10 @@ export class EmailService {
   }
 
   /**
-   * 静态方法：测试QQ邮箱连接
+   * 静态方法：测试账户连接（保存账户前验证服务器配置和凭据）
    */
-  static async testQQConnection(email: string, password: string): Promise<boolean> {
-    const config = EmailStorage.getQQEmailConfig();
-    const testAccount: EmailAccount = {
-      email,
-      provider: 'QQ',
-      username: email,
-      password,
-      ...config,
-      isActive: true
-    };
-
-    const service = new EmailService(testAccount);
+  static async testConnection(account: Omit<EmailAccount, 'isActive'>): Promise<boolean> {
+    const service = new EmailService({ ...account, isActive: true });
     return await service.validateConnection();
   }
 
@@ -1083,7 +2640,7 @@ export class EmailService {
    * 静态方法：测试Gmail OAuth连接
    */
   static async testGmailOAuthConnection(email: string, accessToken: string): Promise<boolean> {
-    const config = EmailStorage.getGmailConfig();
+    const config = ProviderRegistry.getSettings('gmail');
     const testAccount: EmailAccount = {
       email,
       provider: 'Gmail',
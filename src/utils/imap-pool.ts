@@ -0,0 +1,207 @@
+/**
+ * IMAP 连接池模块
+ * 按账户复用已登录的 ImapFlow 连接，避免每次操作都重新建立 TLS 连接并登录
+ */
+
+import { ImapFlow } from 'imapflow';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+
+export interface ImapLease {
+  client: ImapFlow;
+  /**
+   * 归还连接，discard 为 true 时关闭连接而不是放回池中（如操作超时、连接状态未知）
+   */
+  release(discard?: boolean): void;
+}
+
+interface PooledConnection {
+  client: ImapFlow;
+  busy: boolean;
+  lastUsed: number;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+interface AccountPool {
+  connections: PooledConnection[];
+  connecting: number;
+  waiters: (() => void)[];
+}
+
+export class ImapConnectionPool {
+  // 空闲超过该时间的连接在复用前先发送 NOOP 检查
+  private static readonly HEALTH_CHECK_AFTER = 30 * 1000;
+
+  private static pools = new Map<string, AccountPool>();
+
+  /**
+   * 获取账户的一个空闲连接，没有空闲连接且未达上限时新建，达到上限时排队等待
+   * 每个连接同一时间只租给一个操作，因此并发的邮箱锁数量不超过连接上限
+   */
+  static async acquire(key: string, connect: () => Promise<ImapFlow>): Promise<ImapLease> {
+    const { maxConnections, acquireTimeout } = Config.getImapPoolConfig();
+    const pool = ImapConnectionPool.getPool(key);
+    const deadline = Date.now() + acquireTimeout;
+
+    for (;;) {
+      const idle = pool.connections.find(connection => !connection.busy);
+      if (idle) {
+        idle.busy = true;
+        if (idle.idleTimer) {
+          clearTimeout(idle.idleTimer);
+          idle.idleTimer = null;
+        }
+
+        if (await ImapConnectionPool.isHealthy(idle)) {
+          return ImapConnectionPool.createLease(key, pool, idle);
+        }
+
+        Logger.warn(`Discarding unhealthy IMAP connection for ${key}`);
+        ImapConnectionPool.remove(pool, idle);
+        continue;
+      }
+
+      if (pool.connections.length + pool.connecting < maxConnections) {
+        pool.connecting++;
+        let client: ImapFlow;
+        try {
+          client = await connect();
+        } catch (error) {
+          ImapConnectionPool.wakeWaiter(pool);
+          throw error;
+        } finally {
+          pool.connecting--;
+        }
+
+        const connection: PooledConnection = { client, busy: true, lastUsed: Date.now(), idleTimer: null };
+        client.on('error', error => {
+          Logger.warn(`Pooled IMAP connection error for ${key}`, error);
+        });
+        client.once('close', () => {
+          ImapConnectionPool.remove(pool, connection);
+        });
+        pool.connections.push(connection);
+        Logger.info(`IMAP pool for ${key}: opened connection ${pool.connections.length}/${maxConnections}`);
+
+        return ImapConnectionPool.createLease(key, pool, connection);
+      }
+
+      await ImapConnectionPool.waitForConnection(key, pool, deadline);
+    }
+  }
+
+  /**
+   * 关闭某个账户的所有连接（如账户被移除或凭据变更）
+   */
+  static async closeAccount(key: string): Promise<void> {
+    const pool = ImapConnectionPool.pools.get(key);
+    if (!pool) return;
+
+    ImapConnectionPool.pools.delete(key);
+    await Promise.all(pool.connections.map(async connection => {
+      if (connection.idleTimer) {
+        clearTimeout(connection.idleTimer);
+      }
+      try {
+        await connection.client.logout();
+      } catch {
+        connection.client.close();
+      }
+    }));
+    pool.waiters.splice(0).forEach(wake => wake());
+  }
+
+  /**
+   * 关闭所有账户的连接
+   */
+  static async closeAll(): Promise<void> {
+    await Promise.all(Array.from(ImapConnectionPool.pools.keys()).map(key => ImapConnectionPool.closeAccount(key)));
+  }
+
+  private static getPool(key: string): AccountPool {
+    let pool = ImapConnectionPool.pools.get(key);
+    if (!pool) {
+      pool = { connections: [], connecting: 0, waiters: [] };
+      ImapConnectionPool.pools.set(key, pool);
+    }
+    return pool;
+  }
+
+  private static async isHealthy(connection: PooledConnection): Promise<boolean> {
+    if (!connection.client.usable) {
+      return false;
+    }
+
+    if (Date.now() - connection.lastUsed > ImapConnectionPool.HEALTH_CHECK_AFTER) {
+      try {
+        await connection.client.noop();
+      } catch {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private static createLease(key: string, pool: AccountPool, connection: PooledConnection): ImapLease {
+    let released = false;
+
+    return {
+      client: connection.client,
+      release: (discard = false) => {
+        if (released) return;
+        released = true;
+
+        if (discard || !connection.client.usable) {
+          ImapConnectionPool.remove(pool, connection);
+          connection.client.close();
+          return;
+        }
+
+        connection.busy = false;
+        connection.lastUsed = Date.now();
+        connection.idleTimer = setTimeout(() => {
+          Logger.info(`Closing idle IMAP connection for ${key}`);
+          ImapConnectionPool.remove(pool, connection);
+          connection.client.logout().catch(() => connection.client.close());
+        }, Config.getImapPoolConfig().idleTimeout);
+        connection.idleTimer.unref();
+
+        ImapConnectionPool.wakeWaiter(pool);
+      }
+    };
+  }
+
+  private static remove(pool: AccountPool, connection: PooledConnection): void {
+    const index = pool.connections.indexOf(connection);
+    if (index === -1) return;
+
+    if (connection.idleTimer) {
+      clearTimeout(connection.idleTimer);
+      connection.idleTimer = null;
+    }
+    pool.connections.splice(index, 1);
+    ImapConnectionPool.wakeWaiter(pool);
+  }
+
+  private static wakeWaiter(pool: AccountPool): void {
+    const wake = pool.waiters.shift();
+    if (wake) wake();
+  }
+
+  private static waitForConnection(key: string, pool: AccountPool, deadline: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        const index = pool.waiters.indexOf(wake);
+        if (index !== -1) pool.waiters.splice(index, 1);
+        reject(new Error(`Timed out waiting for an IMAP connection for ${key}`));
+      }, Math.max(deadline - Date.now(), 0));
+
+      pool.waiters.push(wake);
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * JSON 文件存储模块
+ * 多个 MCP 进程共享同一个 JSON 文件：修改时通过锁文件互斥，先写临时文件再重命名，读取时不会读到半个文件
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Logger } from './logger.js';
+
+export class JsonFileStore<T> {
+  private static readonly LOCK_TIMEOUT = 10 * 1000;
+  private static readonly STALE_LOCK_AGE = 30 * 1000;
+
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private readonly createDefault: () => T;
+  private readonly isValid: (data: unknown) => boolean;
+  // 同一进程内的修改依次执行，跨进程由锁文件保证
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, createDefault: () => T, isValid: (data: unknown) => boolean) {
+    this.filePath = filePath;
+    this.lockPath = `${filePath}.lock`;
+    this.createDefault = createDefault;
+    this.isValid = isValid;
+  }
+
+  /**
+   * 读取数据；文件不存在时返回默认值，文件损坏时备份后返回默认值，避免之后的写入覆盖掉原有数据
+   */
+  async read(): Promise<T> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch {
+      return this.createDefault();
+    }
+
+    try {
+      const data: unknown = JSON.parse(content);
+      if (this.isValid(data)) {
+        return data as T;
+      }
+      throw new Error('Unexpected data structure');
+    } catch (error) {
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      Logger.error(`Invalid data in ${this.filePath}, moved to ${backupPath}`, error);
+      await fs.rename(this.filePath, backupPath).catch(() => undefined);
+      return this.createDefault();
+    }
+  }
+
+  /**
+   * 加锁后读取、修改并写回，返回 mutate 的结果；mutate 抛出异常时不写入
+   */
+  async update<R>(mutate: (data: T) => R): Promise<R> {
+    const run = this.pending.then(async () => {
+      await this.acquireLock();
+      try {
+        const data = await this.read();
+        const result = mutate(data);
+
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+        await fs.rename(tempPath, this.filePath);
+        return result;
+      } finally {
+        await fs.unlink(this.lockPath).catch(() => undefined);
+      }
+    });
+
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 创建锁文件，其他进程持有锁时等待；锁文件超过 30 秒未释放视为遗留
+   */
+  private async acquireLock(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + JsonFileStore.LOCK_TIMEOUT;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stat = await fs.stat(this.lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > JsonFileStore.STALE_LOCK_AGE) {
+        Logger.warn(`Removing stale lock file: ${this.lockPath}`);
+        await fs.unlink(this.lockPath).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the lock on ${this.filePath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+}
\ No newline at end of file
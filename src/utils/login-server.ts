@@ -7,14 +7,24 @@ import express, { Request, Response } from 'express';
 import cors from 'cors';
 import { EmailStorage } from './storage.js';
 import { EmailService } from './email-service.js';
+import { ProviderRegistry, ServerSettings, CUSTOM_PROVIDER } from './providers.js';
+import { MailAutodiscovery } from './autodiscovery.js';
+import { SendApprovals, PendingApproval, ApprovalEdits, ApprovalDecision } from './send-approval.js';
+import { ImapConnectionPool } from './imap-pool.js';
+import { SmtpTransportPool } from './smtp-pool.js';
 import { Logger } from './logger.js';
 import { GMAIL_OAUTH_URL } from './constants.js';
 import { Server } from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
 
 export class LoginServer {
   private app: express.Application;
   private server: Server | undefined;
   private port: number;
+  // 审批页面的登录密钥只输出到服务器日志，登录后以 Cookie 中的会话访问审批页面
+  private readonly reviewKey = randomBytes(24).toString('hex');
+  private readonly reviewSessions = new Set<string>();
+  private static readonly REVIEW_COOKIE = 'mailmcp_review';
 
   constructor(port: number = 3000) {
     this.app = express();
@@ -62,7 +72,7 @@ export class LoginServer {
         tokenExpiry.setSeconds(tokenExpiry.getSeconds() + Number(expires_in || 3600));
 
         // Save Gmail account with OAuth tokens
-        const config = EmailStorage.getGmailConfig();
+        const config = ProviderRegistry.getSettings('gmail');
         await EmailStorage.addOAuthAccount({
           email: String(email),
           displayName: String(email),
@@ -152,7 +162,7 @@ export class LoginServer {
     // 处理登录表单提交
     this.app.post('/login', async (req: Request, res: Response) => {
       try {
-        const { email, password, displayName } = req.body;
+        const { email, password, displayName, provider, username } = req.body;
 
         if (!email || !password) {
           return res.status(400).json({
@@ -170,27 +180,44 @@ export class LoginServer {
           });
         }
 
-        // 测试QQ邮箱连接
-        Logger.info(`Testing connection for email: ${email}`);
-        const isValid = await EmailService.testQQConnection(email, password);
-
-        if (!isValid) {
-          return res.status(401).json({
+        // 确定服务器配置：自定义服务器、指定的服务商或自动发现
+        let providerName: string;
+        let settings: ServerSettings;
+        let discoveredUsername: string | undefined;
+        try {
+          ({ providerName, settings, username: discoveredUsername } = await this.resolveServerSettings(email, provider, req.body));
+        } catch (error) {
+          return res.status(400).json({
             success: false,
-            message: 'Invalid credentials or connection failed. Please check your email and password.'
+            message: error instanceof Error ? error.message : 'Invalid server settings'
           });
         }
 
-        // 保存账户信息
-        const config = EmailStorage.getQQEmailConfig();
-        await EmailStorage.addAccount({
+        const account = {
           email,
           displayName: displayName || email,
-          provider: 'QQ',
-          username: email,
+          provider: providerName,
+          username: username || discoveredUsername || email,
           password,
-          ...config
-        });
+          ...settings
+        };
+
+        // 测试邮箱连接
+        Logger.info(`Testing ${providerName} connection for email: ${email} (${settings.imapHost}:${settings.imapPort})`);
+        const isValid = await EmailService.testConnection(account);
+
+        if (!isValid) {
+          const hint = ProviderRegistry.get(providerName)?.passwordHint;
+          return res.status(401).json({
+            success: false,
+            message: 'Invalid credentials or connection failed. Please check your email and password.' + (hint ? ` (${hint})` : '')
+          });
+        }
+
+        // 保存账户信息，并断开使用旧凭据建立的连接
+        await EmailStorage.addAccount(account);
+        await ImapConnectionPool.closeAccount(email);
+        SmtpTransportPool.closeAccount(email);
 
         Logger.info(`Account saved successfully: ${email}`);
 
@@ -200,7 +227,7 @@ export class LoginServer {
           account: {
             email,
             displayName: displayName || email,
-            provider: 'QQ'
+            provider: providerName
           }
         });
 
@@ -215,6 +242,30 @@ export class LoginServer {
       }
     });
 
+    // 自动发现邮箱服务器配置，供登录页面预览
+    this.app.get('/autodiscover', async (req: Request, res: Response) => {
+      const email = typeof req.query.email === 'string' ? req.query.email.trim() : '';
+      if (!email.includes('@')) {
+        return res.status(400).json({
+          success: false,
+          message: 'Email is required'
+        });
+      }
+
+      const result = await MailAutodiscovery.discover(email);
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          message: `Cannot detect the mail server settings for ${email}`
+        });
+      }
+
+      return res.json({
+        success: true,
+        ...result
+      });
+    });
+
     // 获取已保存的账户列表
     this.app.get('/accounts', async (_req: Request, res: Response) => {
       try {
@@ -288,7 +339,7 @@ export class LoginServer {
         }
 
         // 获取Gmail配置
-        const gmailConfig = EmailStorage.getGmailConfig();
+        const gmailConfig = ProviderRegistry.getSettings('gmail');
 
         // 构建OAuth账户数据，直接保存到accounts数组
         const oauthAccount = {
@@ -345,10 +396,10 @@ export class LoginServer {
 
         // Get account from storage
         const account = await EmailStorage.getAccount(email);
-        if (!account || account.provider !== 'Gmail') {
+        if (!account || !account.refreshToken) {
           return res.status(404).json({
             success: false,
-            message: 'Gmail account not found'
+            message: 'OAuth account not found'
           });
         }
 
@@ -454,6 +505,53 @@ export class LoginServer {
       }
     });
 
+    // 发送审批：待审批列表、审批页面，以及批准和拒绝接口
+    this.app.use('/review', (req: Request, res: Response, next: () => void) => this.rejectNonLocal(req, res, next));
+    this.app.use('/review', (req: Request, res: Response, next: () => void) => this.rejectCrossOrigin(req, res, next));
+    this.app.use('/review', (req: Request, res: Response, next: () => void) => this.requireReviewSession(req, res, next));
+
+    this.app.get('/review', async (_req: Request, res: Response) => {
+      const approvals = await SendApprovals.list(true);
+      res.send(this.getReviewListHTML(approvals.slice(0, 50)));
+    });
+
+    this.app.get('/review/:id', async (req: Request, res: Response) => {
+      const approval = await SendApprovals.get(req.params.id || '');
+      if (!approval) {
+        return res.status(404).send(this.getReviewLayoutHTML('Not found', '<p>Approval request not found.</p>'));
+      }
+      return res.send(this.getReviewPageHTML(approval));
+    });
+
+    this.app.post('/review/:id/:decision', async (req: Request, res: Response) => {
+      const { decision } = req.params;
+      if (decision !== 'approve' && decision !== 'reject') {
+        return res.status(404).json({ success: false, message: 'Unknown action' });
+      }
+
+      const { token, edits, reason } = req.body as { token?: string; edits?: ApprovalEdits; reason?: string };
+      const approvalDecision: ApprovalDecision = { decidedBy: 'web' };
+      if (typeof token === 'string') approvalDecision.token = token;
+      if (decision === 'approve' && edits && typeof edits === 'object') approvalDecision.edits = edits;
+      if (decision === 'reject' && reason) approvalDecision.reason = String(reason);
+
+      try {
+        const approval = decision === 'approve'
+          ? await SendApprovals.approve(req.params.id || '', approvalDecision)
+          : await SendApprovals.reject(req.params.id || '', approvalDecision);
+
+        return res.json({
+          success: approval.status !== 'failed',
+          status: approval.status,
+          message: approval.status === 'failed' ? `Sending failed: ${approval.error}` : `Email ${approval.status}`
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        Logger.error(`Failed to ${decision} email ${req.params.id}`, error);
+        return res.status(400).json({ success: false, message: errorMessage });
+      }
+    });
+
     // 健康检查
     this.app.get('/health', (_req: Request, res: Response) => {
       res.json({
@@ -464,14 +562,64 @@ export class LoginServer {
     });
   }
 
+  /**
+   * 根据登录表单确定服务器配置
+   * 填写了服务器地址或选择自定义时使用自定义配置，否则使用指定服务商或按邮箱域名匹配的预设
+   */
+  private async resolveServerSettings(
+    email: string,
+    provider: string | undefined,
+    body: Record<string, unknown>
+  ): Promise<{ providerName: string; settings: ServerSettings; username?: string | undefined }> {
+    const isCustom = provider?.toLowerCase() === CUSTOM_PROVIDER.toLowerCase() || !!body.imapHost || !!body.smtpHost;
+
+    if (isCustom) {
+      const parsePort = (value: unknown) => value === undefined || value === '' ? undefined : Number(value);
+      const parseBoolean = (value: unknown) => value === undefined || value === '' ? undefined : value === true || value === 'true' || value === 'on';
+
+      const custom: Partial<ServerSettings> = {};
+      if (typeof body.imapHost === 'string') custom.imapHost = body.imapHost.trim();
+      if (typeof body.smtpHost === 'string') custom.smtpHost = body.smtpHost.trim();
+      const imapPort = parsePort(body.imapPort);
+      const smtpPort = parsePort(body.smtpPort);
+      const secure = parseBoolean(body.secure);
+      const smtpSecure = parseBoolean(body.smtpSecure);
+      if (imapPort !== undefined) custom.imapPort = imapPort;
+      if (smtpPort !== undefined) custom.smtpPort = smtpPort;
+      if (secure !== undefined) custom.secure = secure;
+      if (smtpSecure !== undefined) custom.smtpSecure = smtpSecure;
+
+      return { providerName: CUSTOM_PROVIDER, settings: ProviderRegistry.validateSettings(custom) };
+    }
+
+    if (provider) {
+      const preset = ProviderRegistry.get(provider);
+      if (!preset) {
+        throw new Error(`Unknown email provider: ${provider}`);
+      }
+      return { providerName: preset.name, settings: { ...preset.settings } };
+    }
+
+    const discovered = await MailAutodiscovery.discover(email);
+    if (!discovered) {
+      throw new Error(`Cannot detect the mail server settings for ${email}. Please choose a provider or enter custom server settings.`);
+    }
+
+    return { providerName: discovered.providerName, settings: discovered.settings, username: discovered.username };
+  }
+
   private getLoginPageHTML(): string {
+    const providerOptions = ProviderRegistry.list()
+      .map(provider => `<option value="${provider.id}" data-hint="${provider.passwordHint || ''}">${provider.name}</option>`)
+      .join('');
+
     return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>QQ邮箱登录</title>
+    <title>邮箱登录</title>
     <style>
         * {
             margin: 0;
@@ -518,6 +666,27 @@ export class LoginServer {
             padding: 30px;
         }
 
+        .hint {
+            margin-top: 5px;
+            font-size: 13px;
+            color: #666;
+        }
+
+        .custom-settings {
+            display: none;
+        }
+
+        .custom-settings.visible {
+            display: block;
+        }
+
+        .checkbox-label {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-weight: normal;
+        }
+
         .form-group {
             margin-bottom: 20px;
         }
@@ -531,7 +700,9 @@ export class LoginServer {
 
         input[type="email"],
         input[type="password"],
-        input[type="text"] {
+        input[type="text"],
+        input[type="number"],
+        select {
             width: 100%;
             padding: 12px;
             border: 2px solid #e0e0e0;
@@ -542,7 +713,9 @@ export class LoginServer {
 
         input[type="email"]:focus,
         input[type="password"]:focus,
-        input[type="text"]:focus {
+        input[type="text"]:focus,
+        input[type="number"]:focus,
+        select:focus {
             outline: none;
             border-color: #1976d2;
         }
@@ -711,7 +884,7 @@ export class LoginServer {
     <div class="container">
         <div class="header">
             <h1>邮箱登录</h1>
-            <p>支持QQ邮箱和Gmail登录</p>
+            <p>支持QQ、163/126、Outlook、iCloud、Yahoo、Fastmail、Yandex、Zoho 等邮箱及自定义 IMAP/SMTP 服务器</p>
         </div>
         
         <div class="form-container">
@@ -728,14 +901,49 @@ export class LoginServer {
             </button>
 
             <div class="divider">
-                <span>或使用QQ邮箱登录</span>
+                <span>或使用邮箱密码 / 授权码登录</span>
             </div>
 
             <form id="loginForm">
                 <div class="form-group">
-                    <label for="email">QQ邮箱地址</label>
+                    <label for="email">邮箱地址</label>
                     <input type="email" id="email" name="email" required 
-                           placeholder="请输入QQ邮箱地址">
+                           placeholder="请输入邮箱地址">
+                </div>
+
+                <div class="form-group">
+                    <label for="provider">邮箱服务商</label>
+                    <select id="provider" name="provider">
+                        <option value="">根据邮箱地址自动识别</option>
+                        ${providerOptions}
+                        <option value="${CUSTOM_PROVIDER}">自定义服务器</option>
+                    </select>
+                    <div class="hint" id="providerHint"></div>
+                </div>
+
+                <div class="custom-settings" id="customSettings">
+                    <div class="form-group">
+                        <label for="imapHost">IMAP 服务器</label>
+                        <input type="text" id="imapHost" placeholder="imap.example.com">
+                    </div>
+                    <div class="form-group">
+                        <label for="imapPort">IMAP 端口</label>
+                        <input type="number" id="imapPort" value="993">
+                        <label class="checkbox-label"><input type="checkbox" id="secure" checked> 使用 SSL/TLS（否则使用 STARTTLS）</label>
+                    </div>
+                    <div class="form-group">
+                        <label for="smtpHost">SMTP 服务器</label>
+                        <input type="text" id="smtpHost" placeholder="smtp.example.com">
+                    </div>
+                    <div class="form-group">
+                        <label for="smtpPort">SMTP 端口</label>
+                        <input type="number" id="smtpPort" value="465">
+                        <label class="checkbox-label"><input type="checkbox" id="smtpSecure" checked> 使用 SSL/TLS（否则使用 STARTTLS）</label>
+                    </div>
+                    <div class="form-group">
+                        <label for="username">用户名（可选，默认为邮箱地址）</label>
+                        <input type="text" id="username" placeholder="user@example.com">
+                    </div>
                 </div>
                 
                 <div class="form-group">
@@ -751,7 +959,7 @@ export class LoginServer {
                 </div>
                 
                 <button type="submit" class="submit-btn" id="submitBtn">
-                    QQ邮箱登录
+                    登录并保存
                 </button>
             </form>
             
@@ -770,9 +978,40 @@ export class LoginServer {
             const accountsList = document.getElementById('accountsList');
             const gmailBtn = document.getElementById('gmailBtn');
 
+            const providerSelect = document.getElementById('provider');
+            const providerHint = document.getElementById('providerHint');
+            const customSettings = document.getElementById('customSettings');
+
             // 加载已保存的账户
             loadAccounts();
 
+            // 切换服务商时显示授权码提示，选择自定义服务器时显示服务器配置
+            providerSelect.addEventListener('change', function() {
+                const option = providerSelect.options[providerSelect.selectedIndex];
+                providerHint.textContent = option.dataset.hint || '';
+                customSettings.classList.toggle('visible', providerSelect.value === '${CUSTOM_PROVIDER}');
+            });
+
+            // 自动识别模式下，输入邮箱后预览自动发现的服务器配置
+            document.getElementById('email').addEventListener('change', async function(e) {
+                if (providerSelect.value || !e.target.value.includes('@')) return;
+
+                providerHint.textContent = '正在检测邮箱服务器...';
+                try {
+                    const response = await fetch('/autodiscover?email=' + encodeURIComponent(e.target.value));
+                    const result = await response.json();
+                    if (result.success) {
+                        const settings = result.settings;
+                        providerHint.textContent = '检测到 ' + result.providerName + '：IMAP ' + settings.imapHost + ':' + settings.imapPort +
+                            '，SMTP ' + settings.smtpHost + ':' + settings.smtpPort;
+                    } else {
+                        providerHint.textContent = '未能自动检测，请选择服务商或填写自定义服务器。';
+                    }
+                } catch (error) {
+                    providerHint.textContent = '';
+                }
+            });
+
             // Gmail OAuth 登录处理
             gmailBtn.addEventListener('click', async function() {
                 // showMessage('正在启动Gmail授权登录...', 'success');
@@ -802,6 +1041,16 @@ export class LoginServer {
                 
                 const formData = new FormData(loginForm);
                 const data = Object.fromEntries(formData);
+
+                if (providerSelect.value === '${CUSTOM_PROVIDER}') {
+                    data.imapHost = document.getElementById('imapHost').value;
+                    data.imapPort = document.getElementById('imapPort').value;
+                    data.smtpHost = document.getElementById('smtpHost').value;
+                    data.smtpPort = document.getElementById('smtpPort').value;
+                    data.secure = document.getElementById('secure').checked;
+                    data.smtpSecure = document.getElementById('smtpSecure').checked;
+                    data.username = document.getElementById('username').value;
+                }
                 
                 // 显示加载状态
                 submitBtn.disabled = true;
@@ -900,12 +1149,247 @@ export class LoginServer {
 </html>`;
   }
 
+  /**
+   * 审批页面只对本机开放：服务器监听所有网卡，局域网内的其他设备不能访问审批页面；
+   * 同时校验 Host，防止 DNS 重绑定后由外部网页访问
+   */
+  private rejectNonLocal(req: Request, res: Response, next: () => void): void {
+    const address = req.socket.remoteAddress || '';
+    const isLoopback = address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.');
+    const hostname = req.hostname.toLowerCase();
+    if (!isLoopback || !['localhost', '127.0.0.1', '[::1]'].includes(hostname)) {
+      res.status(403).json({ success: false, message: 'The review page is only available on localhost' });
+      return;
+    }
+    next();
+  }
+
+  /**
+   * 审批页面只接受同源请求：全局 CORS 允许任意来源，需防止其他网页读取审批令牌或代替用户批准。
+   * 批准和拒绝等 POST 请求必须带有同源的 Origin 或 Sec-Fetch-Site，缺少这两个请求头时同样拒绝
+   */
+  private rejectCrossOrigin(req: Request, res: Response, next: () => void): void {
+    const origin = req.headers.origin;
+    const fetchSite = req.headers['sec-fetch-site'];
+    let sameOrigin = false;
+    if (origin) {
+      try {
+        sameOrigin = new URL(origin).host === req.headers.host;
+      } catch {
+        // Origin 为 null 等无法解析的值时视为跨域
+      }
+    }
+
+    const unsafe = req.method !== 'GET' && req.method !== 'HEAD';
+    if ((origin && !sameOrigin) || (unsafe && (fetchSite ? fetchSite !== 'same-origin' : !sameOrigin))) {
+      res.status(403).json({ success: false, message: 'Cross-origin requests are not allowed' });
+      return;
+    }
+    next();
+  }
+
+  /**
+   * 审批页面需要登录：通过日志中带密钥的链接访问时创建会话并写入 Cookie，之后凭 Cookie 访问。
+   * 工具响应中的审批地址不含密钥，AI 无法自行打开审批页面获取审批令牌
+   */
+  private requireReviewSession(req: Request, res: Response, next: () => void): void {
+    const key = req.query.key;
+    if (req.method === 'GET' && typeof key === 'string') {
+      if (!LoginServer.safeEqual(key, this.reviewKey)) {
+        res.status(403).send(this.getReviewLayoutHTML('Sign-in failed', '<p>The review key is invalid. Use the review link from the MailMCP server log.</p>'));
+        return;
+      }
+      const session = randomBytes(24).toString('hex');
+      this.reviewSessions.add(session);
+      res.cookie(LoginServer.REVIEW_COOKIE, session, { httpOnly: true, sameSite: 'lax', path: '/review' });
+      res.redirect(req.originalUrl.split('?')[0] || '/review');
+      return;
+    }
+
+    const session = LoginServer.readCookie(req, LoginServer.REVIEW_COOKIE);
+    if (!session || !this.reviewSessions.has(session)) {
+      res.status(401).send(this.getReviewLayoutHTML('Sign-in required', `
+        <p>Open the review link shown in the MailMCP server log to sign in, then reload this page.</p>
+        <p class="hint">The link looks like http://localhost:${this.port}/review?key=...</p>`));
+      return;
+    }
+    next();
+  }
+
+  private static readCookie(req: Request, name: string): string | undefined {
+    for (const part of (req.headers.cookie || '').split(';')) {
+      const index = part.indexOf('=');
+      if (index !== -1 && part.slice(0, index).trim() === name) {
+        return part.slice(index + 1).trim();
+      }
+    }
+    return undefined;
+  }
+
+  private static safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private getReviewLayoutHTML(title: string, body: string): string {
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${LoginServer.escapeHtml(title)}</title>
+    <style>
+        * { box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f5f5f5; margin: 0; padding: 30px 15px; color: #333; }
+        .container { background: white; border-radius: 10px; box-shadow: 0 15px 35px rgba(0,0,0,0.1); max-width: 800px; margin: 0 auto; overflow: hidden; }
+        .header { background: #1976d2; color: white; padding: 20px; }
+        .header h1 { font-size: 22px; margin: 0; }
+        .content { padding: 25px; }
+        table { width: 100%; border-collapse: collapse; font-size: 14px; }
+        th, td { text-align: left; padding: 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+        label { display: block; font-weight: 600; margin: 15px 0 5px; }
+        input[type="text"], textarea { width: 100%; padding: 10px; border: 2px solid #e0e0e0; border-radius: 6px; font-size: 14px; font-family: inherit; }
+        textarea { min-height: 160px; }
+        iframe { width: 100%; height: 300px; border: 1px solid #e0e0e0; border-radius: 6px; }
+        .status { display: inline-block; padding: 2px 8px; border-radius: 4px; background: #eee; font-size: 12px; }
+        .status.pending { background: #fff3cd; }
+        .status.sent, .status.queued { background: #d4edda; }
+        .status.rejected, .status.failed, .status.expired { background: #f8d7da; }
+        .actions { display: flex; gap: 10px; margin-top: 20px; }
+        button { flex: 1; padding: 12px; border: none; border-radius: 6px; font-size: 16px; font-weight: 600; cursor: pointer; color: white; }
+        .approve-btn { background: #2e7d32; }
+        .reject-btn { background: #c62828; }
+        button:disabled { background: #ccc; cursor: not-allowed; }
+        .message { padding: 10px; margin-top: 20px; border-radius: 4px; display: none; }
+        .message.success { display: block; background: #d4edda; color: #155724; }
+        .message.error { display: block; background: #f8d7da; color: #721c24; }
+        .hint { font-size: 13px; color: #666; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header"><h1>${LoginServer.escapeHtml(title)}</h1></div>
+        <div class="content">${body}</div>
+    </div>
+</body>
+</html>`;
+  }
+
+  private getReviewListHTML(approvals: PendingApproval[]): string {
+    if (approvals.length === 0) {
+      return this.getReviewLayoutHTML('Outgoing emails', '<p>No emails are waiting for approval.</p>');
+    }
+
+    const rows = approvals.map(approval => `
+            <tr>
+                <td><span class="status ${approval.status}">${approval.status}</span></td>
+                <td>${LoginServer.escapeHtml(new Date(approval.createdAt).toLocaleString())}</td>
+                <td>${LoginServer.escapeHtml(approval.account)}</td>
+                <td><a href="/review/${approval.id}">${LoginServer.escapeHtml(approval.options.subject || '(no subject)')}</a></td>
+            </tr>`).join('');
+
+    return this.getReviewLayoutHTML('Outgoing emails', `
+        <table>
+            <tr><th>Status</th><th>Created</th><th>From</th><th>Subject</th></tr>${rows}
+        </table>`);
+  }
+
+  private getReviewPageHTML(approval: PendingApproval): string {
+    const { options } = approval;
+    const escape = LoginServer.escapeHtml;
+    const list = (value: string | string[] | undefined) => (Array.isArray(value) ? value : value ? [value] : []).join(', ');
+    const editable = approval.status === 'pending';
+    const attachments = (options.attachments || [])
+      .map(attachment => `${escape(attachment.filename)} (${escape(attachment.contentType)}, ${Math.floor(attachment.content.length * 3 / 4)} bytes)`)
+      .join('<br>');
+
+    const details = `
+        <table>
+            <tr><th>Status</th><td><span class="status ${approval.status}">${approval.status}</span>${approval.error ? ` ${escape(approval.error)}` : ''}</td></tr>
+            <tr><th>From</th><td>${escape(approval.account)}</td></tr>
+            <tr><th>Requested by</th><td>${escape(approval.source)} at ${escape(new Date(approval.createdAt).toLocaleString())}</td></tr>
+            ${approval.sendAt ? `<tr><th>Scheduled for</th><td>${escape(new Date(approval.sendAt).toLocaleString())}</td></tr>` : ''}
+            ${attachments ? `<tr><th>Attachments</th><td>${attachments}</td></tr>` : ''}
+            ${approval.status === 'pending' ? `<tr><th>Expires</th><td>${escape(new Date(approval.expiresAt).toLocaleString())}</td></tr>` : ''}
+        </table>`;
+
+    const field = (name: string, label: string, value: string, multiline: boolean = false) => multiline
+      ? `<label for="${name}">${label}</label><textarea id="${name}" ${editable ? '' : 'readonly'}>${escape(value)}</textarea>`
+      : `<label for="${name}">${label}</label><input type="text" id="${name}" value="${escape(value)}" ${editable ? '' : 'readonly'}>`;
+
+    const form = `
+        ${field('to', 'To', list(options.to))}
+        ${field('cc', 'Cc', list(options.cc))}
+        ${field('bcc', 'Bcc', list(options.bcc))}
+        ${field('subject', 'Subject', options.subject)}
+        ${field('text', 'Text', options.text || '', true)}
+        ${options.html !== undefined ? `${field('html', 'HTML', options.html, true)}
+        <label>HTML preview</label><iframe sandbox="" srcdoc="${escape(options.html)}"></iframe>` : ''}`;
+
+    const actions = editable ? `
+        <label for="reason">Reason (optional, when rejecting)</label>
+        <input type="text" id="reason">
+        <p class="hint">Changes made above are applied before sending.</p>
+        <div class="actions">
+            <button class="approve-btn" onclick="decide('approve')">Approve and send</button>
+            <button class="reject-btn" onclick="decide('reject')">Reject</button>
+        </div>
+        <div id="message" class="message"></div>
+        <script>
+            async function decide(decision) {
+                document.querySelectorAll('button').forEach(button => button.disabled = true);
+                const edits = {};
+                ['to', 'cc', 'bcc', 'subject', 'text', 'html'].forEach(name => {
+                    const element = document.getElementById(name);
+                    if (element) edits[name] = element.value;
+                });
+                const message = document.getElementById('message');
+                try {
+                    const response = await fetch('/review/${approval.id}/' + decision, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ token: '${approval.token}', edits, reason: document.getElementById('reason').value })
+                    });
+                    const result = await response.json();
+                    message.className = 'message ' + (result.success ? 'success' : 'error');
+                    message.textContent = result.message;
+                    if (result.success) {
+                        setTimeout(() => location.reload(), 1000);
+                    } else {
+                        document.querySelectorAll('button').forEach(button => button.disabled = false);
+                    }
+                } catch (error) {
+                    message.className = 'message error';
+                    message.textContent = 'Request failed: ' + error.message;
+                    document.querySelectorAll('button').forEach(button => button.disabled = false);
+                }
+            }
+        </script>` : '';
+
+    return this.getReviewLayoutHTML('Review outgoing email', `${details}${form}${actions}<p class="hint"><a href="/review">All outgoing emails</a></p>`);
+  }
+
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         this.server = this.app.listen(this.port, '0.0.0.0', () => {
           Logger.info(`Login server started on port ${this.port}`);
           Logger.info(`Visit http://localhost:${this.port}/login to login`);
+          SendApprovals.registerReviewServer(this.port);
+          if (SendApprovals.isRequired()) {
+            Logger.info(`Review outgoing emails at http://localhost:${this.port}/review?key=${this.reviewKey}`);
+          }
           resolve();
         });
         
@@ -923,6 +1407,7 @@ export class LoginServer {
   async stop(): Promise<void> {
     return new Promise((resolve) => {
       if (this.server) {
+        SendApprovals.unregisterReviewServer(this.port);
         this.server.close(() => {
           Logger.info('Login server stopped');
           resolve();
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MailMerge } from './mail-merge.js';
+
+describe('MailMerge.render', () => {
+  it('fills placeholders and formats the recipient with the display name', () => {
+    const message = MailMerge.render(
+      { subject: 'Hello {{ name }}', text: 'Welcome {{name}} from {{company}}, seat {{seat}}' },
+      { email: ' alice@example.com ', name: 'Alice', company: 'ACME', seat: 12 }
+    );
+
+    assert.deepEqual(message, {
+      to: '"Alice" <alice@example.com>',
+      subject: 'Hello Alice',
+      text: 'Welcome Alice from ACME, seat 12'
+    });
+  });
+
+  it('uses defaults for empty values and fails on missing values without a default', () => {
+    const template = { subject: 'Hi {{name|there}}', text: 'Dear {{title}}' };
+
+    assert.equal(MailMerge.render(template, { email: 'a@example.com', name: '', title: 'Dr.' }).subject, 'Hi there');
+    assert.throws(() => MailMerge.render(template, { email: 'a@example.com', title: null }), /missing value for \{\{title\}\}/);
+  });
+
+  it('escapes values in html unless triple braces are used', () => {
+    const message = MailMerge.render(
+      { subject: 'News', html: '<p>{{note}}</p>{{{footer}}}' },
+      { email: 'a@example.com', note: 'Tom & "Jerry" <b>', footer: '<hr>' }
+    );
+
+    assert.equal(message.html, '<p>Tom &amp; &quot;Jerry&quot; &lt;b&gt;</p><hr>');
+  });
+
+  it('does not let values inject header lines into the subject or recipient', () => {
+    const message = MailMerge.render(
+      { subject: 'Hi {{name}}' },
+      { email: 'a@example.com', name: 'Eve\r\nBcc: x@evil.com "\\' }
+    );
+
+    assert.equal(message.subject, 'Hi Eve Bcc: x@evil.com "\\');
+    assert.equal(message.to, '"EveBcc: x@evil.com" <a@example.com>');
+  });
+
+  it('requires an email field', () => {
+    assert.throws(() => MailMerge.render({ subject: 'Hi' }, { name: 'Alice' }), /email field is required/);
+  });
+});
+
+describe('MailMerge.getFields', () => {
+  it('lists each field used in the template once', () => {
+    assert.deepEqual(
+      MailMerge.getFields({ subject: '{{name}} {{event|party}}', text: '{{name}}', html: '{{{footer}}}' }),
+      ['name', 'event', 'footer']
+    );
+  });
+});
+
+describe('MailMerge.parseCsv', () => {
+  it('parses a header row and trims values', () => {
+    assert.deepEqual(MailMerge.parseCsv('email, name\r\n a@example.com ,Alice\r\nb@example.com,Bob\r\n'), [
+      { email: 'a@example.com', name: 'Alice' },
+      { email: 'b@example.com', name: 'Bob' }
+    ]);
+  });
+
+  it('handles quoted fields with commas, escaped quotes and line breaks', () => {
+    const csv = '\uFEFFemail,company,note\na@example.com,"ACME, Inc.","Say ""hi""\nsecond line"';
+
+    assert.deepEqual(MailMerge.parseCsv(csv), [
+      { email: 'a@example.com', company: 'ACME, Inc.', note: 'Say "hi"\nsecond line' }
+    ]);
+  });
+
+  it('skips blank lines and fills missing columns with empty values', () => {
+    assert.deepEqual(MailMerge.parseCsv('email,name\n\na@example.com\n\n'), [{ email: 'a@example.com', name: '' }]);
+  });
+
+  it('reports rows with too many columns by line number', () => {
+    assert.throws(
+      () => MailMerge.parseCsv('email,name\n"a@example.com","multi\nline"\nb@example.com,Bob,extra'),
+      /CSV line 4: 3 columns, but the header has 2/
+    );
+  });
+
+  it('rejects unterminated quotes and invalid headers', () => {
+    assert.throws(() => MailMerge.parseCsv('email\n"a@example.com'), /CSV line 2: unterminated quoted field/);
+    assert.throws(() => MailMerge.parseCsv('email,,name'), /empty column name/);
+    assert.throws(() => MailMerge.parseCsv('email,name,email'), /duplicate column: email/);
+    assert.throws(() => MailMerge.parseCsv('\n\n'), /CSV is empty/);
+  });
+});
\ No newline at end of file
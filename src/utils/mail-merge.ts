@@ -0,0 +1,166 @@
+/**
+ * 邮件合并模块
+ * 用收件人记录填充模板中的 {{字段}} 占位符，为每个收件人生成一封邮件；收件人记录可以从 CSV 解析
+ */
+
+export type MergeRecord = Record<string, string | number | boolean | null>;
+
+export interface MergeTemplate {
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+export interface MergedMessage {
+  to: string;
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+export class MailMerge {
+  /**
+   * {{field}}、{{field|默认值}}，以及 HTML 中不转义的 {{{field}}}
+   */
+  private static readonly PLACEHOLDER = /\{\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}\}|\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+  /**
+   * 生成一个收件人的邮件：email 字段为收件地址，有 name 字段时作为显示名称
+   * 缺少字段且没有默认值时抛出异常，避免发出带空白占位的邮件
+   */
+  static render(template: MergeTemplate, record: MergeRecord): MergedMessage {
+    const email = typeof record.email === 'string' ? record.email.trim() : '';
+    if (!email) {
+      throw new Error('email field is required');
+    }
+    const name = typeof record.name === 'string' ? record.name.replace(/["\\\r\n]/g, '').trim() : '';
+
+    const message: MergedMessage = {
+      to: name ? `"${name}" <${email}>` : email,
+      // 主题中的换行替换为空格，防止头部注入
+      subject: MailMerge.fill(template.subject, record, false).replace(/[\r\n]+/g, ' ').trim()
+    };
+    if (template.text !== undefined) message.text = MailMerge.fill(template.text, record, false);
+    if (template.html !== undefined) message.html = MailMerge.fill(template.html, record, true);
+    return message;
+  }
+
+  /**
+   * 模板中使用的字段名
+   */
+  static getFields(template: MergeTemplate): string[] {
+    const fields = new Set<string>();
+    for (const part of [template.subject, template.text, template.html]) {
+      for (const match of (part || '').matchAll(MailMerge.PLACEHOLDER)) {
+        fields.add((match[1] ?? match[3])!);
+      }
+    }
+    return Array.from(fields);
+  }
+
+  /**
+   * 解析 CSV 收件人列表（RFC 4180）：第一行为字段名，字段值可用双引号包含逗号、换行，"" 表示一个双引号
+   * 空行忽略，字段值去掉两端空白，缺少的列视为空值，列数多于字段名时抛出异常
+   */
+  static parseCsv(csv: string): MergeRecord[] {
+    const rows: { line: number; values: string[] }[] = [];
+    let values: string[] = [];
+    let value = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+      values.push(value);
+      // 空行（只有一个空字段）不计入记录
+      if (values.length > 1 || values[0]!.trim() !== '') {
+        rows.push({ line: rowLine, values });
+      }
+      values = [];
+      value = '';
+    };
+
+    const text = csv.replace(/^\uFEFF/, '');
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') line++;
+          value += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        values.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        endRow();
+        line++;
+        rowLine = line;
+      } else {
+        value += char;
+      }
+    }
+    if (quoted) {
+      throw new Error(`CSV line ${rowLine}: unterminated quoted field`);
+    }
+    if (value !== '' || values.length > 0) {
+      endRow();
+    }
+
+    const header = rows.shift();
+    if (!header) {
+      throw new Error('CSV is empty');
+    }
+    const fields = header.values.map(field => field.trim());
+    const duplicate = fields.find((field, index) => fields.indexOf(field) !== index);
+    if (fields.some(field => !field) || duplicate) {
+      throw new Error(duplicate ? `CSV header has a duplicate column: ${duplicate}` : 'CSV header has an empty column name');
+    }
+
+    return rows.map(row => {
+      if (row.values.length > fields.length) {
+        throw new Error(`CSV line ${row.line}: ${row.values.length} columns, but the header has ${fields.length}`);
+      }
+      const record: MergeRecord = {};
+      fields.forEach((field, index) => {
+        record[field] = (row.values[index] ?? '').trim();
+      });
+      return record;
+    });
+  }
+
+  private static fill(template: string, record: MergeRecord, html: boolean): string {
+    return template.replace(MailMerge.PLACEHOLDER, (...groups: (string | undefined)[]) => {
+      const raw = groups[1] !== undefined;
+      const field = (groups[1] ?? groups[3])!;
+      const fallback = raw ? groups[2] : groups[4];
+      const value = record[field];
+      let text: string;
+      if (value === undefined || value === null || value === '') {
+        if (fallback === undefined) {
+          throw new Error(`missing value for {{${field}}}`);
+        }
+        text = fallback.trim();
+      } else {
+        text = String(value);
+      }
+      return html && !raw ? MailMerge.escapeHtml(text) : text;
+    });
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,166 @@
+/**
+ * 新邮件监听模块
+ * 为每个已激活账户保持一个 IMAP IDLE 连接，有新邮件时通知监听者
+ */
+
+import { EmailService, EmailMessage } from './email-service.js';
+import { EmailStorage } from './storage.js';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+
+export interface NewMailEvent {
+  account: string;
+  folder: string;
+  emails: EmailMessage[];
+}
+
+export type NewMailListener = (event: NewMailEvent) => void | Promise<void>;
+
+interface AccountWatch {
+  service: EmailService;
+  stopped: boolean;
+  reconnectDelay: number;
+  reconnectTimer: NodeJS.Timeout | null;
+}
+
+export class MailWatcher {
+  private static readonly MIN_RECONNECT_DELAY = 5 * 1000;
+  private static readonly MAX_RECONNECT_DELAY = 5 * 60 * 1000;
+
+  private watches = new Map<string, AccountWatch>();
+  private syncTimer: NodeJS.Timeout | null = null;
+  private listeners: NewMailListener[] = [];
+  private readonly folder: string;
+  private readonly syncInterval: number;
+
+  constructor() {
+    const config = Config.getWatcherConfig();
+    this.folder = config.folder;
+    this.syncInterval = config.syncInterval;
+  }
+
+  /**
+   * 注册新邮件监听者
+   */
+  onNewMail(listener: NewMailListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * 启动监听，并定期同步账户列表（新登录的账户自动加入，移除的账户自动断开）
+   */
+  async start(): Promise<void> {
+    await this.syncAccounts();
+    this.syncTimer = setInterval(() => {
+      this.syncAccounts().catch(error => Logger.error('Failed to sync watched accounts', error));
+    }, this.syncInterval);
+    this.syncTimer.unref();
+  }
+
+  /**
+   * 停止所有监听
+   */
+  async stop(): Promise<void> {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    await Promise.all(Array.from(this.watches.keys()).map(email => this.unwatch(email)));
+  }
+
+  /**
+   * 获取正在监听的账户
+   */
+  getWatchedAccounts(): string[] {
+    return Array.from(this.watches.keys());
+  }
+
+  /**
+   * 根据存储中的已激活账户增减 IDLE 连接
+   */
+  private async syncAccounts(): Promise<void> {
+    const accounts = (await EmailStorage.getAllAccounts()).filter(account => account.isActive);
+    const activeEmails = new Set(accounts.map(account => account.email));
+
+    for (const email of this.watches.keys()) {
+      if (!activeEmails.has(email)) {
+        await this.unwatch(email);
+      }
+    }
+
+    for (const account of accounts) {
+      if (!this.watches.has(account.email)) {
+        const watch: AccountWatch = {
+          service: new EmailService(account),
+          stopped: false,
+          reconnectDelay: MailWatcher.MIN_RECONNECT_DELAY,
+          reconnectTimer: null
+        };
+        this.watches.set(account.email, watch);
+        await this.connect(account.email, watch);
+      }
+    }
+  }
+
+  /**
+   * 建立 IDLE 连接，失败或断开后按指数退避重连
+   */
+  private async connect(email: string, watch: AccountWatch): Promise<void> {
+    try {
+      await watch.service.watchMailbox(
+        this.folder,
+        emails => this.emit({ account: email, folder: this.folder, emails }),
+        () => this.scheduleReconnect(email, watch)
+      );
+      watch.reconnectDelay = MailWatcher.MIN_RECONNECT_DELAY;
+    } catch (error) {
+      Logger.error(`Failed to watch ${email}/${this.folder}`, error);
+      await watch.service.disconnectImap().catch(() => undefined);
+      this.scheduleReconnect(email, watch);
+    }
+  }
+
+  private scheduleReconnect(email: string, watch: AccountWatch): void {
+    if (watch.stopped || watch.reconnectTimer) return;
+
+    Logger.warn(`IMAP watch for ${email} closed, reconnecting in ${Math.round(watch.reconnectDelay / 1000)}s`);
+    watch.reconnectTimer = setTimeout(() => {
+      watch.reconnectTimer = null;
+      if (!watch.stopped) {
+        void this.connect(email, watch);
+      }
+    }, watch.reconnectDelay);
+    watch.reconnectTimer.unref();
+    watch.reconnectDelay = Math.min(watch.reconnectDelay * 2, MailWatcher.MAX_RECONNECT_DELAY);
+  }
+
+  private async unwatch(email: string): Promise<void> {
+    const watch = this.watches.get(email);
+    if (!watch) return;
+
+    watch.stopped = true;
+    if (watch.reconnectTimer) {
+      clearTimeout(watch.reconnectTimer);
+      watch.reconnectTimer = null;
+    }
+    this.watches.delete(email);
+
+    try {
+      await watch.service.disconnectImap();
+    } catch (error) {
+      Logger.warn(`Error closing IMAP watch for ${email}`, error);
+    }
+    Logger.info(`Stopped watching ${email}`);
+  }
+
+  private async emit(event: NewMailEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        Logger.error('New mail listener failed', error);
+      }
+    }
+  }
+}
\ No newline at end of file
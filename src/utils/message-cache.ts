@@ -0,0 +1,226 @@
+/**
+ * 本地邮件缓存模块
+ * 按 账户/文件夹/UIDVALIDITY/UID 缓存邮件信封、标记和解析后的正文，重复读取时无需再次下载
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { EmailAttachment, EmailMessage } from './email-service.js';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+
+export interface CachedMessage {
+  uid: number;
+  from: string;
+  to: string;
+  subject: string;
+  date: string;
+  body: string;
+  flags: string[];
+  size: number;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  threadId?: string;
+  attachments: Omit<EmailAttachment, 'data'>[];
+  text?: string;
+}
+
+export interface CachedFolder {
+  account: string;
+  folder: string;
+  uidValidity: string;
+  highestModseq?: string;
+  syncedAt: string;
+  messages: Record<string, CachedMessage>;
+}
+
+export class MessageCache {
+  // 列表中的 body 是原始 TEXT 部分，缓存只保留预览，完整正文由 text 字段保存
+  private static readonly BODY_PREVIEW_LENGTH = 2000;
+
+  private static folders = new Map<string, CachedFolder>();
+  private static fileTimes = new Map<string, number>();
+
+  /**
+   * 读取文件夹缓存，UIDVALIDITY 不一致时视为失效并返回空缓存
+   */
+  static async load(account: string, folder: string, uidValidity: string): Promise<CachedFolder> {
+    const key = MessageCache.getKey(account, folder);
+    let cache = MessageCache.folders.get(key);
+
+    if (!cache) {
+      try {
+        const data = await fs.readFile(MessageCache.getFilePath(account, folder), 'utf8');
+        cache = JSON.parse(data) as CachedFolder;
+      } catch {
+        // 缓存文件不存在或已损坏，重新建立
+      }
+    }
+
+    if (!cache || cache.uidValidity !== uidValidity || !cache.messages) {
+      if (cache) {
+        Logger.info(`UIDVALIDITY changed for ${account}/${folder}, discarding cached messages`);
+      }
+      cache = { account, folder, uidValidity, syncedAt: new Date().toISOString(), messages: {} };
+    } else {
+      cache.account = account;
+      cache.folder = folder;
+    }
+
+    MessageCache.folders.set(key, cache);
+    return cache;
+  }
+
+  /**
+   * 写入文件夹缓存，超过上限时淘汰 UID 最小（最旧）的邮件
+   */
+  static async save(account: string, folder: string, cache: CachedFolder): Promise<void> {
+    const { maxMessagesPerFolder } = Config.getCacheConfig();
+    const uids = Object.keys(cache.messages).map(Number).sort((a, b) => a - b);
+    for (const uid of uids.slice(0, Math.max(uids.length - maxMessagesPerFolder, 0))) {
+      delete cache.messages[uid];
+    }
+
+    cache.syncedAt = new Date().toISOString();
+    MessageCache.folders.set(MessageCache.getKey(account, folder), cache);
+
+    const filePath = MessageCache.getFilePath(account, folder);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // 先写临时文件再重命名，避免多个进程同时写入时读到半个文件
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(cache), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      Logger.warn(`Failed to write message cache for ${account}/${folder}`, error);
+    }
+  }
+
+  /**
+   * 读取缓存目录中所有文件夹的缓存（供全文索引使用），只重新读取修改过的文件
+   */
+  static async loadAll(): Promise<CachedFolder[]> {
+    const { cacheDir } = Config.getCacheConfig();
+    const filePaths: string[] = [];
+
+    try {
+      for (const accountDir of await fs.readdir(cacheDir)) {
+        const files = await fs.readdir(path.join(cacheDir, accountDir)).catch(() => [] as string[]);
+        files
+          .filter(file => file.endsWith('.json'))
+          .forEach(file => filePaths.push(path.join(cacheDir, accountDir, file)));
+      }
+    } catch {
+      // 缓存目录还不存在
+    }
+
+    for (const filePath of filePaths) {
+      try {
+        const { mtimeMs } = await fs.stat(filePath);
+        if (MessageCache.fileTimes.get(filePath) === mtimeMs) continue;
+
+        const cache = JSON.parse(await fs.readFile(filePath, 'utf8')) as CachedFolder;
+        MessageCache.fileTimes.set(filePath, mtimeMs);
+        if (!cache.account || !cache.folder || !cache.messages) continue;
+
+        // 其他进程写入了更新的缓存时才替换内存中的副本
+        const key = MessageCache.getKey(cache.account, cache.folder);
+        const current = MessageCache.folders.get(key);
+        if (!current || current.syncedAt < cache.syncedAt) {
+          MessageCache.folders.set(key, cache);
+        }
+      } catch (error) {
+        Logger.warn(`Failed to read message cache file ${filePath}`, error);
+      }
+    }
+
+    return Array.from(MessageCache.folders.values());
+  }
+
+  /**
+   * 清除账户的全部缓存（或所有账户）
+   */
+  static async clear(account?: string): Promise<void> {
+    const { cacheDir } = Config.getCacheConfig();
+
+    if (account) {
+      for (const key of MessageCache.folders.keys()) {
+        if (key.startsWith(`${account}\n`)) MessageCache.folders.delete(key);
+      }
+      await fs.rm(path.join(cacheDir, MessageCache.hashName(account)), { recursive: true, force: true });
+    } else {
+      MessageCache.folders.clear();
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * 把邮件转换为缓存格式
+   */
+  static toCachedMessage(message: EmailMessage, attachments: EmailAttachment[]): CachedMessage {
+    const cached: CachedMessage = {
+      uid: message.uid,
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      date: message.date.toISOString(),
+      body: message.body.slice(0, MessageCache.BODY_PREVIEW_LENGTH),
+      flags: message.flags,
+      size: message.size,
+      attachments: attachments.map(attachment => ({
+        ...(attachment.part ? { part: attachment.part } : {}),
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.size
+      }))
+    };
+
+    if (message.messageId) cached.messageId = message.messageId;
+    if (message.inReplyTo) cached.inReplyTo = message.inReplyTo;
+    if (message.references) cached.references = message.references;
+    if (message.threadId) cached.threadId = message.threadId;
+
+    return cached;
+  }
+
+  /**
+   * 把缓存的邮件还原为 EmailMessage（序号可能已经变化，由调用方补充）
+   */
+  static toEmailMessage(cached: CachedMessage, seqno: number = 0): EmailMessage {
+    const message: EmailMessage = {
+      uid: cached.uid,
+      seqno,
+      from: cached.from,
+      to: cached.to,
+      subject: cached.subject,
+      date: new Date(cached.date),
+      body: cached.body,
+      flags: cached.flags,
+      size: cached.size
+    };
+
+    if (cached.messageId) message.messageId = cached.messageId;
+    if (cached.inReplyTo) message.inReplyTo = cached.inReplyTo;
+    if (cached.references) message.references = cached.references;
+    if (cached.threadId) message.threadId = cached.threadId;
+
+    return message;
+  }
+
+  private static getKey(account: string, folder: string): string {
+    return `${account}\n${folder}`;
+  }
+
+  /**
+   * 账户和文件夹名可能包含文件系统不允许的字符，统一使用哈希作为文件名
+   */
+  private static hashName(name: string): string {
+    return createHash('sha1').update(name).digest('hex').slice(0, 16);
+  }
+
+  private static getFilePath(account: string, folder: string): string {
+    return path.join(Config.getCacheConfig().cacheDir, MessageCache.hashName(account), `${MessageCache.hashName(folder)}.json`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * 发件箱投递模块
+ * 定期检查发件箱，发送到期的邮件，临时性错误时按指数退避重试
+ */
+
+import { EmailService } from './email-service.js';
+import { Outbox, OutboxMessage } from './outbox.js';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+
+export class OutboxWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopped = false;
+  private readonly pollInterval: number;
+
+  constructor() {
+    this.pollInterval = Config.getOutboxConfig().pollInterval;
+  }
+
+  /**
+   * 启动投递，立即检查一次，之后按间隔定期检查
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.poll();
+    this.timer = setInterval(() => void this.poll(), this.pollInterval);
+    this.timer.unref();
+  }
+
+  /**
+   * 停止投递，等待正在发送的邮件完成
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * 检查并发送到期邮件，上一轮未结束时不重复执行
+   */
+  private poll(): Promise<void> {
+    if (!this.running) {
+      this.running = this.deliverDue()
+        .catch(error => Logger.error('Failed to process outbox', error))
+        .finally(() => {
+          this.running = null;
+        });
+    }
+    return this.running;
+  }
+
+  private async deliverDue(): Promise<void> {
+    while (!this.stopped) {
+      const message = await Outbox.claimNext();
+      if (!message) return;
+      await this.deliver(message);
+    }
+  }
+
+  private async deliver(message: OutboxMessage): Promise<void> {
+    try {
+      const emailService = await EmailService.createFromAccount(message.account);
+      const result = await emailService.sendEmail(Outbox.toSendOptions(message.options));
+      await Outbox.markSent(message.id, result);
+      Logger.info(`Outbox message ${message.id} sent: ${result.messageId}`);
+    } catch (error) {
+      const updated = await Outbox.markFailed(message.id, error);
+      if (Outbox.isQuotaExhausted(error)) {
+        Logger.warn(`Outbox message ${message.id} deferred to ${updated.nextAttemptAt}: ${updated.lastError}`);
+      } else if (updated.status === 'queued') {
+        Logger.warn(`Outbox message ${message.id} failed (attempt ${updated.attempts}), retrying at ${updated.nextAttemptAt}`, error);
+      } else {
+        Logger.error(`Outbox message ${message.id} failed after ${updated.attempts} attempt(s)`, error);
+      }
+    }
+  }
+}
\ No newline at end of file
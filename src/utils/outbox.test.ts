@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Outbox, OutboxMessage } from './outbox.js';
+import { SendPolicyViolation } from './send-policy.js';
+
+const smtpError = (fields: { code?: string; responseCode?: number }) => Object.assign(new Error('SMTP error'), fields);
+
+const message = (attempts: number = 0): OutboxMessage => ({
+  id: 'm1',
+  account: 'me@example.com',
+  options: { to: 'a@example.com', subject: 'Hi', text: 'Hello' },
+  status: 'sending',
+  createdAt: '2025-01-06T08:00:00.000Z',
+  sendAt: '2025-01-06T09:00:00.000Z',
+  nextAttemptAt: '2025-01-06T09:00:00.000Z',
+  attempts,
+  claimedBy: 1234,
+  claimedAt: '2025-01-06T09:00:00.000Z'
+});
+
+describe('Outbox.isTransientError', () => {
+  it('retries SMTP 4xx responses', () => {
+    assert.equal(Outbox.isTransientError(smtpError({ code: 'EENVELOPE', responseCode: 421 })), true);
+    assert.equal(Outbox.isTransientError(smtpError({ responseCode: 451 })), true);
+  });
+
+  it('does not retry SMTP 5xx responses, even with a network error code', () => {
+    assert.equal(Outbox.isTransientError(smtpError({ responseCode: 550 })), false);
+    assert.equal(Outbox.isTransientError(smtpError({ code: 'ECONNECTION', responseCode: 535 })), false);
+  });
+
+  it('retries network errors without an SMTP response', () => {
+    assert.equal(Outbox.isTransientError(smtpError({ code: 'ETIMEDOUT' })), true);
+    assert.equal(Outbox.isTransientError(smtpError({ code: 'ECONNREFUSED' })), true);
+  });
+
+  it('does not retry other errors', () => {
+    assert.equal(Outbox.isTransientError(smtpError({ code: 'EAUTH' })), false);
+    assert.equal(Outbox.isTransientError(new Error('Either text or html content is required')), false);
+    assert.equal(Outbox.isTransientError('ETIMEDOUT'), false);
+    assert.equal(Outbox.isTransientError(null), false);
+  });
+});
+
+describe('Outbox.getRetryDelay', () => {
+  it('starts at one minute and doubles after each failure', () => {
+    assert.deepEqual([1, 2, 3, 4].map(Outbox.getRetryDelay), [60_000, 120_000, 240_000, 480_000]);
+  });
+
+  it('is capped at one hour', () => {
+    assert.equal(Outbox.getRetryDelay(7), 60 * 60 * 1000);
+    assert.equal(Outbox.getRetryDelay(30), 60 * 60 * 1000);
+  });
+
+  it('treats zero attempts like the first failure', () => {
+    assert.equal(Outbox.getRetryDelay(0), 60_000);
+  });
+});
+
+describe('Outbox.applyFailure', () => {
+  const now = new Date(2025, 0, 6, 15, 30);
+
+  it('defers the message to the next local midnight when the daily limit is reached', () => {
+    const item = message(2);
+    Outbox.applyFailure(item, new SendPolicyViolation('daily-limit', 'Daily send limit reached'), 3, now);
+
+    assert.equal(item.status, 'queued');
+    assert.equal(item.nextAttemptAt, new Date(2025, 0, 7).toISOString());
+    assert.equal(item.attempts, 2);
+    assert.equal(item.lastError, 'Daily send limit reached');
+    assert.equal(item.claimedBy, undefined);
+  });
+
+  it('retries transient errors with backoff until the maximum number of attempts', () => {
+    const item = message(0);
+    Outbox.applyFailure(item, smtpError({ responseCode: 421 }), 2, now);
+
+    assert.equal(item.status, 'queued');
+    assert.equal(item.attempts, 1);
+    assert.equal(item.nextAttemptAt, new Date(now.getTime() + 60_000).toISOString());
+
+    Outbox.applyFailure(item, smtpError({ responseCode: 421 }), 2, now);
+    assert.equal(item.status, 'failed');
+    assert.equal(item.attempts, 2);
+  });
+
+  it('fails on other policy violations and permanent errors', () => {
+    const blocked = message();
+    Outbox.applyFailure(blocked, new SendPolicyViolation('blocked-recipient', 'Recipient blocked'), 3, now);
+    assert.equal(blocked.status, 'failed');
+
+    const rejected = message();
+    Outbox.applyFailure(rejected, smtpError({ responseCode: 550 }), 3, now);
+    assert.equal(rejected.status, 'failed');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,291 @@
+/**
+ * 发件箱模块
+ * 将定时发送和等待重试的邮件保存在 ~/.mailmcp/outbox.json（与 storage.json 同目录），重启后继续投递
+ */
+
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { SendEmailOptions, SendEmailResult } from './email-service.js';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+import { JsonFileStore } from './json-file-store.js';
+import { SendPolicy, SendPolicyViolation } from './send-policy.js';
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+/**
+ * 持久化的发送参数，附件内容以 base64 保存
+ */
+export type StoredSendOptions = Omit<SendEmailOptions, 'attachments'> & {
+  attachments?: { filename: string; contentType: string; content: string; cid?: string }[];
+};
+
+export interface OutboxMessage {
+  id: string;
+  account: string;
+  options: StoredSendOptions;
+  status: OutboxStatus;
+  createdAt: string;
+  /** 计划发送时间 */
+  sendAt: string;
+  /** 下次尝试发送的时间，重试时晚于 sendAt */
+  nextAttemptAt: string;
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  result?: SendEmailResult;
+  /** 正在发送的进程和开始时间，用于识别进程意外退出时中断的发送 */
+  claimedBy?: number;
+  claimedAt?: string;
+}
+
+interface OutboxData {
+  messages: OutboxMessage[];
+}
+
+export class Outbox {
+  private static readonly store = new JsonFileStore<OutboxData>(
+    path.join(os.homedir(), '.mailmcp', 'outbox.json'),
+    () => ({ messages: [] }),
+    data => Array.isArray((data as OutboxData | null)?.messages)
+  );
+  /** 超过该时间仍处于 sending 状态的邮件视为发送中断 */
+  private static readonly STALE_SENDING_AGE = 10 * 60 * 1000;
+  /** 已发送和已取消的邮件保留时间 */
+  private static readonly FINISHED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+  private static readonly MIN_RETRY_DELAY = 60 * 1000;
+  private static readonly MAX_RETRY_DELAY = 60 * 60 * 1000;
+  private static readonly TRANSIENT_ERROR_CODES = [
+    'ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN'
+  ];
+
+  /**
+   * 将邮件加入发件箱，sendAt 已过去时在下次检查时立即发送
+   */
+  static async enqueue(account: string, options: SendEmailOptions, sendAt: Date): Promise<OutboxMessage> {
+    const now = new Date().toISOString();
+    const message: OutboxMessage = {
+      id: randomUUID(),
+      account,
+      options: Outbox.toStoredOptions(options),
+      status: 'queued',
+      createdAt: now,
+      sendAt: sendAt.toISOString(),
+      nextAttemptAt: sendAt.toISOString(),
+      attempts: 0
+    };
+
+    await Outbox.update(data => data.messages.push(message));
+    Logger.info(`Email queued in outbox: ${message.id} (send at ${message.sendAt})`);
+    return message;
+  }
+
+  /**
+   * 列出发件箱中的邮件（按下次发送时间排序），默认不含已发送和已取消的邮件
+   */
+  static async list(account?: string, includeFinished: boolean = false): Promise<OutboxMessage[]> {
+    const { messages } = await Outbox.store.read();
+    return messages
+      .filter(message => !account || message.account === account)
+      .filter(message => includeFinished || (message.status !== 'sent' && message.status !== 'cancelled'))
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt));
+  }
+
+  /**
+   * 修改发送时间；发送失败的邮件会重新排队并重置尝试次数
+   */
+  static async reschedule(id: string, sendAt: Date, account?: string): Promise<OutboxMessage> {
+    return Outbox.update(data => {
+      const message = Outbox.findMessage(data, id, account);
+      if (message.status !== 'queued' && message.status !== 'failed') {
+        throw new Error(`Outbox message ${id} is ${message.status} and cannot be rescheduled`);
+      }
+
+      message.status = 'queued';
+      message.sendAt = sendAt.toISOString();
+      message.nextAttemptAt = message.sendAt;
+      message.attempts = 0;
+      delete message.lastError;
+      return { ...message };
+    });
+  }
+
+  /**
+   * 取消尚未发送的邮件
+   */
+  static async cancel(id: string, account?: string): Promise<OutboxMessage> {
+    return Outbox.update(data => {
+      const message = Outbox.findMessage(data, id, account);
+      if (message.status !== 'queued' && message.status !== 'failed') {
+        throw new Error(`Outbox message ${id} is ${message.status} and cannot be cancelled`);
+      }
+
+      message.status = 'cancelled';
+      return { ...message };
+    });
+  }
+
+  /**
+   * 取出一封到期的邮件并标记为发送中，没有到期邮件时返回 null
+   * 同时将中断的发送标记为失败（可能已经发出，不自动重试，避免重复发送）
+   */
+  static async claimNext(now: Date = new Date()): Promise<OutboxMessage | null> {
+    return Outbox.update(data => {
+      for (const message of data.messages) {
+        if (message.status === 'sending' && now.getTime() - Date.parse(message.claimedAt || '') > Outbox.STALE_SENDING_AGE) {
+          message.status = 'failed';
+          message.lastError = 'Sending was interrupted. The email may have been delivered; check the Sent folder before rescheduling it.';
+          Logger.warn(`Outbox message ${message.id} was interrupted while sending`);
+        }
+      }
+
+      const message = data.messages
+        .filter(item => item.status === 'queued' && Date.parse(item.nextAttemptAt) <= now.getTime())
+        .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))[0];
+      if (!message) {
+        return null;
+      }
+
+      message.status = 'sending';
+      message.claimedBy = process.pid;
+      message.claimedAt = now.toISOString();
+      return { ...message };
+    });
+  }
+
+  /**
+   * 记录发送成功
+   */
+  static async markSent(id: string, result: SendEmailResult): Promise<void> {
+    await Outbox.update(data => {
+      const message = Outbox.findMessage(data, id);
+      message.status = 'sent';
+      message.attempts += 1;
+      message.sentAt = new Date().toISOString();
+      message.result = result;
+      delete message.lastError;
+      delete message.claimedBy;
+      delete message.claimedAt;
+    });
+  }
+
+  /**
+   * 记录发送失败：临时性错误按指数退避重试，超过最大次数或永久性错误时标记为失败
+   */
+  static async markFailed(id: string, error: unknown): Promise<OutboxMessage> {
+    const { maxAttempts } = Config.getOutboxConfig();
+
+    return Outbox.update(data => {
+      const message = Outbox.findMessage(data, id);
+      Outbox.applyFailure(message, error, maxAttempts);
+      return { ...message };
+    });
+  }
+
+  /**
+   * 根据发送错误更新邮件状态。达到每日发送上限时推迟到额度重置后重新发送，不计入尝试次数
+   */
+  static applyFailure(message: OutboxMessage, error: unknown, maxAttempts: number, now: Date = new Date()): void {
+    message.lastError = error instanceof Error ? error.message : String(error);
+    delete message.claimedBy;
+    delete message.claimedAt;
+
+    if (Outbox.isQuotaExhausted(error)) {
+      message.status = 'queued';
+      message.nextAttemptAt = SendPolicy.getDailyResetTime(now).toISOString();
+      return;
+    }
+
+    message.attempts += 1;
+    if (Outbox.isTransientError(error) && message.attempts < maxAttempts) {
+      message.status = 'queued';
+      message.nextAttemptAt = new Date(now.getTime() + Outbox.getRetryDelay(message.attempts)).toISOString();
+    } else {
+      message.status = 'failed';
+    }
+  }
+
+  /**
+   * 判断是否因达到每日发送上限而失败
+   */
+  static isQuotaExhausted(error: unknown): boolean {
+    return error instanceof SendPolicyViolation && error.rule === 'daily-limit';
+  }
+
+  /**
+   * 判断是否为临时性错误：SMTP 4xx 响应或网络错误
+   */
+  static isTransientError(error: unknown): boolean {
+    if (!error || typeof error !== 'object') {
+      return false;
+    }
+
+    const { code, responseCode } = error as { code?: string; responseCode?: number };
+    if (typeof responseCode === 'number') {
+      return responseCode >= 400 && responseCode < 500;
+    }
+    return !!code && Outbox.TRANSIENT_ERROR_CODES.includes(code);
+  }
+
+  /**
+   * 第 n 次失败后的重试间隔：1 分钟起每次翻倍，最长 1 小时
+   */
+  static getRetryDelay(attempts: number): number {
+    return Math.min(Outbox.MIN_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), Outbox.MAX_RETRY_DELAY);
+  }
+
+  /**
+   * 还原为可直接发送的参数
+   */
+  static toSendOptions(options: StoredSendOptions): SendEmailOptions {
+    const { attachments, ...rest } = options;
+    const result: SendEmailOptions = { ...rest };
+    if (attachments) {
+      result.attachments = attachments.map(({ content, ...attachment }) => ({
+        ...attachment,
+        content: Buffer.from(content, 'base64')
+      }));
+    }
+    return result;
+  }
+
+  /**
+   * 转换为可持久化的参数，附件内容转为 base64
+   */
+  static toStoredOptions(options: SendEmailOptions): StoredSendOptions {
+    const { attachments, ...rest } = options;
+    const result: StoredSendOptions = { ...rest };
+    if (attachments) {
+      result.attachments = attachments.map(({ content, ...attachment }) => ({
+        ...attachment,
+        content: content.toString('base64')
+      }));
+    }
+    return result;
+  }
+
+  private static findMessage(data: OutboxData, id: string, account?: string): OutboxMessage {
+    const message = data.messages.find(item => item.id === id && (!account || item.account === account));
+    if (!message) {
+      throw new Error(`Outbox message not found: ${id}`);
+    }
+    return message;
+  }
+
+  /**
+   * 修改发件箱，同时清理过期的已发送和已取消邮件
+   */
+  private static async update<T>(mutate: (data: OutboxData) => T): Promise<T> {
+    return Outbox.store.update(data => {
+      const result = mutate(data);
+
+      const cutoff = Date.now() - Outbox.FINISHED_RETENTION;
+      data.messages = data.messages.filter(message =>
+        (message.status !== 'sent' && message.status !== 'cancelled') ||
+        Date.parse(message.sentAt || message.createdAt) > cutoff
+      );
+      return result;
+    });
+  }
+}
\ No newline at end of file
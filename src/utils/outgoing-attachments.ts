@@ -0,0 +1,168 @@
+/**
+ * 发送附件处理模块
+ * 将 base64 内容、允许目录内的本地文件或已有邮件中的附件转换为待发送附件，并检查大小和类型限制
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { detectMimeType } from 'nodemailer/lib/mime-funcs/mime-types.js';
+import { Config } from './config.js';
+import { SendPolicy } from './send-policy.js';
+import { Logger } from './logger.js';
+
+export interface OutgoingAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  /** 内嵌图片的 Content-ID，HTML 中以 cid: 引用 */
+  cid?: string;
+}
+
+/**
+ * 附件来源：content（base64）、path（本地文件）、uid + part/filename（已有邮件中的附件）三选一
+ */
+export interface OutgoingAttachmentInput {
+  filename?: string;
+  contentType?: string;
+  content?: string;
+  path?: string;
+  account?: string;
+  folder?: string;
+  uid?: number;
+  part?: string;
+}
+
+/**
+ * 下载已有邮件中的附件，maxBytes 为剩余的大小额度
+ */
+export type MessageAttachmentLoader = (
+  input: OutgoingAttachmentInput & { uid: number },
+  maxBytes: number
+) => Promise<OutgoingAttachment>;
+
+export class OutgoingAttachments {
+  /**
+   * 解析所有附件输入，超过总大小或类型受限时抛出异常
+   */
+  static async resolve(inputs: OutgoingAttachmentInput[], loadFromMessage: MessageAttachmentLoader): Promise<OutgoingAttachment[]> {
+    const { maxTotalSize } = Config.getOutgoingAttachmentConfig();
+    const attachments: OutgoingAttachment[] = [];
+    let totalSize = 0;
+
+    for (const [index, input] of inputs.entries()) {
+      const sources = [input.content !== undefined, input.path !== undefined, input.uid !== undefined].filter(Boolean).length;
+      if (sources !== 1) {
+        throw new Error(`Attachment ${index + 1}: provide exactly one of content (base64), path, or uid (with part or filename)`);
+      }
+
+      const remaining = maxTotalSize - totalSize;
+      let attachment: OutgoingAttachment;
+      if (input.content !== undefined) {
+        attachment = OutgoingAttachments.fromBase64(input, index);
+      } else if (input.path !== undefined) {
+        attachment = await OutgoingAttachments.fromPath(input.path, input, remaining);
+      } else {
+        if (!input.part && !input.filename) {
+          throw new Error(`Attachment ${index + 1}: part or filename is required to reference an attachment of email UID ${input.uid}`);
+        }
+        attachment = await loadFromMessage(input as OutgoingAttachmentInput & { uid: number }, remaining);
+        if (input.filename) attachment.filename = path.basename(input.filename);
+        if (input.contentType) attachment.contentType = input.contentType;
+      }
+
+      totalSize += attachment.content.length;
+      if (totalSize > maxTotalSize) {
+        throw new Error(`Attachments too large: total size exceeds ${maxTotalSize} bytes (at ${attachment.filename})`);
+      }
+      attachments.push(attachment);
+    }
+
+    OutgoingAttachments.validate(attachments);
+    return attachments;
+  }
+
+  /**
+   * 检查附件总大小和类型限制，发送前调用
+   */
+  static validate(attachments: OutgoingAttachment[] | undefined): void {
+    if (!attachments || attachments.length === 0) return;
+
+    const { maxTotalSize } = Config.getOutgoingAttachmentConfig();
+    const totalSize = attachments.reduce((sum, attachment) => sum + attachment.content.length, 0);
+    if (totalSize > maxTotalSize) {
+      throw new Error(`Attachments too large: ${totalSize} bytes in total (limit: ${maxTotalSize} bytes)`);
+    }
+
+    for (const attachment of attachments) {
+      SendPolicy.checkAttachment(attachment.filename, attachment.contentType);
+    }
+  }
+
+  /**
+   * 解码 base64 内容，支持 data URL 形式
+   */
+  private static fromBase64(input: OutgoingAttachmentInput, index: number): OutgoingAttachment {
+    if (!input.filename) {
+      throw new Error(`Attachment ${index + 1}: filename is required for base64 content`);
+    }
+
+    let data = input.content!.trim();
+    let contentType = input.contentType;
+    const dataUrl = data.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,/i);
+    if (dataUrl) {
+      contentType = contentType || dataUrl[1];
+      data = data.slice(dataUrl[0].length);
+    }
+
+    data = data.replace(/\s+/g, '');
+    if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(data)) {
+      throw new Error(`Attachment ${input.filename}: content is not valid base64`);
+    }
+
+    const filename = path.basename(input.filename);
+    return {
+      filename,
+      content: Buffer.from(data, 'base64'),
+      contentType: contentType || detectMimeType(filename)
+    };
+  }
+
+  /**
+   * 读取本地文件，只允许读取配置的目录（解析符号链接后判断）
+   */
+  private static async fromPath(filePath: string, input: OutgoingAttachmentInput, maxBytes: number): Promise<OutgoingAttachment> {
+    const { allowedRoots } = Config.getOutgoingAttachmentConfig();
+
+    let realPath: string;
+    try {
+      realPath = await fs.realpath(path.resolve(filePath));
+    } catch {
+      throw new Error(`Attachment file not found: ${filePath}`);
+    }
+
+    const isAllowed = await Promise.all(allowedRoots.map(async root => {
+      const realRoot = await fs.realpath(root).catch(() => path.resolve(root));
+      const relative = path.relative(realRoot, realPath);
+      return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }));
+    if (!isAllowed.some(Boolean)) {
+      throw new Error(`Attachment path is outside the allowed directories: ${filePath}. Allowed: ${allowedRoots.join(', ')} (configure MAILMCP_ATTACHMENT_ROOTS)`);
+    }
+
+    const stat = await fs.stat(realPath);
+    if (!stat.isFile()) {
+      throw new Error(`Attachment path is not a file: ${filePath}`);
+    }
+    if (stat.size > maxBytes) {
+      throw new Error(`Attachments too large: ${filePath} is ${stat.size} bytes (remaining limit: ${maxBytes} bytes)`);
+    }
+
+    const filename = path.basename(input.filename || realPath);
+    Logger.info(`Attaching local file: ${realPath} (${stat.size} bytes)`);
+    return {
+      filename,
+      content: await fs.readFile(realPath),
+      contentType: input.contentType || detectMimeType(filename)
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+/**
+ * 邮箱服务商注册表
+ * 内置常见服务商的 IMAP/SMTP 配置，也支持完全自定义的服务器
+ */
+
+import { EmailAccount } from './storage.js';
+
+export type ServerSettings = Pick<EmailAccount, 'imapHost' | 'imapPort' | 'smtpHost' | 'smtpPort' | 'secure' | 'smtpSecure'>;
+
+export interface ProviderPreset {
+  id: string;
+  name: string;
+  domains: string[];
+  settings: ServerSettings;
+  auth: 'password' | 'oauth2';
+  passwordHint?: string;
+  /** SMTP 服务器会自动将发出的邮件保存到“已发送”，无需再 APPEND */
+  savesSentMail?: boolean;
+}
+
+export const CUSTOM_PROVIDER = 'Custom';
+
+const BUILTIN_PROVIDERS: ProviderPreset[] = [
+  {
+    id: 'qq',
+    name: 'QQ',
+    domains: ['qq.com', 'vip.qq.com', 'foxmail.com'],
+    settings: { imapHost: 'imap.qq.com', imapPort: 993, smtpHost: 'smtp.qq.com', smtpPort: 465, secure: true },
+    auth: 'password',
+    passwordHint: '使用授权码登录（设置 → 账户 → 开启 IMAP/SMTP 服务后生成）'
+  },
+  {
+    id: 'gmail',
+    name: 'Gmail',
+    domains: ['gmail.com', 'googlemail.com'],
+    settings: { imapHost: 'imap.gmail.com', imapPort: 993, smtpHost: 'smtp.gmail.com', smtpPort: 465, secure: true },
+    auth: 'oauth2',
+    passwordHint: 'Use OAuth login, or an app password if 2-Step Verification is enabled',
+    savesSentMail: true
+  },
+  {
+    id: '163',
+    name: '163',
+    domains: ['163.com'],
+    settings: { imapHost: 'imap.163.com', imapPort: 993, smtpHost: 'smtp.163.com', smtpPort: 465, secure: true },
+    auth: 'password',
+    passwordHint: '使用客户端授权码登录（设置 → POP3/SMTP/IMAP 中开启）'
+  },
+  {
+    id: '126',
+    name: '126',
+    domains: ['126.com'],
+    settings: { imapHost: 'imap.126.com', imapPort: 993, smtpHost: 'smtp.126.com', smtpPort: 465, secure: true },
+    auth: 'password',
+    passwordHint: '使用客户端授权码登录（设置 → POP3/SMTP/IMAP 中开启）'
+  },
+  {
+    id: 'outlook',
+    name: 'Outlook',
+    domains: ['outlook.com', 'hotmail.com', 'live.com', 'msn.com'],
+    settings: { imapHost: 'outlook.office365.com', imapPort: 993, smtpHost: 'smtp-mail.outlook.com', smtpPort: 587, secure: true, smtpSecure: false },
+    auth: 'password',
+    passwordHint: 'Use an app password (account.microsoft.com → Security → Advanced security options)',
+    savesSentMail: true
+  },
+  {
+    id: 'icloud',
+    name: 'iCloud',
+    domains: ['icloud.com', 'me.com', 'mac.com'],
+    settings: { imapHost: 'imap.mail.me.com', imapPort: 993, smtpHost: 'smtp.mail.me.com', smtpPort: 587, secure: true, smtpSecure: false },
+    auth: 'password',
+    passwordHint: 'Use an app-specific password (appleid.apple.com → Sign-In and Security)'
+  },
+  {
+    id: 'yahoo',
+    name: 'Yahoo',
+    domains: ['yahoo.com', 'ymail.com', 'rocketmail.com'],
+    settings: { imapHost: 'imap.mail.yahoo.com', imapPort: 993, smtpHost: 'smtp.mail.yahoo.com', smtpPort: 465, secure: true },
+    auth: 'password',
+    passwordHint: 'Use an app password (Account Info → Account security → Generate app password)'
+  },
+  {
+    id: 'fastmail',
+    name: 'Fastmail',
+    domains: ['fastmail.com', 'fastmail.fm'],
+    settings: { imapHost: 'imap.fastmail.com', imapPort: 993, smtpHost: 'smtp.fastmail.com', smtpPort: 465, secure: true },
+    auth: 'password',
+    passwordHint: 'Use an app password (Settings → Privacy & Security → App passwords)'
+  },
+  {
+    id: 'yandex',
+    name: 'Yandex',
+    domains: ['yandex.com', 'yandex.ru', 'ya.ru'],
+    settings: { imapHost: 'imap.yandex.com', imapPort: 993, smtpHost: 'smtp.yandex.com', smtpPort: 465, secure: true },
+    auth: 'password',
+    passwordHint: 'Use an app password for mail (Yandex ID → Security → App passwords)'
+  },
+  {
+    id: 'zoho',
+    name: 'Zoho',
+    domains: ['zoho.com', 'zohomail.com'],
+    settings: { imapHost: 'imap.zoho.com', imapPort: 993, smtpHost: 'smtp.zoho.com', smtpPort: 465, secure: true },
+    auth: 'password',
+    passwordHint: 'Enable IMAP access in Zoho Mail settings; use an app password if 2FA is enabled'
+  }
+];
+
+export class ProviderRegistry {
+  private static providers: ProviderPreset[] = [...BUILTIN_PROVIDERS];
+
+  /**
+   * 注册自定义服务商预设，id 相同时覆盖内置预设
+   */
+  static register(preset: ProviderPreset): void {
+    ProviderRegistry.providers = ProviderRegistry.providers.filter(provider => provider.id !== preset.id);
+    ProviderRegistry.providers.push(preset);
+  }
+
+  /**
+   * 列出所有服务商预设
+   */
+  static list(): ProviderPreset[] {
+    return [...ProviderRegistry.providers];
+  }
+
+  /**
+   * 按 id 或名称查找服务商（不区分大小写）
+   */
+  static get(idOrName: string): ProviderPreset | null {
+    const key = idOrName.toLowerCase();
+    return ProviderRegistry.providers.find(provider =>
+      provider.id === key || provider.name.toLowerCase() === key
+    ) || null;
+  }
+
+  /**
+   * 根据邮箱域名匹配服务商
+   */
+  static findByEmail(email: string): ProviderPreset | null {
+    const domain = email.split('@').pop()?.toLowerCase() || '';
+    return ProviderRegistry.providers.find(provider => provider.domains.includes(domain)) || null;
+  }
+
+  /**
+   * 获取服务商的服务器配置，找不到时抛出异常
+   */
+  static getSettings(idOrName: string): ServerSettings {
+    const provider = ProviderRegistry.get(idOrName);
+    if (!provider) {
+      throw new Error(`Unknown email provider: ${idOrName}. Available: ${ProviderRegistry.providers.map(item => item.id).join(', ')}`);
+    }
+    return { ...provider.settings };
+  }
+
+  /**
+   * 校验自定义服务器配置
+   */
+  static validateSettings(settings: Partial<ServerSettings>): ServerSettings {
+    const { imapHost, imapPort, smtpHost, smtpPort, secure, smtpSecure } = settings;
+
+    if (!imapHost || !smtpHost) {
+      throw new Error('IMAP host and SMTP host are required for a custom account');
+    }
+
+    const isValidPort = (port: unknown): port is number =>
+      typeof port === 'number' && Number.isInteger(port) && port > 0 && port < 65536;
+    if (!isValidPort(imapPort) || !isValidPort(smtpPort)) {
+      throw new Error('IMAP port and SMTP port must be integers between 1 and 65535');
+    }
+
+    const validated: ServerSettings = {
+      imapHost,
+      imapPort,
+      smtpHost,
+      smtpPort,
+      // 未指定时按端口推断：993 / 465 为隐式 TLS，其余端口使用 STARTTLS
+      secure: secure ?? imapPort === 993
+    };
+    validated.smtpSecure = smtpSecure ?? smtpPort === 465;
+
+    return validated;
+  }
+}
\ No newline at end of file
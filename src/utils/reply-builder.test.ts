@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReplyBuilder, OriginalMessage } from './reply-builder.js';
+
+const original = (overrides: Partial<OriginalMessage> = {}): OriginalMessage => ({
+  uid: 10,
+  folder: 'INBOX',
+  messageId: '<m2@example.com>',
+  references: ['<m1@example.com>'],
+  from: [{ name: 'Alice', address: 'alice@example.com' }],
+  replyTo: [],
+  to: [{ name: '', address: 'me@example.com' }, { name: 'Bob', address: 'bob@example.com' }],
+  cc: [{ name: '', address: 'carol@example.com' }, { name: '', address: 'ME@example.com' }],
+  subject: 'Project plan',
+  date: new Date(Date.UTC(2025, 0, 6, 9)),
+  text: 'Shall we meet?',
+  attachments: [],
+  source: Buffer.from(''),
+  ...overrides
+});
+
+describe('ReplyBuilder.computeRecipients', () => {
+  it('replies to the sender only', () => {
+    const { to, cc } = ReplyBuilder.computeRecipients(original(), 'reply', ['me@example.com']);
+
+    assert.deepEqual(to.map(item => item.address), ['alice@example.com']);
+    assert.deepEqual(cc, []);
+  });
+
+  it('prefers Reply-To over From', () => {
+    const message = original({ replyTo: [{ name: '', address: 'list@example.com' }] });
+
+    assert.deepEqual(ReplyBuilder.computeRecipients(message, 'reply', []).to.map(item => item.address), ['list@example.com']);
+  });
+
+  it('copies the other recipients on reply-all without the own address or duplicates', () => {
+    const message = original({ cc: [...original().cc, { name: '', address: 'alice@example.com' }] });
+    const { to, cc } = ReplyBuilder.computeRecipients(message, 'reply-all', ['me@example.com']);
+
+    assert.deepEqual(to.map(item => item.address), ['alice@example.com']);
+    assert.deepEqual(cc.map(item => item.address), ['bob@example.com', 'carol@example.com']);
+  });
+
+  it('replies to the original recipients when replying to an own email', () => {
+    const message = original({ from: [{ name: '', address: 'me@example.com' }] });
+
+    assert.deepEqual(
+      ReplyBuilder.computeRecipients(message, 'reply', ['me@example.com']).to.map(item => item.address),
+      ['bob@example.com']
+    );
+  });
+});
+
+describe('ReplyBuilder.prefixSubject', () => {
+  it('adds Re: and Fwd: prefixes once', () => {
+    assert.equal(ReplyBuilder.prefixSubject(' Project plan ', 'reply'), 'Re: Project plan');
+    assert.equal(ReplyBuilder.prefixSubject('RE: Project plan', 'reply-all'), 'RE: Project plan');
+    assert.equal(ReplyBuilder.prefixSubject('Project plan', 'forward'), 'Fwd: Project plan');
+    assert.equal(ReplyBuilder.prefixSubject('Fw: Project plan', 'forward'), 'Fw: Project plan');
+  });
+
+  it('recognizes Chinese prefixes', () => {
+    assert.equal(ReplyBuilder.prefixSubject('回复：项目计划', 'reply'), '回复：项目计划');
+    assert.equal(ReplyBuilder.prefixSubject('转发: 项目计划', 'forward'), '转发: 项目计划');
+    assert.equal(ReplyBuilder.prefixSubject('转发: 项目计划', 'reply'), 'Re: 转发: 项目计划');
+  });
+});
+
+describe('ReplyBuilder.build', () => {
+  it('sets In-Reply-To to the original Message-ID and appends it to References', () => {
+    const result = ReplyBuilder.build(original(), { mode: 'reply', selfAddresses: ['me@example.com'], text: 'Yes' });
+
+    assert.equal(result.inReplyTo, '<m2@example.com>');
+    assert.deepEqual(result.references, ['<m1@example.com>', '<m2@example.com>']);
+    assert.equal(result.subject, 'Re: Project plan');
+    assert.equal(result.to, '"Alice" <alice@example.com>');
+  });
+
+  it('does not set In-Reply-To when the original has no Message-ID', () => {
+    const withoutId = original();
+    delete withoutId.messageId;
+    const result = ReplyBuilder.build(withoutId, { mode: 'reply', selfAddresses: [], text: 'Yes' });
+
+    assert.equal(result.inReplyTo, undefined);
+    assert.deepEqual(result.references, ['<m1@example.com>']);
+  });
+
+  it('keeps References but not In-Reply-To when forwarding', () => {
+    const result = ReplyBuilder.build(original(), { mode: 'forward', selfAddresses: [], to: 'dave@example.com' });
+
+    assert.equal(result.inReplyTo, undefined);
+    assert.deepEqual(result.references, ['<m1@example.com>', '<m2@example.com>']);
+    assert.equal(result.to, 'dave@example.com');
+  });
+
+  it('quotes the original text below the reply', () => {
+    const result = ReplyBuilder.build(original(), { mode: 'reply', selfAddresses: [], text: 'Yes' });
+
+    assert.equal(result.text, `Yes\n\nOn ${original().date.toUTCString()}, "Alice" <alice@example.com> wrote:\n> Shall we meet?`);
+  });
+
+  it('requires a recipient when forwarding', () => {
+    assert.throws(
+      () => ReplyBuilder.build(original(), { mode: 'forward', selfAddresses: [] }),
+      /Recipient \(to\) is required/
+    );
+  });
+});
\ No newline at end of file
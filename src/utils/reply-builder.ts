@@ -0,0 +1,234 @@
+/**
+ * 回复与转发邮件构建模块
+ * 计算收件人、主题前缀和 In-Reply-To / References 头部，并引用或附加原邮件
+ */
+
+import { SendEmailOptions } from './email-service.js';
+
+export type ReplyMode = 'reply' | 'reply-all' | 'forward';
+
+export interface MailAddress {
+  name: string;
+  address: string;
+}
+
+/**
+ * 解析后的原邮件
+ */
+export interface OriginalMessage {
+  uid: number;
+  folder: string;
+  messageId?: string;
+  references: string[];
+  from: MailAddress[];
+  replyTo: MailAddress[];
+  to: MailAddress[];
+  cc: MailAddress[];
+  subject: string;
+  date: Date;
+  text: string;
+  html?: string;
+  attachments: {
+    filename: string;
+    contentType: string;
+    content: Buffer;
+  }[];
+  /** 原始 RFC 822 内容，用于以附件形式转发 */
+  source: Buffer;
+}
+
+export interface ReplyOptions {
+  mode: ReplyMode;
+  /** 当前账户的地址，回复全部时从收件人中排除 */
+  selfAddresses: string[];
+  /** 追加的收件人（转发时为必填） */
+  to?: string;
+  cc?: string;
+  text?: string;
+  html?: string;
+  /** 回复时是否引用原文（默认 true） */
+  quoteOriginal?: boolean;
+  /** 转发方式：正文内联或作为 message/rfc822 附件（默认 inline） */
+  forwardAs?: 'inline' | 'attachment';
+  /** 内联转发时是否带上原邮件的附件（默认 true） */
+  includeAttachments?: boolean;
+}
+
+export class ReplyBuilder {
+  /**
+   * 格式化地址为 "Name" <address>
+   */
+  static formatAddress(address: MailAddress): string {
+    if (!address.name) return address.address;
+    return `"${address.name.replace(/["\\]/g, '\\$&')}" <${address.address}>`;
+  }
+
+  /**
+   * 格式化地址列表
+   */
+  static formatAddressList(addresses: MailAddress[]): string {
+    return addresses.map(address => ReplyBuilder.formatAddress(address)).join(', ');
+  }
+
+  /**
+   * 添加 Re: / Fwd: 前缀，已有前缀（含中文邮箱客户端的“回复：”“转发：”）时不重复添加
+   */
+  static prefixSubject(subject: string, mode: ReplyMode): string {
+    const trimmed = subject.trim();
+    if (mode === 'forward') {
+      return /^(fwd?|转发)\s*[:：]/i.test(trimmed) ? trimmed : `Fwd: ${trimmed}`;
+    }
+    return /^(re|回复|答复)\s*[:：]/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+  }
+
+  /**
+   * 计算回复的收件人：回复发件人（优先 Reply-To），回复全部时抄送原收件人和抄送人，排除自己和重复地址
+   */
+  static computeRecipients(original: OriginalMessage, mode: ReplyMode, selfAddresses: string[]): { to: MailAddress[]; cc: MailAddress[] } {
+    if (mode === 'forward') {
+      return { to: [], cc: [] };
+    }
+
+    const seen = new Set(selfAddresses.map(address => address.toLowerCase()));
+    const unique = (addresses: MailAddress[]) => addresses.filter(item => {
+      const key = item.address.toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const primary = original.replyTo.length > 0 ? original.replyTo : original.from;
+    let to = unique(primary);
+
+    // 回复自己发出的邮件时，发给原收件人
+    if (to.length === 0) {
+      to = unique(original.to);
+    }
+
+    const cc = mode === 'reply-all' ? unique([...original.to, ...original.cc]) : [];
+    return { to, cc };
+  }
+
+  /**
+   * 构建 References：原邮件的 References 加上原邮件的 Message-ID（原邮件有 Message-ID 时）
+   */
+  static buildReferences(original: OriginalMessage): string[] {
+    const ids = [...original.references, original.messageId]
+      .filter((id): id is string => !!id)
+      .map(ReplyBuilder.normalizeMessageId);
+    return Array.from(new Set(ids));
+  }
+
+  /**
+   * 构建回复或转发的发送参数
+   */
+  static build(original: OriginalMessage, options: ReplyOptions): SendEmailOptions {
+    const { mode } = options;
+    const recipients = ReplyBuilder.computeRecipients(original, mode, options.selfAddresses);
+    const to = [ReplyBuilder.formatAddressList(recipients.to), options.to].filter(Boolean).join(', ');
+    const cc = [ReplyBuilder.formatAddressList(recipients.cc), options.cc].filter(Boolean).join(', ');
+
+    if (!to) {
+      throw new Error(mode === 'forward'
+        ? 'Recipient (to) is required when forwarding an email'
+        : 'Cannot determine the reply recipients. Please provide the to parameter.');
+    }
+
+    const result: SendEmailOptions = {
+      to,
+      subject: ReplyBuilder.prefixSubject(original.subject, mode)
+    };
+    if (cc) result.cc = cc;
+
+    const references = ReplyBuilder.buildReferences(original);
+    if (references.length > 0) {
+      result.references = references;
+    }
+    // In-Reply-To 只能是原邮件自己的 Message-ID，原邮件没有时不设置
+    if (mode !== 'forward' && original.messageId) {
+      result.inReplyTo = ReplyBuilder.normalizeMessageId(original.messageId);
+    }
+
+    if (mode === 'forward' && options.forwardAs === 'attachment') {
+      ReplyBuilder.setBody(result, options.text, options.html);
+      result.attachments = [{
+        filename: `${(original.subject || 'message').replace(/[\\/:*?"<>|]/g, '_')}.eml`,
+        content: original.source,
+        contentType: 'message/rfc822'
+      }];
+      return result;
+    }
+
+    if (mode === 'forward') {
+      const header = ReplyBuilder.forwardHeader(original);
+      ReplyBuilder.setBody(
+        result,
+        `${options.text || ''}\n\n${header.join('\n')}\n\n${original.text}`.trim(),
+        options.html !== undefined || original.html
+          ? `${options.html ?? ReplyBuilder.textToHtml(options.text || '')}<br><br>` +
+            `<div>${header.map(ReplyBuilder.escapeHtml).join('<br>')}</div><br>` +
+            (original.html || ReplyBuilder.textToHtml(original.text))
+          : undefined
+      );
+      if (options.includeAttachments !== false && original.attachments.length > 0) {
+        result.attachments = original.attachments.map(attachment => ({ ...attachment }));
+      }
+      return result;
+    }
+
+    if (options.quoteOriginal === false) {
+      ReplyBuilder.setBody(result, options.text, options.html);
+      return result;
+    }
+
+    const attribution = `On ${original.date.toUTCString()}, ${ReplyBuilder.formatAddressList(original.from)} wrote:`;
+    const quotedText = original.text.split('\n').map(line => `> ${line}`).join('\n');
+    ReplyBuilder.setBody(
+      result,
+      `${options.text || ''}\n\n${attribution}\n${quotedText}`.trim(),
+      options.html !== undefined
+        ? `${options.html}<br><br><div>${ReplyBuilder.escapeHtml(attribution)}</div>` +
+          `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${original.html || ReplyBuilder.textToHtml(original.text)}</blockquote>`
+        : undefined
+    );
+    return result;
+  }
+
+  /**
+   * 转发邮件的原邮件信息头
+   */
+  private static forwardHeader(original: OriginalMessage): string[] {
+    const header = [
+      '---------- Forwarded message ---------',
+      `From: ${ReplyBuilder.formatAddressList(original.from)}`,
+      `Date: ${original.date.toUTCString()}`,
+      `Subject: ${original.subject}`,
+      `To: ${ReplyBuilder.formatAddressList(original.to)}`
+    ];
+    if (original.cc.length > 0) {
+      header.push(`Cc: ${ReplyBuilder.formatAddressList(original.cc)}`);
+    }
+    return header;
+  }
+
+  private static setBody(options: SendEmailOptions, text: string | undefined, html: string | undefined): void {
+    if (text) options.text = text;
+    if (html) options.html = html;
+  }
+
+  private static normalizeMessageId(id: string): string {
+    return id.trim().replace(/^<?/, '<').replace(/>?$/, '>');
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static textToHtml(text: string): string {
+    return ReplyBuilder.escapeHtml(text).replace(/\n/g, '<br>');
+  }
+}
\ No newline at end of file
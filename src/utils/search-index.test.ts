@@ -0,0 +1,113 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SearchIndex } from './search-index.js';
+import { MessageCache, CachedMessage } from './message-cache.js';
+import { Logger } from './logger.js';
+
+const cached = (uid: number, subject: string, text: string, from: string = 'alice@example.com'): CachedMessage => ({
+  uid,
+  from,
+  to: 'me@example.com',
+  subject,
+  date: new Date(Date.UTC(2025, 0, uid)).toISOString(),
+  body: '',
+  flags: [],
+  size: text.length,
+  attachments: [],
+  text
+});
+
+describe('SearchIndex.tokenize', () => {
+  it('splits CJK text into characters and bigrams', () => {
+    assert.deepEqual(SearchIndex.tokenize('会议纪要'), ['会', '会议', '议', '议纪', '纪', '纪要', '要']);
+  });
+
+  it('lowercases words and splits email addresses into their parts', () => {
+    assert.deepEqual(SearchIndex.tokenize('Hello Bob.Smith@Example.com'), [
+      'hello', 'bob.smith@example.com', 'bob', 'smith', 'example', 'com'
+    ]);
+  });
+
+  it('separates CJK runs from adjacent Latin words', () => {
+    assert.deepEqual(SearchIndex.tokenize('Q3报告'), ['q3', '报', '报告', '告']);
+  });
+});
+
+describe('SearchIndex.tokenizeQuery', () => {
+  it('uses only bigrams for multi-character CJK words', () => {
+    assert.deepEqual(SearchIndex.tokenizeQuery('会议纪要'), ['会议', '议纪', '纪要']);
+  });
+
+  it('keeps single CJK characters and removes duplicate terms', () => {
+    assert.deepEqual(SearchIndex.tokenizeQuery('票 Invoice invoice'), ['票', 'invoice']);
+  });
+});
+
+describe('SearchIndex.search', () => {
+  let cacheDir: string;
+  const previousCacheDir = process.env.MAILMCP_CACHE_DIR;
+
+  before(async () => {
+    Logger.setEnabled(false);
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mailmcp-search-'));
+    process.env.MAILMCP_CACHE_DIR = cacheDir;
+
+    await MessageCache.save('me@example.com', 'INBOX', {
+      account: 'me@example.com',
+      folder: 'INBOX',
+      uidValidity: '1',
+      syncedAt: '',
+      messages: {
+        1: cached(1, '周报', '本周完成了会议纪要的整理，下周继续跟进项目。'),
+        2: cached(2, '会议纪要', '附件是今天的会议纪要，请查收。'),
+        3: cached(3, 'Lunch', 'Are you free for lunch tomorrow?'),
+        4: cached(4, 'Invoice', 'Please find the invoice attached. The invoice is due next week.', 'billing@shop.com')
+      }
+    });
+    await MessageCache.save('me@example.com', 'Archive', {
+      account: 'me@example.com',
+      folder: 'Archive',
+      uidValidity: '1',
+      syncedAt: '',
+      messages: {
+        5: cached(5, '旧邮件', '去年的会议安排。')
+      }
+    });
+  });
+
+  after(async () => {
+    if (previousCacheDir === undefined) {
+      delete process.env.MAILMCP_CACHE_DIR;
+    } else {
+      process.env.MAILMCP_CACHE_DIR = previousCacheDir;
+    }
+    await fs.rm(cacheDir, { recursive: true, force: true });
+    Logger.setEnabled(true);
+  });
+
+  it('ranks a subject match above a body-only match', async () => {
+    const hits = await SearchIndex.search('会议纪要');
+
+    assert.deepEqual(hits.map(hit => hit.uid), [2, 1, 5]);
+    assert.ok(hits[0].score > hits[1].score);
+    assert.ok(hits[0].snippet.includes('会议纪要'));
+  });
+
+  it('does not match on single characters of a CJK query', async () => {
+    const hits = await SearchIndex.search('纪要');
+
+    assert.deepEqual(hits.map(hit => hit.uid).sort(), [1, 2]);
+  });
+
+  it('matches sender addresses and filters by folder', async () => {
+    assert.deepEqual((await SearchIndex.search('billing@shop.com')).map(hit => hit.uid), [4]);
+    assert.deepEqual((await SearchIndex.search('会议', { folder: 'Archive' })).map(hit => hit.uid), [5]);
+  });
+
+  it('returns nothing for unknown terms', async () => {
+    assert.deepEqual(await SearchIndex.search('nonexistent'), []);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,268 @@
+/**
+ * 离线全文检索模块
+ * 基于本地邮件缓存建立倒排索引，使用 BM25 排序；中日韩文本按字和相邻两字（bigram）切分
+ */
+
+import { MessageCache, CachedFolder, CachedMessage } from './message-cache.js';
+import { Logger } from './logger.js';
+
+export interface SearchHit {
+  account: string;
+  folder: string;
+  uid: number;
+  subject: string;
+  from: string;
+  date: Date;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  accounts?: string[];
+  folder?: string;
+  limit?: number;
+}
+
+interface IndexedDocument {
+  account: string;
+  folder: string;
+  message: CachedMessage;
+  length: number;
+  terms: string[];
+}
+
+const CJK_CHARS = '\\u3040-\\u30FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uAC00-\\uD7AF\\uF900-\\uFAFF';
+const CJK_PATTERN = new RegExp(`[${CJK_CHARS}]`, 'u');
+// 中日韩字符连续成段，其他文字按单词匹配（允许 . _ ' @ - 连接，如邮箱地址）
+const WORD = `(?:(?![${CJK_CHARS}])[\\p{L}\\p{N}])+`;
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHARS}]+|${WORD}(?:[._'@-]${WORD})*`, 'gu');
+
+export class SearchIndex {
+  // BM25 参数
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+  // 字段权重：主题和发件人中的命中比正文更重要
+  private static readonly SUBJECT_WEIGHT = 3;
+  private static readonly ADDRESS_WEIGHT = 2;
+
+  private static documents = new Map<string, IndexedDocument>();
+  private static postings = new Map<string, Map<string, number>>();
+  private static folderVersions = new Map<string, string>();
+  private static totalLength = 0;
+
+  /**
+   * 把文本切分为检索词：英文和数字按单词（小写），邮箱地址额外拆出各部分，
+   * 中日韩文本没有空格分词，按单字和相邻两字切分，可以匹配任意长度的子串
+   */
+  static tokenize(text: string): string[] {
+    const tokens: string[] = [];
+
+    for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+      const word = match[0];
+
+      if (CJK_PATTERN.test(word[0])) {
+        const chars = Array.from(word);
+        chars.forEach((char, i) => {
+          tokens.push(char);
+          if (i + 1 < chars.length) tokens.push(char + chars[i + 1]);
+        });
+        continue;
+      }
+
+      tokens.push(word);
+      if (/[._'@-]/.test(word)) {
+        word.split(/[._'@-]/).filter(part => part).forEach(part => tokens.push(part));
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 把查询切分为检索词：两字以上的中日韩词只用 bigram，避免单字匹配稀释排序
+   */
+  static tokenizeQuery(query: string): string[] {
+    const tokens = new Set<string>();
+
+    for (const match of query.toLowerCase().matchAll(TOKEN_PATTERN)) {
+      const word = match[0];
+      const chars = Array.from(word);
+
+      if (CJK_PATTERN.test(word[0]) && chars.length > 1) {
+        for (let i = 0; i + 1 < chars.length; i++) {
+          tokens.add(chars[i] + chars[i + 1]);
+        }
+      } else {
+        tokens.add(word);
+      }
+    }
+
+    return Array.from(tokens);
+  }
+
+  /**
+   * 从本地缓存更新索引，只重建内容有变化的文件夹
+   */
+  static async refresh(): Promise<void> {
+    const folders = await MessageCache.loadAll();
+    const seen = new Set<string>();
+
+    for (const folder of folders) {
+      const key = `${folder.account}\n${folder.folder}`;
+      seen.add(key);
+
+      const version = `${folder.uidValidity}:${folder.syncedAt}`;
+      if (SearchIndex.folderVersions.get(key) === version) continue;
+
+      SearchIndex.removeFolder(key);
+      SearchIndex.addFolder(folder);
+      SearchIndex.folderVersions.set(key, version);
+    }
+
+    // 缓存已被删除的文件夹（如账户被移除）
+    for (const key of SearchIndex.folderVersions.keys()) {
+      if (!seen.has(key)) {
+        SearchIndex.removeFolder(key);
+        SearchIndex.folderVersions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 检索邮件，按 BM25 分数从高到低返回
+   */
+  static async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const startTime = Date.now();
+    await SearchIndex.refresh();
+
+    const terms = SearchIndex.tokenizeQuery(query);
+    const documentCount = SearchIndex.documents.size;
+    if (terms.length === 0 || documentCount === 0) {
+      return [];
+    }
+
+    const averageLength = SearchIndex.totalLength / documentCount;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const posting = SearchIndex.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [docId, frequency] of posting) {
+        const document = SearchIndex.documents.get(docId)!;
+        if (options.accounts && !options.accounts.includes(document.account)) continue;
+        if (options.folder && document.folder !== options.folder) continue;
+
+        const normalization = SearchIndex.K1 * (1 - SearchIndex.B + SearchIndex.B * document.length / averageLength);
+        const score = idf * frequency * (SearchIndex.K1 + 1) / (frequency + normalization);
+        scores.set(docId, (scores.get(docId) || 0) + score);
+      }
+    }
+
+    const hits = Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.limit || 10)
+      .map(([docId, score]) => {
+        const { account, folder, message } = SearchIndex.documents.get(docId)!;
+        return {
+          account,
+          folder,
+          uid: message.uid,
+          subject: message.subject,
+          from: message.from,
+          date: new Date(message.date),
+          score: Math.round(score * 100) / 100,
+          snippet: SearchIndex.buildSnippet(message.text || '', query, terms)
+        };
+      });
+
+    Logger.info(`Full-text search "${query}" matched ${scores.size} of ${documentCount} emails in ${Date.now() - startTime}ms`);
+    return hits;
+  }
+
+  /**
+   * 获取已索引的邮件数量
+   */
+  static getDocumentCount(): number {
+    return SearchIndex.documents.size;
+  }
+
+  private static addFolder(folder: CachedFolder): void {
+    for (const message of Object.values(folder.messages)) {
+      const docId = `${folder.account}\n${folder.folder}\n${message.uid}`;
+      const frequencies = new Map<string, number>();
+      const addTokens = (text: string, weight: number) => {
+        for (const token of SearchIndex.tokenize(text)) {
+          frequencies.set(token, (frequencies.get(token) || 0) + weight);
+        }
+      };
+
+      addTokens(message.subject, SearchIndex.SUBJECT_WEIGHT);
+      addTokens(`${message.from} ${message.to}`, SearchIndex.ADDRESS_WEIGHT);
+      // 只索引解析后的正文，列表中的 body 是未解码的原始 MIME 内容
+      addTokens(message.text || '', 1);
+      message.attachments.forEach(attachment => addTokens(attachment.filename, 1));
+
+      let length = 0;
+      for (const [term, frequency] of frequencies) {
+        length += frequency;
+        let posting = SearchIndex.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          SearchIndex.postings.set(term, posting);
+        }
+        posting.set(docId, frequency);
+      }
+
+      SearchIndex.documents.set(docId, {
+        account: folder.account,
+        folder: folder.folder,
+        message,
+        length,
+        terms: Array.from(frequencies.keys())
+      });
+      SearchIndex.totalLength += length;
+    }
+  }
+
+  private static removeFolder(key: string): void {
+    const prefix = `${key}\n`;
+
+    for (const [docId, document] of SearchIndex.documents) {
+      if (!docId.startsWith(prefix)) continue;
+
+      for (const term of document.terms) {
+        const posting = SearchIndex.postings.get(term);
+        posting?.delete(docId);
+        if (posting && posting.size === 0) {
+          SearchIndex.postings.delete(term);
+        }
+      }
+      SearchIndex.totalLength -= document.length;
+      SearchIndex.documents.delete(docId);
+    }
+  }
+
+  /**
+   * 截取正文中第一个命中位置附近的片段
+   */
+  private static buildSnippet(text: string, query: string, terms: string[], radius: number = 60): string {
+    if (!text) return '';
+
+    const normalized = text.replace(/\s+/g, ' ');
+    const lower = normalized.toLowerCase();
+    const candidates = [query.trim().toLowerCase(), ...terms].filter(term => term);
+    const position = candidates
+      .map(term => lower.indexOf(term))
+      .find(index => index >= 0);
+
+    if (position === undefined) {
+      return normalized.slice(0, radius * 2) + (normalized.length > radius * 2 ? '...' : '');
+    }
+
+    const start = Math.max(0, position - radius);
+    const end = Math.min(normalized.length, position + radius);
+    return `${start > 0 ? '...' : ''}${normalized.slice(start, end)}${end < normalized.length ? '...' : ''}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,365 @@
+/**
+ * 发送审批模块
+ * 开启审批后，待发送的邮件先保存在 ~/.mailmcp/approvals.json，人工在审批页面或客户端的确认对话框中批准后才连接 SMTP
+ */
+
+import path from 'path';
+import os from 'os';
+import { randomBytes, randomUUID } from 'crypto';
+import { EmailService, SendEmailOptions, SendEmailResult } from './email-service.js';
+import { Outbox, StoredSendOptions } from './outbox.js';
+import { ReplyMode } from './reply-builder.js';
+import { JsonFileStore } from './json-file-store.js';
+import { SendPolicy } from './send-policy.js';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+
+/**
+ * approved 为已批准、正在发送；queued 为已批准并存入发件箱（定时发送）
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'sent' | 'queued' | 'rejected' | 'failed' | 'expired';
+
+/**
+ * 发送成功后的后续操作：为原邮件添加已回复/已转发标记，或删除已发送的草稿
+ */
+export type ApprovalFollowUp =
+  | { type: 'mark-replied'; uid: number; folder: string; mode: ReplyMode }
+  | { type: 'delete-draft'; uid: number; folder: string };
+
+export interface PendingApproval {
+  id: string;
+  /** 审批页面表单中的令牌，只在页面中提供，不返回给工具调用方 */
+  token: string;
+  account: string;
+  /** 发起发送的工具 */
+  source: string;
+  options: StoredSendOptions;
+  sendAt?: string;
+  followUp?: ApprovalFollowUp;
+  status: ApprovalStatus;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: 'web' | 'elicitation';
+  /** 审批时人工修改过的字段 */
+  edited?: string[];
+  reason?: string;
+  result?: SendEmailResult;
+  outboxId?: string;
+  error?: string;
+}
+
+/**
+ * 审批时可修改的字段，收件人为逗号分隔的字符串，空字符串表示清空
+ */
+export interface ApprovalEdits {
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+}
+
+export interface ApprovalDecision {
+  decidedBy: 'web' | 'elicitation';
+  /** 审批页面提交的令牌，decidedBy 为 web 时必须匹配 */
+  token?: string;
+  edits?: ApprovalEdits;
+  reason?: string;
+}
+
+interface ApprovalData {
+  approvals: PendingApproval[];
+}
+
+export class SendApprovals {
+  private static readonly store = new JsonFileStore<ApprovalData>(
+    path.join(os.homedir(), '.mailmcp', 'approvals.json'),
+    () => ({ approvals: [] }),
+    data => Array.isArray((data as ApprovalData | null)?.approvals)
+  );
+  /** 已处理的审批记录保留时间 */
+  private static readonly DECIDED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+  // 审批页面由登录服务器提供，地址使用登录服务器实际监听的端口
+  private static reviewBaseUrl: string | undefined;
+
+  /**
+   * 是否开启了发送审批
+   */
+  static isRequired(): boolean {
+    return Config.getSendApprovalConfig().required;
+  }
+
+  /**
+   * 保存待审批的邮件，返回审批记录
+   */
+  static async create(
+    account: string,
+    options: SendEmailOptions,
+    extras: { source: string; sendAt?: Date | undefined; followUp?: ApprovalFollowUp | undefined }
+  ): Promise<PendingApproval> {
+    EmailService.validateSendOptions(options);
+    SendPolicy.check(account, options);
+
+    const now = Date.now();
+    const approval: PendingApproval = {
+      id: randomUUID(),
+      token: randomBytes(24).toString('hex'),
+      account,
+      source: extras.source,
+      options: Outbox.toStoredOptions(options),
+      status: 'pending',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + Config.getSendApprovalConfig().expiresIn).toISOString()
+    };
+    if (extras.sendAt) approval.sendAt = extras.sendAt.toISOString();
+    if (extras.followUp) approval.followUp = extras.followUp;
+
+    await SendApprovals.update(data => data.approvals.push(approval));
+    Logger.info(`Email from ${account} is waiting for approval: ${approval.id}`);
+    return approval;
+  }
+
+  /**
+   * 获取审批记录
+   */
+  static async get(id: string): Promise<PendingApproval | null> {
+    const { approvals } = await SendApprovals.store.read();
+    const approval = approvals.find(item => item.id === id);
+    return approval ? SendApprovals.withExpiry(approval) : null;
+  }
+
+  /**
+   * 列出审批记录（从新到旧），默认只列出待审批的邮件
+   */
+  static async list(includeDecided: boolean = false): Promise<PendingApproval[]> {
+    const { approvals } = await SendApprovals.store.read();
+    return approvals
+      .map(SendApprovals.withExpiry)
+      .filter(approval => includeDecided || approval.status === 'pending')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * 批准并发送（定时邮件存入发件箱），可同时修改收件人、主题和正文
+   */
+  static async approve(id: string, decision: ApprovalDecision): Promise<PendingApproval> {
+    const approval = await SendApprovals.update(data => {
+      const item = SendApprovals.findPending(data, id, decision);
+
+      const options = Outbox.toSendOptions(item.options);
+      const edited = SendApprovals.applyEdits(options, decision.edits);
+      EmailService.validateSendOptions(options);
+      SendPolicy.check(item.account, options);
+
+      item.options = Outbox.toStoredOptions(options);
+      item.status = 'approved';
+      item.decidedAt = new Date().toISOString();
+      item.decidedBy = decision.decidedBy;
+      if (edited.length > 0) item.edited = edited;
+      return { ...item };
+    });
+
+    Logger.info(`Email ${id} approved via ${decision.decidedBy}`);
+    return SendApprovals.deliver(approval);
+  }
+
+  /**
+   * 拒绝发送
+   */
+  static async reject(id: string, decision: ApprovalDecision): Promise<PendingApproval> {
+    const approval = await SendApprovals.update(data => {
+      const item = SendApprovals.findPending(data, id, decision);
+      item.status = 'rejected';
+      item.decidedAt = new Date().toISOString();
+      item.decidedBy = decision.decidedBy;
+      if (decision.reason) item.reason = decision.reason;
+      return { ...item };
+    });
+
+    Logger.info(`Email ${id} rejected via ${decision.decidedBy}`);
+    return approval;
+  }
+
+  /**
+   * 登录服务器启动后登记审批页面的端口
+   */
+  static registerReviewServer(port: number): void {
+    SendApprovals.reviewBaseUrl = `http://localhost:${port}/review`;
+  }
+
+  /**
+   * 登录服务器停止时取消登记，其他端口上的登录服务器不受影响
+   */
+  static unregisterReviewServer(port: number): void {
+    if (SendApprovals.reviewBaseUrl === `http://localhost:${port}/review`) {
+      SendApprovals.reviewBaseUrl = undefined;
+    }
+  }
+
+  /**
+   * 审批页面地址，不指定 id 时为待审批列表；登录服务器未运行时返回 undefined
+   */
+  static getReviewUrl(id?: string): string | undefined {
+    const baseUrl = SendApprovals.reviewBaseUrl;
+    if (!baseUrl) return undefined;
+    return id ? `${baseUrl}/${id}` : baseUrl;
+  }
+
+  /**
+   * 生成邮件摘要（收件人、主题、附件和正文开头），用于确认对话框和工具响应
+   */
+  static describe(approval: PendingApproval, maxBodyLength: number = 1000): string {
+    const { options } = approval;
+    const list = (value: string | string[] | undefined) => (Array.isArray(value) ? value : value ? [value] : []).join(', ');
+
+    const lines = [`From: ${approval.account}`, `To: ${list(options.to)}`];
+    if (options.cc && list(options.cc)) lines.push(`Cc: ${list(options.cc)}`);
+    if (options.bcc && list(options.bcc)) lines.push(`Bcc: ${list(options.bcc)}`);
+    lines.push(`Subject: ${options.subject}`);
+    if (approval.sendAt) lines.push(`Scheduled for: ${new Date(approval.sendAt).toLocaleString()}`);
+    if (options.attachments?.length) {
+      lines.push(`Attachments: ${options.attachments.map(attachment => attachment.filename).join(', ')}`);
+    }
+
+    const body = options.text || (options.html ? options.html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() : '');
+    lines.push('', body.length > maxBodyLength ? `${body.slice(0, maxBodyLength)}…` : body);
+    return lines.join('\n');
+  }
+
+  /**
+   * 发送已批准的邮件并执行后续操作，记录发送结果
+   */
+  private static async deliver(approval: PendingApproval): Promise<PendingApproval> {
+    const options = Outbox.toSendOptions(approval.options);
+    const outcome: Partial<PendingApproval> = {};
+
+    try {
+      if (approval.sendAt) {
+        const queued = await Outbox.enqueue(approval.account, options, new Date(approval.sendAt));
+        outcome.status = 'queued';
+        outcome.outboxId = queued.id;
+      } else {
+        const emailService = await EmailService.createFromAccount(approval.account);
+        outcome.result = await emailService.sendEmail(options);
+        outcome.status = 'sent';
+        await SendApprovals.runFollowUp(emailService, approval.followUp);
+      }
+    } catch (error) {
+      Logger.error(`Failed to send approved email ${approval.id}`, error);
+      outcome.status = 'failed';
+      outcome.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return SendApprovals.update(data => {
+      const item = data.approvals.find(entry => entry.id === approval.id);
+      if (!item) {
+        return { ...approval, ...outcome };
+      }
+      Object.assign(item, outcome);
+      return { ...item };
+    });
+  }
+
+  private static async runFollowUp(emailService: EmailService, followUp: ApprovalFollowUp | undefined): Promise<void> {
+    if (!followUp) return;
+
+    if (followUp.type === 'mark-replied') {
+      await emailService.markReplied(followUp.uid, followUp.folder, followUp.mode);
+      return;
+    }
+
+    try {
+      await emailService.removeDraft(followUp.uid, followUp.folder);
+    } catch (error) {
+      // 删除失败不影响发送结果
+      Logger.warn(`Failed to delete draft UID ${followUp.uid} after sending`, error);
+    }
+  }
+
+  /**
+   * 应用人工修改，返回修改过的字段
+   */
+  private static applyEdits(options: SendEmailOptions, edits: ApprovalEdits | undefined): string[] {
+    if (!edits) return [];
+
+    const edited: string[] = [];
+    const format = (value: string | string[] | undefined) => (Array.isArray(value) ? value.join(', ') : value ?? '');
+
+    // 收件人和主题为必填字段，不会被删除
+    if (edits.to !== undefined && edits.to !== format(options.to)) {
+      options.to = edits.to;
+      edited.push('to');
+    }
+    if (edits.subject !== undefined && edits.subject !== options.subject) {
+      options.subject = edits.subject;
+      edited.push('subject');
+    }
+
+    // 其余字段清空时删除
+    for (const key of ['cc', 'bcc', 'text', 'html'] as const) {
+      const value = edits[key];
+      if (value === undefined || value === format(options[key])) continue;
+
+      edited.push(key);
+      if (value === '') {
+        delete options[key];
+      } else {
+        options[key] = value;
+      }
+    }
+
+    if (!options.text && !options.html) {
+      throw new Error('Either text or html content is required');
+    }
+    return edited;
+  }
+
+  private static findPending(data: ApprovalData, id: string, decision: ApprovalDecision): PendingApproval {
+    const item = data.approvals.find(entry => entry.id === id);
+    if (!item) {
+      throw new Error(`Approval request not found: ${id}`);
+    }
+    if (decision.decidedBy === 'web' && decision.token !== item.token) {
+      throw new Error('Invalid approval token. Please reload the review page.');
+    }
+
+    const status = SendApprovals.withExpiry(item).status;
+    if (status !== 'pending') {
+      throw new Error(`Approval request ${id} is already ${status}`);
+    }
+    return item;
+  }
+
+  /**
+   * 过期的待审批邮件显示为 expired
+   */
+  private static withExpiry(approval: PendingApproval): PendingApproval {
+    return approval.status === 'pending' && Date.parse(approval.expiresAt) <= Date.now()
+      ? { ...approval, status: 'expired' }
+      : approval;
+  }
+
+  /**
+   * 修改审批记录，同时标记过期记录并清理较早的已处理记录
+   */
+  private static async update<T>(mutate: (data: ApprovalData) => T): Promise<T> {
+    return SendApprovals.store.update(data => {
+      const result = mutate(data);
+
+      const now = Date.now();
+      const cutoff = now - SendApprovals.DECIDED_RETENTION;
+      for (const approval of data.approvals) {
+        if (approval.status === 'pending' && Date.parse(approval.expiresAt) <= now) {
+          approval.status = 'expired';
+        }
+      }
+      data.approvals = data.approvals.filter(approval =>
+        approval.status === 'pending' || approval.status === 'approved' ||
+        Date.parse(approval.decidedAt || approval.expiresAt) > cutoff
+      );
+      return result;
+    });
+  }
+}
\ No newline at end of file
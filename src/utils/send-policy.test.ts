@@ -0,0 +1,79 @@
+import { describe, it, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { SendPolicy, SendPolicyViolation, SendPolicyRule } from './send-policy.js';
+
+const POLICY_ENV = [
+  'MAILMCP_ALLOWED_RECIPIENTS',
+  'MAILMCP_BLOCKED_RECIPIENTS',
+  'MAILMCP_MAX_RECIPIENTS',
+  'MAILMCP_SUBJECT_PREFIX',
+  'MAILMCP_BLOCKED_ATTACHMENT_TYPES'
+] as const;
+
+const ACCOUNT = 'me@example.com';
+
+const violation = (rule: SendPolicyRule) => (error: unknown) =>
+  error instanceof SendPolicyViolation && error.rule === rule;
+
+const previous = Object.fromEntries(POLICY_ENV.map(name => [name, process.env[name]]));
+
+beforeEach(() => {
+  for (const name of POLICY_ENV) delete process.env[name];
+});
+
+after(() => {
+  for (const name of POLICY_ENV) {
+    if (previous[name] === undefined) delete process.env[name];
+    else process.env[name] = previous[name];
+  }
+});
+
+describe('SendPolicy.check', () => {
+  it('allows any recipient when no policy is configured', () => {
+    assert.doesNotThrow(() => SendPolicy.check(ACCOUNT, { to: 'anyone@elsewhere.org', subject: 'Hi' }));
+  });
+
+  it('blocks listed addresses and domains in to, cc, bcc and Reply-To', () => {
+    process.env.MAILMCP_BLOCKED_RECIPIENTS = 'evil@example.net, @spam.org';
+
+    assert.throws(() => SendPolicy.check(ACCOUNT, { to: 'Evil <EVIL@example.net>', subject: 'Hi' }), violation('blocked-recipient'));
+    assert.throws(() => SendPolicy.check(ACCOUNT, { to: 'ok@example.com', bcc: ['x@mail.spam.org'], subject: 'Hi' }), violation('blocked-recipient'));
+    assert.throws(() => SendPolicy.check(ACCOUNT, { to: 'ok@example.com', replyTo: 'x@spam.org', subject: 'Hi' }), violation('blocked-recipient'));
+    assert.doesNotThrow(() => SendPolicy.check(ACCOUNT, { to: 'good@example.net', cc: 'x@notspam.org', subject: 'Hi' }));
+  });
+
+  it('only allows listed recipients when an allow list is set', () => {
+    process.env.MAILMCP_ALLOWED_RECIPIENTS = 'example.com,partner@other.org';
+
+    assert.doesNotThrow(() => SendPolicy.check(ACCOUNT, { to: 'a@example.com, b@sub.example.com', cc: 'partner@other.org', subject: 'Hi' }));
+    assert.throws(() => SendPolicy.check(ACCOUNT, { to: 'a@example.com', cc: 'someone@other.org', subject: 'Hi' }), violation('recipient-not-allowed'));
+    assert.throws(() => SendPolicy.check(ACCOUNT, { to: 'a@badexample.com', subject: 'Hi' }), violation('recipient-not-allowed'));
+  });
+
+  it('counts recipients across to, cc and bcc', () => {
+    process.env.MAILMCP_MAX_RECIPIENTS = '2';
+
+    assert.doesNotThrow(() => SendPolicy.check(ACCOUNT, { to: 'a@example.com', cc: 'b@example.com', subject: 'Hi' }));
+    assert.throws(
+      () => SendPolicy.check(ACCOUNT, { to: 'a@example.com, b@example.com', bcc: 'c@example.com', subject: 'Hi' }),
+      violation('max-recipients')
+    );
+  });
+
+  it('requires the subject prefix of the account, ignoring reply and forward prefixes', () => {
+    process.env.MAILMCP_SUBJECT_PREFIX = '[EXT];me@example.com=[Work]|[Team]';
+
+    assert.doesNotThrow(() => SendPolicy.check(ACCOUNT, { to: 'a@example.com', subject: '[work] Weekly report' }));
+    assert.doesNotThrow(() => SendPolicy.check(ACCOUNT, { to: 'a@example.com', subject: 'Re: 转发：[Team] Plan' }));
+    assert.throws(() => SendPolicy.check(ACCOUNT, { to: 'a@example.com', subject: '[EXT] Plan' }), violation('subject-prefix'));
+    assert.doesNotThrow(() => SendPolicy.check('other@example.com', { to: 'a@example.com', subject: '[EXT] Plan' }));
+  });
+});
+
+describe('SendPolicy.checkAttachment', () => {
+  it('blocks attachments by extension or MIME type', () => {
+    assert.throws(() => SendPolicy.checkAttachment('setup.EXE', 'application/octet-stream'), violation('attachment-type'));
+    assert.throws(() => SendPolicy.checkAttachment('tool', 'application/x-msdownload'), violation('attachment-type'));
+    assert.doesNotThrow(() => SendPolicy.checkAttachment('report.pdf', 'application/pdf'));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,188 @@
+/**
+ * 发送策略模块
+ * 每次发送前检查收件人、收件人数量、主题前缀和每日发送量，防止被邮件内容中的提示词注入诱导向外发送数据
+ */
+
+import path from 'path';
+import os from 'os';
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import { JsonFileStore } from './json-file-store.js';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+
+export type SendPolicyRule =
+  | 'blocked-recipient'
+  | 'recipient-not-allowed'
+  | 'max-recipients'
+  | 'attachment-type'
+  | 'subject-prefix'
+  | 'daily-limit';
+
+/**
+ * 违反发送策略，工具将其作为错误返回，不应重试或绕过
+ */
+export class SendPolicyViolation extends Error {
+  readonly rule: SendPolicyRule;
+
+  constructor(rule: SendPolicyRule, message: string) {
+    super(message);
+    this.name = 'SendPolicyViolation';
+    this.rule = rule;
+  }
+}
+
+/**
+ * 策略检查只需要的发送参数，避免依赖 EmailService
+ */
+export interface PolicyCheckOptions {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string | string[];
+  subject: string;
+}
+
+interface SendCountData {
+  /** 键为小写邮箱地址 */
+  accounts: Record<string, { date: string; count: number }>;
+}
+
+export class SendPolicy {
+  private static readonly store = new JsonFileStore<SendCountData>(
+    path.join(os.homedir(), '.mailmcp', 'send-counts.json'),
+    () => ({ accounts: {} }),
+    data => typeof (data as SendCountData | null)?.accounts === 'object'
+  );
+
+  /**
+   * 检查收件人和主题，违反策略时抛出 SendPolicyViolation；延迟发送和待审批的邮件保存前也会调用
+   */
+  static check(account: string, options: PolicyCheckOptions): void {
+    const { allowedRecipients, blockedRecipients, maxRecipients } = Config.getSendPolicyConfig();
+
+    const recipients = [options.to, options.cc, options.bcc].flatMap(SendPolicy.parseAddresses);
+    if (maxRecipients > 0 && recipients.length > maxRecipients) {
+      throw new SendPolicyViolation(
+        'max-recipients',
+        `Too many recipients: ${recipients.length} (limit: ${maxRecipients} per email)`
+      );
+    }
+
+    // Reply-To 同样检查，避免把对方的回复引向外部地址
+    for (const address of [...recipients, ...SendPolicy.parseAddresses(options.replyTo)]) {
+      if (SendPolicy.matches(address, blockedRecipients)) {
+        throw new SendPolicyViolation('blocked-recipient', `Recipient not allowed by send policy: ${address} is blocked`);
+      }
+      if (allowedRecipients.length > 0 && !SendPolicy.matches(address, allowedRecipients)) {
+        throw new SendPolicyViolation('recipient-not-allowed', `Recipient not allowed by send policy: ${address} is not an allowed recipient`);
+      }
+    }
+
+    const prefixes = SendPolicy.getSubjectPrefixes(account);
+    if (prefixes.length > 0) {
+      // 回复和转发的主题去掉 Re: / Fwd: 后再检查
+      const subject = options.subject.trim().replace(/^((re|fwd?|回复|答复|转发)\s*[:：]\s*)+/i, '').toLowerCase();
+      if (!prefixes.some(prefix => subject.startsWith(prefix.toLowerCase()))) {
+        throw new SendPolicyViolation(
+          'subject-prefix',
+          `Subject of emails from ${account} must start with ${prefixes.map(prefix => `"${prefix}"`).join(' or ')}`
+        );
+      }
+    }
+  }
+
+  /**
+   * 检查附件类型是否被禁止（扩展名或 MIME 类型）
+   */
+  static checkAttachment(filename: string, contentType: string): void {
+    const { blockedTypes } = Config.getOutgoingAttachmentConfig();
+    const extension = path.extname(filename).toLowerCase();
+    if ((extension && blockedTypes.includes(extension)) || blockedTypes.includes(contentType.toLowerCase())) {
+      throw new SendPolicyViolation('attachment-type', `Attachment type not allowed: ${filename} (${contentType})`);
+    }
+  }
+
+  /**
+   * 占用当天的发送额度，超过每日上限时抛出 SendPolicyViolation；发送失败后调用 releaseDailyQuota 退还
+   */
+  static async reserveDailyQuota(account: string): Promise<void> {
+    const { dailyLimit } = Config.getSendPolicyConfig();
+    if (dailyLimit === 0) return;
+
+    const key = account.toLowerCase();
+    const today = SendPolicy.today();
+    await SendPolicy.store.update(data => {
+      const usage = data.accounts[key]?.date === today ? data.accounts[key]! : { date: today, count: 0 };
+      if (usage.count >= dailyLimit) {
+        throw new SendPolicyViolation(
+          'daily-limit',
+          `Daily send limit reached for ${account}: ${usage.count} of ${dailyLimit} emails sent today`
+        );
+      }
+      usage.count += 1;
+      data.accounts[key] = usage;
+    });
+  }
+
+  /**
+   * 退还发送失败的邮件占用的额度
+   */
+  static async releaseDailyQuota(account: string): Promise<void> {
+    if (Config.getSendPolicyConfig().dailyLimit === 0) return;
+
+    const key = account.toLowerCase();
+    try {
+      await SendPolicy.store.update(data => {
+        const usage = data.accounts[key];
+        if (usage && usage.date === SendPolicy.today() && usage.count > 0) {
+          usage.count -= 1;
+        }
+      });
+    } catch (error) {
+      Logger.warn(`Failed to release daily send quota of ${account}`, error);
+    }
+  }
+
+  /**
+   * 账户必须使用的主题前缀，没有单独配置时使用默认前缀
+   */
+  private static getSubjectPrefixes(account: string): string[] {
+    const { subjectPrefixes } = Config.getSendPolicyConfig();
+    return subjectPrefixes[account.toLowerCase()] || subjectPrefixes['*'] || [];
+  }
+
+  /**
+   * 地址匹配列表中的完整地址，或匹配域名及其子域名（example.com 与 @example.com 等价）
+   */
+  private static matches(address: string, entries: string[]): boolean {
+    const domain = address.slice(address.lastIndexOf('@') + 1);
+    return entries.some(entry => {
+      if (entry.startsWith('@')) entry = entry.slice(1);
+      if (entry.includes('@')) return entry === address;
+      return domain === entry || domain.endsWith(`.${entry}`);
+    });
+  }
+
+  private static parseAddresses(value: string | string[] | undefined): string[] {
+    if (!value) return [];
+    return (Array.isArray(value) ? value : [value])
+      .flatMap(entry => addressparser(entry, { flatten: true }))
+      .map(parsed => parsed.address.toLowerCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * 每日额度的下次重置时间（次日本地时间零点）
+   */
+  static getDailyResetTime(now: Date = new Date()): Date {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  }
+
+  /**
+   * 本地时区的日期（YYYY-MM-DD），每日额度按本地日期重置
+   */
+  private static today(): string {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  }
+}
\ No newline at end of file
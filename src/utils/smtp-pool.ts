@@ -0,0 +1,65 @@
+/**
+ * SMTP 连接池模块
+ * 按账户共享 nodemailer 的连接池传输，复用已登录的 SMTP 连接，并按账户限制发送速率
+ */
+
+import nodemailer from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import { createHash } from 'crypto';
+import { Config } from './config.js';
+import { Logger } from './logger.js';
+
+interface PooledTransport {
+  transporter: nodemailer.Transporter;
+  /** 连接参数和凭据的摘要，变化时（如 OAuth 令牌刷新）重建连接池 */
+  fingerprint: string;
+}
+
+export class SmtpTransportPool {
+  private static transports = new Map<string, PooledTransport>();
+
+  /**
+   * 获取账户的连接池传输，同一账户的所有发送（包括批量发送和发件箱投递）共享连接数和速率限制
+   */
+  static get(key: string, options: SMTPTransport.Options): nodemailer.Transporter {
+    const fingerprint = createHash('sha256').update(JSON.stringify(options)).digest('hex');
+    const existing = SmtpTransportPool.transports.get(key);
+    if (existing?.fingerprint === fingerprint) {
+      return existing.transporter;
+    }
+    if (existing) {
+      Logger.info(`SMTP settings changed for ${key}, recreating the connection pool`);
+      existing.transporter.close();
+    }
+
+    const { maxConnections, rateLimit } = Config.getSmtpPoolConfig();
+    const transporter = nodemailer.createTransport({
+      ...options,
+      pool: true,
+      maxConnections,
+      ...(rateLimit > 0 ? { rateDelta: 60 * 1000, rateLimit } : {})
+    });
+    SmtpTransportPool.transports.set(key, { transporter, fingerprint });
+    return transporter;
+  }
+
+  /**
+   * 关闭某个账户的连接池（如账户凭据变更），正在发送的邮件完成后断开
+   */
+  static closeAccount(key: string): void {
+    const pooled = SmtpTransportPool.transports.get(key);
+    if (!pooled) return;
+
+    SmtpTransportPool.transports.delete(key);
+    pooled.transporter.close();
+  }
+
+  /**
+   * 关闭所有账户的连接池
+   */
+  static closeAll(): void {
+    for (const key of Array.from(SmtpTransportPool.transports.keys())) {
+      SmtpTransportPool.closeAccount(key);
+    }
+  }
+}
\ No newline at end of file
@@ -8,6 +8,8 @@ import path from 'path';
 import os from 'os';
 import { Logger } from './logger.js';
 import { GMAIL_TOKEN_REFRESH_ENDPOINT } from './constants.js';
+import { MessageCache } from './message-cache.js';
+import { ProviderRegistry } from './providers.js';
 
 export interface EmailAccount {
   email: string;
@@ -19,7 +21,8 @@ export interface EmailAccount {
   imapPort: number;
   smtpHost: string;
   smtpPort: number;
-  secure: boolean;
+  secure: boolean;      // IMAP 是否使用隐式 TLS
+  smtpSecure?: boolean; // SMTP 是否使用隐式 TLS（false 时使用 STARTTLS），未设置时与 secure 相同
   lastLogin?: string;
   isActive: boolean;
   accessToken?: string;  // For OAuth providers
@@ -282,6 +285,9 @@ export class EmailStorage {
     }
 
     await EmailStorage.writeStorage(storage);
+
+    // 同时删除该账户的本地邮件缓存
+    await MessageCache.clear(email);
     Logger.info(`Account removed: ${email}`);
   }
 
@@ -314,32 +320,6 @@ export class EmailStorage {
     return account !== null && account.isActive;
   }
 
-  /**
-   * 获取QQ邮箱的默认配置
-   */
-  static getQQEmailConfig(): Pick<EmailAccount, 'imapHost' | 'imapPort' | 'smtpHost' | 'smtpPort' | 'secure'> {
-    return {
-      imapHost: 'imap.qq.com',
-      imapPort: 993,
-      smtpHost: 'smtp.qq.com',
-      smtpPort: 465,
-      secure: true
-    };
-  }
-
-  /**
-   * 获取Gmail的默认配置
-   */
-  static getGmailConfig(): Pick<EmailAccount, 'imapHost' | 'imapPort' | 'smtpHost' | 'smtpPort' | 'secure'> {
-    return {
-      imapHost: 'imap.gmail.com',
-      imapPort: 993,
-      smtpHost: 'smtp.gmail.com',
-      smtpPort: 465,
-      secure: true
-    };
-  }
-
   /**
    * 添加OAuth账户
    */
@@ -387,11 +367,7 @@ export class EmailStorage {
       provider: 'Gmail',
       username: typeof email === 'string' ? email : '',
       password: '', // OAuth doesn't use password
-      imapHost: 'imap.gmail.com',
-      imapPort: 993,
-      smtpHost: 'smtp.gmail.com',
-      smtpPort: 465,
-      secure: true,
+      ...ProviderRegistry.getSettings('gmail'),
       lastLogin: gmailAuth.loginTime,
       isActive: true,
       accessToken: gmailAuth.tokens.access_token
@@ -460,7 +436,7 @@ export class EmailStorage {
 
       for (let i = 0; i < storage.accounts.length; i++) {
       const account = storage.accounts[i];
-      if (account.provider === 'Gmail' && account.tokenExpiry) {
+      if (account.accessToken && account.tokenExpiry) {
         const expiryDate = new Date(account.tokenExpiry);
         const now = new Date();
         // If token has expired more than 1 hour ago, try to refresh it
@@ -602,7 +578,7 @@ export class EmailStorage {
   }> {
     const account = await EmailStorage.getAccount(emailOrDisplayName);
 
-    if (!account || account.provider !== 'Gmail' || !account.tokenExpiry) {
+    if (!account || !account.accessToken || !account.tokenExpiry) {
       return {
         isExpired: false,
         expiresIn: Infinity,
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ThreadAssembler, ThreadLinks } from './thread-assembler.js';
+
+interface TestMessage extends ThreadLinks {
+  uid: number;
+}
+
+const message = (uid: number, day: number, links: Partial<ThreadLinks> = {}): TestMessage => ({
+  uid,
+  date: new Date(Date.UTC(2025, 0, day)),
+  ...links
+});
+
+const uids = (groups: TestMessage[][]) => groups.map(group => group.map(item => item.uid));
+
+describe('ThreadAssembler.groupThreads', () => {
+  it('groups replies by In-Reply-To and sorts each thread by date', () => {
+    const reply = message(2, 2, { messageId: '<b@example.com>', inReplyTo: '<a@example.com>' });
+    const original = message(1, 1, { messageId: '<a@example.com>' });
+    const other = message(3, 3, { messageId: '<c@example.com>' });
+
+    assert.deepEqual(uids(ThreadAssembler.groupThreads([reply, other, original])), [[1, 2], [3]]);
+  });
+
+  it('links messages through References even when the common parent is missing', () => {
+    const first = message(1, 1, { messageId: '<b@example.com>', references: ['<root@example.com>'] });
+    const second = message(2, 2, { messageId: '<c@example.com>', references: ['<ROOT@example.com>', '<b@example.com>'] });
+
+    assert.deepEqual(uids(ThreadAssembler.groupThreads([second, first])), [[1, 2]]);
+  });
+
+  it('groups by Gmail thread ID and keeps messages without IDs apart', () => {
+    const messages = [
+      message(1, 1, { threadId: '42' }),
+      message(2, 2, { threadId: '42' }),
+      message(3, 3),
+      message(4, 4)
+    ];
+
+    assert.deepEqual(uids(ThreadAssembler.groupThreads(messages)), [[1, 2], [3], [4]]);
+  });
+});
+
+describe('ThreadAssembler.parseReferences', () => {
+  it('parses folded References headers into normalized IDs', () => {
+    const headers = 'Subject: Hi\r\nReferences: <A@example.com>\r\n <b@example.com>\r\nIn-Reply-To: <b@example.com>\r\n';
+
+    assert.deepEqual(ThreadAssembler.parseReferences(headers), ['a@example.com', 'b@example.com']);
+  });
+});
+
+describe('ThreadAssembler.stripQuotedText', () => {
+  it('cuts the Gmail reply header and everything after it', () => {
+    const text = 'Sounds good.\n\nOn Mon, Jan 6, 2025 at 9:00 AM Alice <alice@example.com> wrote:\n> Shall we meet?';
+
+    assert.equal(ThreadAssembler.stripQuotedText(text), 'Sounds good.');
+  });
+
+  it('cuts a Gmail reply header folded over two lines', () => {
+    const text = 'Thanks!\nOn Mon, Jan 6, 2025 at 9:00 AM Alice Example\n<alice@example.com> wrote:\n> Hello';
+
+    assert.equal(ThreadAssembler.stripQuotedText(text), 'Thanks!');
+  });
+
+  it('cuts Chinese and Outlook style reply headers', () => {
+    assert.equal(ThreadAssembler.stripQuotedText('好的\n\n------------------ 原始邮件 ------------------\n发件人: 张三'), '好的');
+    assert.equal(ThreadAssembler.stripQuotedText('OK\nFrom: Bob\nSent: Monday\nSubject: Re: plan'), 'OK');
+  });
+
+  it('keeps a From: line in the body that is not a reply header', () => {
+    const text = 'From: the team\nWe are happy to announce the release.';
+
+    assert.equal(ThreadAssembler.stripQuotedText(text), text);
+  });
+
+  it('drops inline quoted lines', () => {
+    assert.equal(ThreadAssembler.stripQuotedText('> quoted\nmy answer\n> more'), 'my answer');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,163 @@
+/**
+ * 邮件会话组装模块
+ * 根据 Message-ID / In-Reply-To / References（以及 Gmail 的 X-GM-THRID）把邮件归并为会话
+ */
+
+export interface ThreadLinks {
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  threadId?: string;
+  date: Date;
+}
+
+export class ThreadAssembler {
+  /**
+   * 规范化 Message-ID：去掉尖括号和空白，统一小写
+   */
+  static normalizeMessageId(messageId: string | undefined): string | undefined {
+    if (!messageId) return undefined;
+    const normalized = messageId.trim().replace(/^<|>$/g, '').trim().toLowerCase();
+    return normalized || undefined;
+  }
+
+  /**
+   * 从原始头部中解析 References 列表
+   */
+  static parseReferences(headers: Buffer | string | undefined): string[] {
+    if (!headers) return [];
+
+    const text = headers.toString();
+    const match = text.match(/^references:([\s\S]*?)(?=^\S|(?![\s\S]))/im);
+    if (!match) return [];
+
+    const ids = match[1].match(/<[^<>\s]+>/g) || [];
+    return ids
+      .map(id => ThreadAssembler.normalizeMessageId(id))
+      .filter((id): id is string => !!id);
+  }
+
+  /**
+   * 把邮件归并为会话，每个会话按日期从旧到新排序
+   */
+  static groupThreads<T extends ThreadLinks>(messages: T[]): T[][] {
+    const parent = new Map<string, string>();
+
+    const find = (key: string): string => {
+      let root = key;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      // 路径压缩
+      let current = key;
+      while (current !== root) {
+        const next = parent.get(current)!;
+        parent.set(current, root);
+        current = next;
+      }
+      return root;
+    };
+
+    const add = (key: string) => {
+      if (!parent.has(key)) {
+        parent.set(key, key);
+      }
+    };
+
+    const union = (a: string, b: string) => {
+      add(a);
+      add(b);
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) {
+        parent.set(rootB, rootA);
+      }
+    };
+
+    const keys = messages.map((message, index) => {
+      const messageId = ThreadAssembler.normalizeMessageId(message.messageId);
+      const key = messageId ? `id:${messageId}` : `message:${index}`;
+      add(key);
+
+      const related = [
+        ThreadAssembler.normalizeMessageId(message.inReplyTo),
+        ...(message.references || []).map(id => ThreadAssembler.normalizeMessageId(id))
+      ];
+      for (const id of related) {
+        if (id) union(key, `id:${id}`);
+      }
+
+      if (message.threadId) {
+        union(key, `thread:${message.threadId}`);
+      }
+
+      return key;
+    });
+
+    const groups = new Map<string, T[]>();
+    messages.forEach((message, index) => {
+      const root = find(keys[index]);
+      const group = groups.get(root);
+      if (group) {
+        group.push(message);
+      } else {
+        groups.set(root, [message]);
+      }
+    });
+
+    return Array.from(groups.values()).map(group =>
+      group.sort((a, b) => a.date.getTime() - b.date.getTime())
+    );
+  }
+
+  /**
+   * 找出包含目标邮件的会话
+   */
+  static findThread<T extends ThreadLinks>(messages: T[], target: T): T[] {
+    return ThreadAssembler.groupThreads(messages).find(group => group.includes(target)) || [target];
+  }
+
+  /**
+   * 移除回复中引用的历史内容，只保留本次新写的正文
+   */
+  static stripQuotedText(text: string): string {
+    if (!text) return '';
+
+    const replyHeaderPatterns = [
+      /^On .+wrote:\s*$/i,                       // Gmail / Apple Mail
+      /^在.+写道[:：]\s*$/,                        // Gmail 中文
+      /^-{2,}\s*Original Message\s*-{2,}\s*$/i,  // Outlook
+      /^-{2,}\s*原始邮件\s*-{2,}\s*$/,             // QQ邮箱
+      /^-{2,}\s*Forwarded message\s*-{2,}\s*$/i
+    ];
+
+    const lines = text.split('\n');
+    const kept: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      // Gmail 的 "On ... wrote:" 较长时会被折成两行
+      const joined = `${line} ${(lines[i + 1] || '').trim()}`;
+
+      if (replyHeaderPatterns.some(pattern => pattern.test(line) || pattern.test(joined))) {
+        break;
+      }
+
+      // Outlook 风格的引用头需要紧跟 Sent/Date 行，避免误删正文中的 "From:"
+      if (/^(From|发件人)[:：]/.test(line)) {
+        const nextLines = lines.slice(i + 1, i + 4).join('\n');
+        if (/^\s*(Sent|Date|发送时间|日期)[:：]/im.test(nextLines)) {
+          break;
+        }
+      }
+
+      if (line.startsWith('>')) {
+        continue;
+      }
+
+      kept.push(lines[i]);
+    }
+
+    return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  }
+}
\ No newline at end of file